@@ -0,0 +1,53 @@
+/**
+ * Type declarations for asyncapi.js
+ */
+
+export type ChannelDirection = 'send' | 'subscribe';
+
+export interface AsyncAPIServer {
+  name: string;
+  url: string;
+  protocol: string;
+  description?: string;
+}
+
+export interface ChannelParameter {
+  name: string;
+  description?: string;
+  schema: any;
+}
+
+export interface ChannelMessage {
+  name: string;
+  title?: string;
+  summary?: string;
+  contentType: string;
+  payload: any;
+  headers?: any;
+}
+
+export interface ChannelOperation {
+  id?: string;
+  direction: ChannelDirection;
+  address: string;
+  parameters: ChannelParameter[];
+  messages: ChannelMessage[];
+  summary?: string;
+  description?: string;
+  servers?: string[];
+}
+
+export interface AsyncAPIModel {
+  asyncapi: string;
+  info: { title?: string; version?: string; description?: string };
+  servers: AsyncAPIServer[];
+  operations: ChannelOperation[];
+}
+
+export function isAsyncAPI(document: any): boolean;
+export function readAsyncAPI(document: any): AsyncAPIModel;
+export function channelAddress(
+  template: string,
+  values?: Record<string, any>
+): { address: string; missing: string[] };
+export function matchChannelAddress(template: string, address: string): Record<string, string> | null;
@@ -0,0 +1,198 @@
+/**
+ * AsyncAPI 2.x/3.x reading
+ *
+ * Normalizes both major versions into one list of channel operations, seen
+ * from the MCP client's side:
+ * - `send`: the client sends messages to the channel
+ *   (2.x `publish`, 3.x `action: receive` — the application receives them)
+ * - `subscribe`: the client receives messages from the channel
+ *   (2.x `subscribe`, 3.x `action: send` — the application sends them)
+ *
+ * Expects a document whose $refs are already resolved (see ref-resolver.js).
+ */
+
+const DEFAULT_CONTENT_TYPE = 'application/json';
+
+/**
+ * True for AsyncAPI 2.x and 3.x documents
+ */
+export function isAsyncAPI(doc) {
+  return typeof doc?.asyncapi === 'string' && /^[23]\./.test(doc.asyncapi);
+}
+
+/**
+ * Read servers and channel operations from a resolved AsyncAPI document
+ */
+export function readAsyncAPI(doc) {
+  if (!isAsyncAPI(doc)) {
+    throw new Error('Not an AsyncAPI 2.x or 3.x document');
+  }
+
+  const version3 = doc.asyncapi.startsWith('3.');
+  const defaultContentType = doc.defaultContentType || DEFAULT_CONTENT_TYPE;
+
+  return {
+    asyncapi: doc.asyncapi,
+    info: doc.info || {},
+    servers: readServers(doc.servers, version3),
+    operations: version3
+      ? readOperations3(doc, defaultContentType)
+      : readOperations2(doc, defaultContentType)
+  };
+}
+
+/**
+ * Fill `{name}` placeholders of a channel address. Missing values are
+ * reported by name.
+ */
+export function channelAddress(template, values = {}) {
+  const missing = [];
+  const address = template.replace(/\{([^}]+)\}/g, (_match, name) => {
+    if (values[name] === undefined || values[name] === null || values[name] === '') {
+      missing.push(name);
+      return `{${name}}`;
+    }
+    return encodeURIComponent(String(values[name]));
+  });
+
+  return { address, missing };
+}
+
+/**
+ * Match a concrete address against a channel address template and return
+ * its parameter values, or null when it does not match
+ */
+export function matchChannelAddress(template, address) {
+  const names = [];
+  const pattern = template
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      const param = part.match(/^\{([^}]+)\}$/);
+      if (param) {
+        names.push(param[1]);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = address.match(new RegExp(`^${pattern}$`));
+  if (!match) return null;
+
+  return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+}
+
+function readServers(servers, version3) {
+  return Object.entries(servers || {}).map(([name, server]) => {
+    const protocol = String(server.protocol || '').toLowerCase();
+    let url = version3
+      ? `${server.host || ''}${server.pathname || ''}`
+      : String(server.url || '');
+
+    url = url.replace(/\{([^}]+)\}/g, (match, variable) =>
+      server.variables?.[variable]?.default ?? match
+    );
+
+    // 2.x urls may carry the scheme, 3.x hosts never do
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url) && protocol) {
+      url = `${protocol}://${url}`;
+    }
+
+    return { name, url, protocol, description: server.description };
+  });
+}
+
+function readOperations2(doc, defaultContentType) {
+  const operations = [];
+
+  for (const [address, channel] of Object.entries(doc.channels || {})) {
+    if (!channel || typeof channel !== 'object') continue;
+    const parameters = readParameters(channel.parameters);
+
+    for (const [key, direction] of [['publish', 'send'], ['subscribe', 'subscribe']]) {
+      const operation = channel[key];
+      if (!operation || typeof operation !== 'object') continue;
+
+      const messages = operation.message?.oneOf || (operation.message ? [operation.message] : []);
+
+      operations.push({
+        id: operation.operationId,
+        direction,
+        address,
+        parameters,
+        messages: messages.map((message, i) => readMessage(message, `${key}Message${i}`, defaultContentType)),
+        summary: operation.summary,
+        description: operation.description || channel.description,
+        servers: channel.servers
+      });
+    }
+  }
+
+  return operations;
+}
+
+function readOperations3(doc, defaultContentType) {
+  const channels = Object.entries(doc.channels || {});
+  const operations = [];
+
+  // Resolved operations point at the channel object itself, so its key is
+  // recovered by identity (or by content, for copies)
+  const channelKey = channel =>
+    channels.find(([, candidate]) => candidate === channel)?.[0] ??
+    channels.find(([, candidate]) => JSON.stringify(candidate) === JSON.stringify(channel))?.[0];
+
+  for (const [id, operation] of Object.entries(doc.operations || {})) {
+    if (!operation || typeof operation !== 'object' || !operation.channel) continue;
+
+    const channel = operation.channel;
+    const key = channelKey(channel);
+    const address = channel.address ?? key;
+    if (address === undefined || address === null) continue;
+
+    const declared = operation.messages?.length
+      ? operation.messages
+      : Object.values(channel.messages || {});
+    const messageNames = new Map(
+      Object.entries(channel.messages || {}).map(([name, message]) => [message, name])
+    );
+
+    operations.push({
+      id,
+      direction: operation.action === 'receive' ? 'send' : 'subscribe',
+      address,
+      parameters: readParameters(channel.parameters),
+      messages: declared.map((message, i) =>
+        readMessage(message, messageNames.get(message) || `message${i}`, defaultContentType)
+      ),
+      summary: operation.summary || channel.summary,
+      description: operation.description || channel.description,
+      servers: channel.servers?.map(server => server?.name ?? server).filter(Boolean)
+    });
+  }
+
+  return operations;
+}
+
+function readParameters(parameters) {
+  return Object.entries(parameters || {}).map(([name, parameter]) => {
+    // 2.x parameters carry a schema, 3.x ones describe a string inline
+    const schema = parameter?.schema || {
+      type: 'string',
+      ...(parameter?.enum ? { enum: parameter.enum } : {}),
+      ...(parameter?.default !== undefined ? { default: parameter.default } : {})
+    };
+
+    return { name, description: parameter?.description, schema };
+  });
+}
+
+function readMessage(message, fallbackName, defaultContentType) {
+  return {
+    name: message?.name || message?.messageId || fallbackName,
+    title: message?.title,
+    summary: message?.summary,
+    contentType: message?.contentType || defaultContentType,
+    payload: message?.payload || {},
+    headers: message?.headers
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Type declarations for composite-tools.js
+ */
+
+import { ToolAnnotations } from './tool-annotations.js';
+
+export type CrudAction = 'list' | 'get' | 'create' | 'update' | 'delete';
+
+export interface CrudResource<E extends { method: string; path: string }> {
+  resource: string;
+  collectionPath: string;
+  itemPath: string;
+  actions: Partial<Record<CrudAction, E>>;
+}
+
+export interface ActionTool {
+  name: string;
+  description?: string;
+  inputSchema?: any;
+  annotations?: ToolAnnotations;
+}
+
+export interface CompositeTool {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, any>;
+    required: string[];
+    oneOf: any[];
+  };
+  annotations?: ToolAnnotations;
+  // Tool name by action
+  actions: Partial<Record<CrudAction, string>>;
+}
+
+export const ACTION_ARGUMENT: string;
+export const CRUD_ACTIONS: CrudAction[];
+
+export function findCrudResources<E extends { method: string; path: string }>(
+  endpoints: E[],
+  options?: { minActions?: number }
+): CrudResource<E>[];
+export function compositeToolName(resource: string): string;
+export function buildCompositeTool(
+  resource: string,
+  actionTools: Partial<Record<CrudAction, ActionTool>>,
+  options?: { name?: string }
+): CompositeTool;
+export function composeCrudTools<E>(
+  resources: Array<{ resource: string; actions: Partial<Record<CrudAction | string, E | undefined>> }>,
+  toolFor: (endpoint: E) => ActionTool | undefined,
+  taken?: Iterable<string>
+): { tools: CompositeTool[]; covered: Set<string> };
+export function routeCompositeCall(
+  tool: Pick<CompositeTool, 'name' | 'actions'>,
+  args?: Record<string, any>
+): { action: CrudAction; toolName: string; arguments: Record<string, any> };
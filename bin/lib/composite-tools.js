@@ -0,0 +1,185 @@
+/**
+ * Composite CRUD tools
+ *
+ * A resource with a collection path (`/pets`) and an item path
+ * (`/pets/{petId}`) can be served as one `manage_pets` tool instead of one
+ * tool per endpoint. The `action` argument picks the endpoint:
+ *
+ * - list: GET on the collection
+ * - create: POST on the collection
+ * - get: GET on the item
+ * - update: PUT on the item (PATCH when there is no PUT)
+ * - delete: DELETE on the item
+ *
+ * The input schema has one `oneOf` branch per action holding that
+ * endpoint's arguments, and calls are routed to the endpoint's own tool.
+ */
+
+import { sanitizeToolName } from './tool-names.js';
+import { mergeAnnotations } from './tool-annotations.js';
+
+export const ACTION_ARGUMENT = 'action';
+export const CRUD_ACTIONS = ['list', 'get', 'create', 'update', 'delete'];
+
+// Fewer actions than this are not worth a composite tool
+const MIN_ACTIONS = 3;
+
+/**
+ * Group endpoints (`{ method, path }`, any extra fields kept) into CRUD
+ * resources. Returns `{ resource, collectionPath, itemPath, actions }`
+ * where `actions` maps each found action to its endpoint.
+ */
+export function findCrudResources(endpoints, options = {}) {
+  const minActions = options.minActions ?? MIN_ACTIONS;
+  const byPath = new Map();
+  for (const endpoint of endpoints) {
+    const methods = byPath.get(endpoint.path) || new Map();
+    methods.set(endpoint.method.toUpperCase(), endpoint);
+    byPath.set(endpoint.path, methods);
+  }
+
+  const resources = [];
+  for (const [itemPath, item] of byPath) {
+    const match = itemPath.match(/^(.*\/([^/{}]+))\/\{[^/{}]+\}$/);
+    if (!match) continue;
+
+    const [, collectionPath, resource] = match;
+    const collection = byPath.get(collectionPath) || new Map();
+    const actions = Object.fromEntries(Object.entries({
+      list: collection.get('GET'),
+      create: collection.get('POST'),
+      get: item.get('GET'),
+      update: item.get('PUT') || item.get('PATCH'),
+      delete: item.get('DELETE')
+    }).filter(([, endpoint]) => endpoint));
+
+    if (Object.keys(actions).length >= minActions) {
+      resources.push({ resource, collectionPath, itemPath, actions });
+    }
+  }
+
+  return resources.sort((a, b) => (a.itemPath < b.itemPath ? -1 : a.itemPath > b.itemPath ? 1 : 0));
+}
+
+/**
+ * Name of the composite tool for a resource: `pets` → `manage_pets`
+ */
+export function compositeToolName(resource) {
+  const words = resource
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_');
+  return sanitizeToolName(`manage_${words}`);
+}
+
+/**
+ * Build the composite tool of a CRUD resource. `actionTools` maps each
+ * action to the `{ name, description, inputSchema }` of the tool it routes
+ * to. Those schemas must not use an `action` argument of their own
+ * (build them with `action` reserved). The tool's annotations combine
+ * theirs.
+ */
+export function buildCompositeTool(resource, actionTools, options = {}) {
+  const actions = CRUD_ACTIONS.filter(action => actionTools[action]);
+  const annotations = mergeAnnotations(actions.map(action => actionTools[action].annotations));
+
+  // Refs point at the root's `$defs`, so the branches' move up there
+  const defs = {};
+  const oneOf = actions.map(action => {
+    const { name, description, inputSchema = {} } = actionTools[action];
+    const { properties = {}, required = [], $defs, ...rest } = inputSchema;
+    Object.assign(defs, $defs);
+    return {
+      ...rest,
+      type: 'object',
+      title: action,
+      description: description || name,
+      properties: {
+        [ACTION_ARGUMENT]: { const: action },
+        ...properties
+      },
+      required: [ACTION_ARGUMENT, ...required]
+    };
+  });
+
+  return {
+    name: options.name || compositeToolName(resource),
+    description: `Manage ${resource}: ${actions.join(', ')}. ` +
+                 `Set "${ACTION_ARGUMENT}" and the arguments that action takes.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        [ACTION_ARGUMENT]: {
+          type: 'string',
+          enum: actions,
+          description: actions
+            .map(action => `${action}: ${actionTools[action].description || actionTools[action].name}`)
+            .join('; ')
+        }
+      },
+      required: [ACTION_ARGUMENT],
+      oneOf,
+      ...(Object.keys(defs).length > 0 && { $defs: defs })
+    },
+    ...(annotations && { annotations }),
+    actions: Object.fromEntries(actions.map(action => [action, actionTools[action].name]))
+  };
+}
+
+/**
+ * Fold the tools of CRUD resources (`{ resource, actions }`, as found by
+ * `findCrudResources`) into composite tools. `toolFor(endpoint)` returns
+ * the `{ name, description, inputSchema }` an endpoint is served as, or
+ * nothing to leave it out; tools with an `action` argument of their own
+ * stay standalone. `taken` are tool names already in use.
+ *
+ * Returns `{ tools, covered }`: the composite tools and the names of the
+ * tools they replace.
+ */
+export function composeCrudTools(resources, toolFor, taken = []) {
+  const names = new Set(taken);
+  const covered = new Set();
+  const tools = [];
+
+  for (const { resource, actions } of resources) {
+    const actionTools = {};
+    for (const [action, endpoint] of Object.entries(actions)) {
+      const tool = endpoint && toolFor(endpoint);
+      if (tool && !tool.inputSchema?.properties?.[ACTION_ARGUMENT]) {
+        actionTools[action] = tool;
+      }
+    }
+    if (Object.keys(actionTools).length < 2) continue;
+
+    const base = compositeToolName(resource);
+    let name = base;
+    for (let i = 2; names.has(name); i++) {
+      name = `${base}_${i}`;
+    }
+    names.add(name);
+
+    tools.push(buildCompositeTool(resource, actionTools, { name }));
+    Object.values(actionTools).forEach(tool => covered.add(tool.name));
+  }
+
+  return { tools, covered };
+}
+
+/**
+ * Resolve a composite tool call to the tool of its action. Returns
+ * `{ action, toolName, arguments }` with `action` removed from the
+ * arguments; throws for a missing or unknown action.
+ */
+export function routeCompositeCall(tool, args = {}) {
+  const { [ACTION_ARGUMENT]: action, ...rest } = args || {};
+  const actions = Object.keys(tool.actions);
+
+  if (!action) {
+    throw new Error(`${tool.name} needs "${ACTION_ARGUMENT}": one of ${actions.join(', ')}`);
+  }
+  if (!tool.actions[action]) {
+    throw new Error(`${tool.name} has no action "${action}" (expected one of ${actions.join(', ')})`);
+  }
+
+  return { action, toolName: tool.actions[action], arguments: rest };
+}
@@ -0,0 +1,11 @@
+/**
+ * Type declarations for document-reader.js
+ */
+
+import { SpecDocument } from './spec-loader.js';
+
+export function toUri(source: string): string;
+export function fetchSource(uri: string): Promise<{ data: Buffer; contentType?: string }>;
+export function parseDocument(text: string, contentType?: string): any;
+export function readDocument(uri: string): Promise<any>;
+export function openSpecSource(source: string): Promise<SpecDocument>;
@@ -0,0 +1,210 @@
+/**
+ * Document reading and format detection
+ *
+ * Fetches spec documents from files or URLs and decides how to parse them
+ * from the Content-Type and the content itself rather than the extension:
+ * - JSON or YAML, whatever the path looks like
+ * - gzip-compressed documents
+ * - zip archives, including $refs between files inside the archive
+ */
+
+import axios from 'axios';
+import { load } from 'js-yaml';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { pathToFileURL, fileURLToPath } from 'url';
+import { gunzipSync, inflateRawSync } from 'zlib';
+
+const SPEC_FILE_PATTERN = /\.(json|ya?ml)$/i;
+const PREFERRED_SPEC_NAMES = /^(openapi|swagger|spec|api)\.(json|ya?ml)$/i;
+
+/**
+ * Turn a file path or URL into an absolute URI
+ */
+export function toUri(source) {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(source)) {
+    return source;
+  }
+  return pathToFileURL(resolve(process.cwd(), source)).href;
+}
+
+/**
+ * Fetch the raw bytes behind a URI along with any declared content type
+ */
+export async function fetchSource(uri) {
+  if (uri.startsWith('file://')) {
+    const path = fileURLToPath(uri);
+    if (!existsSync(path)) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return { data: await readFile(path), contentType: undefined };
+  }
+
+  const response = await axios.get(uri, {
+    responseType: 'arraybuffer',
+    headers: { Accept: 'application/json, application/yaml, text/yaml, */*' }
+  });
+
+  return {
+    data: Buffer.from(response.data),
+    contentType: response.headers?.['content-type']
+  };
+}
+
+/**
+ * Parse document text as JSON or YAML, using the content type as a hint
+ * and falling back to sniffing the content
+ */
+export function parseDocument(text, contentType) {
+  const content = text.replace(/^\uFEFF/, '');
+  const type = (contentType || '').toLowerCase();
+
+  if (type.includes('json')) {
+    return JSON.parse(content);
+  }
+
+  if (type.includes('yaml') || type.includes('yml')) {
+    return load(content);
+  }
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(content);
+    } catch {
+      // Flow-style YAML also starts with a brace
+    }
+  }
+
+  const document = load(content);
+  if (document === null || typeof document !== 'object') {
+    throw new Error('Document is neither a JSON nor a YAML object');
+  }
+  return document;
+}
+
+/**
+ * Read and parse a single (possibly gzip-compressed) document
+ */
+export async function readDocument(uri) {
+  const { data, contentType } = await fetchSource(uri);
+  return parseDocument(decompress(data).toString('utf-8'), contentType);
+}
+
+/**
+ * Open a spec source. Returns the parsed root document, the URI relative
+ * $refs resolve against, and a reader that can also serve files from
+ * inside a zip archive.
+ */
+export async function openSpecSource(source) {
+  const uri = toUri(source);
+  const { data, contentType } = await fetchSource(uri);
+
+  if (isZip(data)) {
+    const entries = readZipEntries(data);
+    const entryName = selectSpecEntry([...entries.keys()]);
+    if (!entryName) {
+      throw new Error(`No OpenAPI document found in archive: ${source}`);
+    }
+
+    const prefix = uri.replace(/\/?$/, '/');
+    const archiveReader = async (documentUri) => {
+      if (documentUri.startsWith(prefix)) {
+        const name = decodeURIComponent(documentUri.slice(prefix.length));
+        if (!entries.has(name)) {
+          throw new Error(`File not found in archive: ${name}`);
+        }
+        return parseDocument(entries.get(name)().toString('utf-8'));
+      }
+      return readDocument(documentUri);
+    };
+
+    return {
+      document: parseDocument(entries.get(entryName)().toString('utf-8')),
+      baseUri: `${prefix}${entryName}`,
+      readDocument: archiveReader
+    };
+  }
+
+  const text = decompress(data).toString('utf-8');
+  return {
+    document: parseDocument(text, contentType),
+    baseUri: uri,
+    readDocument
+  };
+}
+
+function decompress(data) {
+  return data[0] === 0x1f && data[1] === 0x8b ? gunzipSync(data) : data;
+}
+
+function isZip(data) {
+  return data.length > 4 && data.readUInt32LE(0) === 0x04034b50;
+}
+
+/**
+ * Pick the spec document in an archive: a conventionally named file at the
+ * shallowest depth, otherwise the shallowest JSON/YAML file
+ */
+function selectSpecEntry(names) {
+  const candidates = names
+    .filter(name => SPEC_FILE_PATTERN.test(name) && !name.startsWith('__MACOSX/'))
+    .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+
+  return candidates.find(name => PREFERRED_SPEC_NAMES.test(name.split('/').pop())) ||
+    candidates[0];
+}
+
+/**
+ * Minimal zip reader: walks the central directory and returns lazy
+ * extractors for stored and deflated entries
+ */
+function readZipEntries(data) {
+  let end = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 65557); offset--) {
+    if (data.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+
+  if (end === -1) {
+    throw new Error('Invalid zip archive: end of central directory not found');
+  }
+
+  const entryCount = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  const entries = new Map();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (!name.endsWith('/')) {
+      entries.set(name, () => {
+        const localNameLength = data.readUInt16LE(localOffset + 26);
+        const localExtraLength = data.readUInt16LE(localOffset + 28);
+        const start = localOffset + 30 + localNameLength + localExtraLength;
+        const raw = data.subarray(start, start + compressedSize);
+
+        if (method === 0) return raw;
+        if (method === 8) return inflateRawSync(raw);
+        throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+      });
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
@@ -0,0 +1,63 @@
+/**
+ * Type declarations for file-upload.js
+ */
+
+import { Readable } from 'stream';
+import { ToolInput } from './input-schema.js';
+
+export interface UploadField {
+  // Form field; undefined for binary bodies
+  name?: string;
+  // An array of files
+  multiple: boolean;
+  // Accepted media types, wildcards allowed; empty accepts anything
+  contentTypes: string[];
+  minLength?: number;
+  maxLength?: number;
+  // Sent base64-encoded (`format: byte`)
+  base64: boolean;
+}
+
+export interface UploadScheme {
+  contentType: string;
+  mode: 'multipart' | 'binary';
+  fields: UploadField[];
+}
+
+export interface FileReference {
+  path?: string;
+  data?: string;
+  filename?: string;
+  contentType?: string;
+}
+
+export interface UploadedFile {
+  field: string;
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+export interface EncodedUpload {
+  body: Readable;
+  contentType: string;
+  contentLength: number;
+  files: UploadedFile[];
+}
+
+export function detectUpload(operation: any, contentType?: string): UploadScheme | undefined;
+export function fileSizeLimits(field: Partial<UploadField>): { minBytes?: number; maxBytes?: number };
+export function fileReferenceSchema(field?: Partial<UploadField>, description?: string): Record<string, any>;
+export function applyFileArguments(input: ToolInput, upload: UploadScheme): ToolInput;
+export function encodeUpload(upload: UploadScheme, body: any, roots: FileRoots): EncodedUpload;
+export function mediaTypeOf(filename: string): string;
+export function acceptsMediaType(accepted: string[] | undefined, mediaType: string): boolean;
+
+export class FileRoots {
+  constructor(declared?: string[]);
+  declared: string[];
+  client: string[];
+  setClientRoots(roots?: Array<{ uri: string; name?: string }>): void;
+  list(): string[];
+  resolve(path: string): string;
+}
@@ -0,0 +1,472 @@
+/**
+ * File uploads: multipart and binary request bodies
+ *
+ * An operation uploads files when its request body is `multipart/form-data`
+ * with binary fields (`format: binary`/`byte`, `contentMediaType` or
+ * `contentEncoding`), or a binary media type such as
+ * `application/octet-stream` or `image/png`. Its tool takes a file
+ * reference in place of each file: the `path` of a file under an allowed
+ * `file://` root, or base64 `data`. Files are checked against the size
+ * (`minLength`/`maxLength`) and content types (the `encoding` object's
+ * `contentType`, or `contentMediaType`) the spec declares, then streamed:
+ * one part per field for multipart bodies, the file itself otherwise.
+ */
+
+import { createReadStream, realpathSync, statSync } from 'fs';
+import { basename, extname, isAbsolute, relative, resolve } from 'path';
+import { Readable } from 'stream';
+import { randomBytes } from 'crypto';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const BINARY_FORMATS = ['binary', 'byte', 'base64'];
+
+// Request media types that are never file bodies
+const STRUCTURED_TYPES = /^(application\/(json|x-www-form-urlencoded|xml)|text\/|multipart\/)|\+json\b|\+xml\b/i;
+
+const MEDIA_TYPES = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+/**
+ * How an operation uploads files, for the request media type its tool
+ * sends (the first multipart or binary one when not given):
+ * `{ contentType, mode, fields }` with `mode` `multipart` or `binary`.
+ * Each field is `{ name, multiple, contentTypes, minLength?, maxLength?,
+ * base64 }`; binary bodies have one field without a name. Undefined when
+ * the operation uploads no files.
+ */
+export function detectUpload(operation, contentType) {
+  const content = operation?.requestBody?.content || {};
+  const mediaType = contentType ||
+    Object.keys(content).find(type => /^multipart\/form-data\b/i.test(type)) ||
+    Object.keys(content).find(type => isBinaryMediaType(type, content[type]?.schema));
+  const media = mediaType && content[mediaType];
+  if (!media) {
+    return undefined;
+  }
+
+  const schema = media.schema || {};
+  if (/^multipart\/form-data\b/i.test(mediaType)) {
+    const fields = Object.entries(schema.properties || {})
+      .map(([name, property]) => fileField(name, property, media.encoding?.[name]))
+      .filter(Boolean);
+    return fields.length > 0 ? { contentType: mediaType, mode: 'multipart', fields } : undefined;
+  }
+
+  if (!isBinaryMediaType(mediaType, media.schema)) {
+    return undefined;
+  }
+  return {
+    contentType: mediaType,
+    mode: 'binary',
+    fields: [{
+      multiple: false,
+      contentTypes: /^application\/octet-stream\b/i.test(mediaType) || mediaType === '*/*'
+        ? []
+        : [mediaType],
+      ...sizeLimits(schema),
+      base64: isBase64(schema)
+    }]
+  };
+}
+
+/**
+ * Input schema of a file argument. The accepted types and size limits are
+ * spelled out in its description.
+ */
+export function fileReferenceSchema(field = {}, description) {
+  const { minBytes, maxBytes } = fileSizeLimits(field);
+  const constraints = [
+    field.contentTypes?.length > 0 && `accepted types: ${field.contentTypes.join(', ')}`,
+    maxBytes !== undefined && `at most ${maxBytes} bytes`,
+    minBytes !== undefined && `at least ${minBytes} bytes`
+  ].filter(Boolean);
+
+  const reference = {
+    type: 'object',
+    description: `${description ? `${description}. ` : ''}File to upload: the "path" of a file under an ` +
+                 `allowed root, or base64 "data"${constraints.length > 0 ? ` (${constraints.join('; ')})` : ''}`,
+    properties: {
+      path: { type: 'string', description: 'Path or file:// URI of the file' },
+      data: { type: 'string', contentEncoding: 'base64', description: 'File content, base64-encoded' },
+      filename: { type: 'string', description: 'File name to send (defaults to the name of the file at "path")' },
+      contentType: { type: 'string', description: 'Media type of the file (guessed from its name when omitted)' }
+    },
+    oneOf: [{ required: ['path'] }, { required: ['data'] }]
+  };
+
+  return field.multiple ? { type: 'array', items: reference, description: reference.description } : reference;
+}
+
+/**
+ * Replace the file arguments of a tool input (see input-schema.js) with
+ * file references. Mutates and returns `input`.
+ */
+export function applyFileArguments(input, upload) {
+  const { properties } = input.inputSchema;
+
+  if (upload.mode === 'binary') {
+    const argument = input.body.argument;
+    properties[argument] = fileReferenceSchema(upload.fields[0], properties[argument]?.description);
+    return input;
+  }
+
+  for (const field of upload.fields) {
+    if (input.body.mode === 'inline') {
+      const argument = input.body.fields.find(f => f.name === field.name)?.argument;
+      if (argument) {
+        properties[argument] = fileReferenceSchema(field, properties[argument].description);
+      }
+    } else if (input.body.mode === 'nested') {
+      const body = properties[input.body.argument];
+      if (body.properties?.[field.name]) {
+        body.properties = {
+          ...body.properties,
+          [field.name]: fileReferenceSchema(field, body.properties[field.name].description)
+        };
+      }
+    }
+  }
+  return input;
+}
+
+/**
+ * Encode the request body of an upload. `body` is the split request body
+ * (see splitToolArguments), with file references in place of files, and
+ * `roots` a `FileRoots`. Returns `{ body, contentType, contentLength,
+ * files }`: a stream to send, its headers, and `{ field, filename,
+ * contentType, size }` per file. Throws when a file is outside the roots or
+ * breaks the constraints of its field.
+ */
+export function encodeUpload(upload, body, roots) {
+  if (upload.mode === 'binary') {
+    const file = openFile(body, upload.fields[0], roots, 'body');
+    const stream = file.base64 ? base64Stream(file) : file.stream();
+    return {
+      body: Readable.from(stream),
+      contentType: upload.contentType.includes('*') ? file.contentType : upload.contentType,
+      contentLength: file.length,
+      files: [describe('body', file)]
+    };
+  }
+
+  if (!body || typeof body !== 'object') {
+    throw new Error('The request body must be an object of form fields');
+  }
+
+  const boundary = `----openapi-mcp-${randomBytes(12).toString('hex')}`;
+  const parts = [];
+  const files = [];
+
+  for (const [name, value] of Object.entries(body)) {
+    if (value === undefined || value === null) continue;
+
+    const field = upload.fields.find(f => f.name === name);
+    if (field) {
+      const references = field.multiple ? [].concat(value) : [value];
+      for (const reference of references) {
+        const file = openFile(reference, field, roots, name);
+        files.push(describe(name, file));
+        parts.push({
+          header: partHeader(boundary, name, file.contentType, file.filename),
+          length: file.length,
+          stream: () => (file.base64 ? base64Stream(file) : file.stream())
+        });
+      }
+    } else if (Array.isArray(value) && value.every(item => item === null || typeof item !== 'object')) {
+      value.forEach(item => parts.push(textPart(boundary, name, String(item), 'text/plain')));
+    } else if (typeof value === 'object') {
+      parts.push(textPart(boundary, name, JSON.stringify(value), 'application/json'));
+    } else {
+      parts.push(textPart(boundary, name, String(value), 'text/plain'));
+    }
+  }
+
+  const closing = Buffer.from(`--${boundary}--\r\n`);
+  return {
+    body: Readable.from(multipartStream(parts, closing)),
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength: parts.reduce((sum, part) => sum + part.header.length + part.length + 2, closing.length),
+    files
+  };
+}
+
+/**
+ * Directories and files uploads may read from: roots declared when the
+ * server starts plus the `file://` roots of the client
+ */
+export class FileRoots {
+  constructor(declared = []) {
+    this.declared = declared.map(rootPath).filter(Boolean);
+    this.client = [];
+  }
+
+  /**
+   * Replace the client's roots (`{ uri, name? }`); roots other than
+   * `file://` ones are ignored
+   */
+  setClientRoots(roots = []) {
+    this.client = roots.map(root => rootPath(root.uri)).filter(Boolean);
+  }
+
+  list() {
+    return [...new Set([...this.declared, ...this.client])];
+  }
+
+  /**
+   * Real path of a file under one of the roots. Relative paths are taken
+   * from each root in turn. Throws for paths outside the roots, symlinks
+   * leading out of them, and anything that is not a file.
+   */
+  resolve(path) {
+    const roots = this.list();
+    if (roots.length === 0) {
+      throw new Error('No file roots are available to read from; pass the file as base64 "data" instead');
+    }
+
+    const requested = String(path).startsWith('file://') ? fileURLToPath(path) : String(path);
+    const candidates = isAbsolute(requested) ? [requested] : roots.map(root => resolve(root, requested));
+    const found = candidates.map(realPath).find(Boolean);
+    if (!found) {
+      throw new Error(`File not found: ${path}`);
+    }
+
+    const inside = roots.some(root => {
+      const real = realPath(root);
+      const rel = real && relative(real, found);
+      return real !== undefined && (rel === '' || (!rel.startsWith('..') && !isAbsolute(rel)));
+    });
+    if (!inside) {
+      throw new Error(`${path} is outside the allowed roots (${roots.map(root => pathToFileURL(root).href).join(', ')})`);
+    }
+    if (!statSync(found).isFile()) {
+      throw new Error(`${path} is not a file`);
+    }
+    return found;
+  }
+}
+
+/**
+ * Media type of a file name, by extension
+ */
+export function mediaTypeOf(filename) {
+  return MEDIA_TYPES[extname(String(filename || '')).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * True when a media type matches one of `accepted` (`image/*` and `*\/*`
+ * wildcards allowed); an empty list accepts anything
+ */
+export function acceptsMediaType(accepted, mediaType) {
+  if (!accepted || accepted.length === 0) {
+    return true;
+  }
+  const [type, subtype] = String(mediaType).split(';')[0].trim().toLowerCase().split('/');
+  return accepted.some(pattern => {
+    const [acceptedType, acceptedSubtype] = pattern.split(';')[0].trim().toLowerCase().split('/');
+    return (acceptedType === '*' || acceptedType === type) &&
+           (acceptedSubtype === '*' || acceptedSubtype === subtype);
+  });
+}
+
+function fileField(name, property, encoding) {
+  const multiple = property?.type === 'array' && isBinarySchema(property.items);
+  const schema = multiple ? property.items : property;
+  if (!multiple && !isBinarySchema(schema)) {
+    return undefined;
+  }
+
+  const declared = encoding?.contentType || schema.contentMediaType;
+  return {
+    name,
+    multiple,
+    contentTypes: declared
+      ? declared.split(',').map(type => type.trim()).filter(type => type && type !== 'application/octet-stream')
+      : [],
+    ...sizeLimits(schema),
+    base64: isBase64(schema)
+  };
+}
+
+function isBinarySchema(schema) {
+  return Boolean(schema) && (
+    (schema.type === 'string' && BINARY_FORMATS.includes(schema.format)) ||
+    schema.contentMediaType !== undefined ||
+    schema.contentEncoding !== undefined
+  );
+}
+
+function isBinaryMediaType(mediaType, schema) {
+  if (STRUCTURED_TYPES.test(mediaType)) {
+    return false;
+  }
+  return !schema || Object.keys(schema).length === 0 || schema.type === 'string' || isBinarySchema(schema);
+}
+
+function isBase64(schema) {
+  return schema?.format === 'byte' || schema?.format === 'base64' ||
+         String(schema?.contentEncoding || '').toLowerCase() === 'base64';
+}
+
+function sizeLimits(schema) {
+  return {
+    ...(schema?.minLength !== undefined && { minLength: schema.minLength }),
+    ...(schema?.maxLength !== undefined && { maxLength: schema.maxLength })
+  };
+}
+
+/**
+ * Smallest and largest file a field takes, in bytes. The limits of base64
+ * fields are on the encoded length, 4 characters per 3 bytes started.
+ */
+export function fileSizeLimits(field) {
+  if (!field.base64) {
+    return { minBytes: field.minLength, maxBytes: field.maxLength };
+  }
+  return {
+    minBytes: field.minLength === undefined ? undefined : Math.max(0, Math.ceil(field.minLength / 4) * 3 - 2),
+    maxBytes: field.maxLength === undefined ? undefined : Math.floor(field.maxLength / 4) * 3
+  };
+}
+
+// A file reference resolved and checked against its field
+function openFile(reference, field, roots, name) {
+  if (!reference || typeof reference !== 'object' || (reference.path === undefined) === (reference.data === undefined)) {
+    throw new Error(`"${name}" must be a file reference with either "path" or "data"`);
+  }
+
+  let file;
+  if (reference.path !== undefined) {
+    const path = roots.resolve(reference.path);
+    file = {
+      filename: reference.filename || basename(path),
+      size: statSync(path).size,
+      stream: () => createReadStream(path)
+    };
+  } else {
+    const data = Buffer.from(String(reference.data), 'base64');
+    file = {
+      filename: reference.filename || name,
+      size: data.length,
+      stream: () => Readable.from([data])
+    };
+  }
+
+  const guessed = reference.contentType || mediaTypeOf(file.filename);
+  const concrete = field.contentTypes.filter(type => !type.includes('*'));
+  // A file of unknown type is sent as the one type the field takes
+  file.contentType = !reference.contentType && guessed === 'application/octet-stream' && concrete.length === 1
+    ? concrete[0]
+    : guessed;
+
+  if (!acceptsMediaType(field.contentTypes, file.contentType)) {
+    throw new Error(`"${name}" takes ${field.contentTypes.join(', ')}, not ${file.contentType}`);
+  }
+  // Base64 fields limit the length of the encoded string
+  file.base64 = field.base64;
+  file.length = field.base64 ? Math.ceil(file.size / 3) * 4 : file.size;
+  const { minBytes, maxBytes } = fileSizeLimits(field);
+  if (maxBytes !== undefined && file.size > maxBytes) {
+    throw new Error(`"${name}" is ${file.size} bytes; at most ${maxBytes} are allowed` +
+                    (field.base64 ? ` (${field.maxLength} base64 characters)` : ''));
+  }
+  if (minBytes !== undefined && file.size < minBytes) {
+    throw new Error(`"${name}" is ${file.size} bytes; at least ${minBytes} are required` +
+                    (field.base64 ? ` (${field.minLength} base64 characters)` : ''));
+  }
+  return file;
+}
+
+function describe(field, file) {
+  return { field, filename: file.filename, contentType: file.contentType, size: file.size };
+}
+
+// Fields declared as base64 strings are sent encoded, three bytes at a time
+async function* base64Stream(file) {
+  let rest = Buffer.alloc(0);
+  for await (const chunk of file.stream()) {
+    const bytes = Buffer.concat([rest, chunk]);
+    const whole = bytes.length - (bytes.length % 3);
+    rest = bytes.subarray(whole);
+    if (whole > 0) {
+      yield Buffer.from(bytes.subarray(0, whole).toString('base64'));
+    }
+  }
+  if (rest.length > 0) {
+    yield Buffer.from(rest.toString('base64'));
+  }
+}
+
+async function* multipartStream(parts, closing) {
+  for (const part of parts) {
+    yield part.header;
+    yield* part.stream();
+    yield Buffer.from('\r\n');
+  }
+  yield closing;
+}
+
+function textPart(boundary, name, text, contentType) {
+  const data = Buffer.from(text);
+  return {
+    header: partHeader(boundary, name, contentType),
+    length: data.length,
+    stream: () => [data]
+  };
+}
+
+function partHeader(boundary, name, contentType, filename) {
+  const disposition = `form-data; name="${quote(name)}"${filename !== undefined ? `; filename="${quote(filename)}"` : ''}`;
+  return Buffer.from(
+    `--${boundary}\r\nContent-Disposition: ${disposition}\r\nContent-Type: ${contentType}\r\n\r\n`
+  );
+}
+
+// Quoted header parameters escape quotes and line breaks as the HTML form
+// encoding does
+function quote(value) {
+  return String(value).replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function rootPath(uri) {
+  if (!uri) return undefined;
+  if (/^file:\/\//i.test(uri)) return fileURLToPath(uri);
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(uri) ? undefined : resolve(uri);
+}
+
+function realPath(path) {
+  try {
+    return realpathSync(path);
+  } catch {
+    return undefined;
+  }
+}
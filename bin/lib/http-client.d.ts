@@ -0,0 +1,63 @@
+/**
+ * Type declarations for http-client.js
+ */
+
+import { SplitArguments } from './input-schema.js';
+import { ResponseOutput } from './output-schema.js';
+
+export interface OperationEntry {
+  path: string;
+  method: string;
+  operation: any;
+  pathItem?: any;
+}
+
+export interface HttpClientOptions {
+  // Overrides the spec's servers
+  baseUrl?: string;
+  // Where the spec was loaded from, for relative server URLs
+  specUrl?: string;
+  contentType?: string;
+  // Length of a stream body
+  contentLength?: number;
+  timeout?: number;
+}
+
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  timeout: number;
+  data?: any;
+}
+
+export interface HttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, any>;
+  body: any;
+}
+
+export function serverUrlFor(spec: any, operation?: any, pathItem?: any, options?: HttpClientOptions): string;
+export function buildHttpRequest(
+  spec: any,
+  entry: OperationEntry,
+  parts: SplitArguments,
+  options?: HttpClientOptions
+): HttpRequest;
+export function sendHttpRequest(request: HttpRequest): Promise<HttpResponse>;
+export function followUpRequest(
+  request: Pick<HttpRequest, 'url' | 'headers' | 'timeout'>,
+  url: string,
+  apiUrl?: string
+): HttpRequest;
+export function toToolResult(
+  response: HttpResponse,
+  extra?: Record<string, any>,
+  options?: { output?: ResponseOutput; onWarning?: (warnings: string[]) => void }
+): {
+  isError: boolean;
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, any>;
+  _meta?: { headers: Record<string, any> };
+};
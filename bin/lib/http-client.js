@@ -0,0 +1,302 @@
+/**
+ * HTTP execution of OpenAPI operations
+ *
+ * Turns the request parts of a tool call (see input-schema.js) into an HTTP
+ * request: server URL selection, path templating, query/header/cookie
+ * serialization following each parameter's `style`/`explode`, and body
+ * encoding by content type. Responses are returned whatever their status,
+ * so callers decide what counts as an error.
+ */
+
+import axios from 'axios';
+import { structuredOutput } from './output-schema.js';
+
+const DEFAULT_TIMEOUT = 30000;
+
+// Headers kept in compact results
+const KEPT_HEADERS = /^(location|retry-after|link|(x-)?ratelimit-.+)$/i;
+
+/**
+ * Base URL of an operation: the first of the operation's, path item's or
+ * spec's servers, with variables set to their defaults. Relative server
+ * URLs are resolved against the URL the spec was loaded from.
+ * `options.baseUrl` overrides everything.
+ */
+export function serverUrlFor(spec, operation = {}, pathItem = {}, options = {}) {
+  if (options.baseUrl) {
+    return options.baseUrl.replace(/\/+$/, '');
+  }
+
+  const server = [operation.servers, pathItem.servers, spec.servers]
+    .find(servers => Array.isArray(servers) && servers.length > 0)?.[0];
+  if (!server?.url) {
+    throw new Error('The spec declares no servers. Set a base URL for the API.');
+  }
+
+  const url = server.url.replace(/\{([^}]+)\}/g, (match, name) =>
+    server.variables?.[name]?.default ?? match
+  );
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+    return url.replace(/\/+$/, '');
+  }
+  if (options.specUrl && /^https?:\/\//i.test(options.specUrl)) {
+    return new URL(url, options.specUrl).href.replace(/\/+$/, '');
+  }
+
+  throw new Error(`Server URL "${url}" is relative. Set a base URL for the API.`);
+}
+
+/**
+ * Build the axios request config for an operation call.
+ *
+ * `entry` is `{ path, method, operation, pathItem }`, `parts` the split tool
+ * arguments `{ path, query, header, cookie, body }`, and `contentType` the
+ * request body media type. A body that is already a Buffer or stream is
+ * sent unchanged, with `contentLength` as its length when given.
+ */
+export function buildHttpRequest(spec, entry, parts, options = {}) {
+  const declared = declaredParameters(entry);
+  const styleOf = (location, name) => declared.get(`${location}:${name}`) || {};
+
+  const path = entry.path.replace(/\{([^}]+)\}/g, (match, name) => {
+    if (parts.path[name] === undefined) {
+      throw new Error(`Missing path parameter "${name}"`);
+    }
+    return serializePathValue(parts.path[name], styleOf('path', name));
+  });
+
+  const query = serializeQuery(parts.query, name => styleOf('query', name));
+  const url = `${serverUrlFor(spec, entry.operation, entry.pathItem, options)}${path}${query ? `?${query}` : ''}`;
+
+  const headers = {};
+  for (const [name, value] of Object.entries(parts.header)) {
+    headers[name] = serializeSimple(value, styleOf('header', name).explode);
+  }
+
+  const cookies = Object.entries(parts.cookie)
+    .map(([name, value]) => `${name}=${encodeURIComponent(serializeSimple(value, false))}`);
+  if (cookies.length > 0) {
+    headers.Cookie = cookies.join('; ');
+  }
+
+  const request = {
+    method: entry.method.toUpperCase(),
+    url,
+    headers,
+    timeout: options.timeout ?? DEFAULT_TIMEOUT
+  };
+
+  if (parts.body !== undefined) {
+    const contentType = options.contentType || 'application/json';
+    headers['Content-Type'] = contentType;
+    request.data = encodeBody(parts.body, contentType);
+    if (options.contentLength !== undefined) {
+      headers['Content-Length'] = String(options.contentLength);
+    }
+  }
+
+  return request;
+}
+
+/**
+ * Send a request built by `buildHttpRequest`. Any status resolves; only
+ * network failures and timeouts reject.
+ */
+export async function sendHttpRequest(request) {
+  const response = await axios.request({
+    ...request,
+    responseType: 'text',
+    transformResponse: [data => data],
+    validateStatus: () => true
+  });
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: { ...response.headers },
+    body: decodeBody(response.data, response.headers['content-type'])
+  };
+}
+
+/**
+ * GET request for a URL a response pointed to (a job status or result, a
+ * next page), resolved against `request.url`. The request's headers carry
+ * the caller's parameters and credentials, so they are only sent along
+ * when the URL has the same origin as `apiUrl`, the URL of the API call.
+ */
+export function followUpRequest(request, url, apiUrl = request.url) {
+  const target = new URL(url, request.url);
+  return {
+    method: 'GET',
+    url: target.href,
+    headers: target.origin === new URL(apiUrl).origin ? { ...request.headers } : {},
+    timeout: request.timeout
+  };
+}
+
+/**
+ * MCP tool result for an HTTP response. Non-2xx responses are errors.
+ * `extra` fields (e.g. the calls the response links to) are added to the
+ * payload.
+ *
+ * With `options.output` (see output-schema.js), the success response's body
+ * is also returned as `structuredContent`, and the text shrinks to compact
+ * JSON of the status, the headers a caller acts on (`Location`,
+ * `Retry-After`, `Link`, rate limits), the `pagination` summary of fetched
+ * pages (see pagination.js), extras and body; those headers are also in
+ * the result's `_meta`. Where the body breaks the schema,
+ * `warnings` says how, and `options.onWarning` is told.
+ */
+export function toToolResult(response, extra = {}, options = {}) {
+  const isError = response.status < 200 || response.status >= 300;
+  const structured = !isError && options.output ? structuredOutput(response, options.output) : undefined;
+
+  if (!structured) {
+    return {
+      isError,
+      content: [{
+        type: 'text',
+        text: JSON.stringify({ ...response, ...extra }, null, 2)
+      }]
+    };
+  }
+
+  const { content, warnings } = structured;
+  if (warnings.length > 0) {
+    options.onWarning?.(warnings);
+  }
+  const headers = keptHeaders(response.headers);
+  return {
+    isError,
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        status: response.status,
+        ...(headers && { headers }),
+        ...(response.pagination && { pagination: response.pagination }),
+        ...extra,
+        ...(warnings.length > 0 && { warnings }),
+        body: response.body
+      })
+    }],
+    ...(content && { structuredContent: content }),
+    ...(headers && { _meta: { headers } })
+  };
+}
+
+// Headers of a compact result: where to go next, and when to come back
+function keptHeaders(headers = {}) {
+  const kept = Object.entries(headers || {}).filter(([name]) => KEPT_HEADERS.test(name));
+  return kept.length > 0 ? Object.fromEntries(kept) : undefined;
+}
+
+function declaredParameters(entry) {
+  const declared = new Map();
+  for (const param of [...(entry.pathItem?.parameters || []), ...(entry.operation?.parameters || [])]) {
+    if (param?.name && param.in) {
+      declared.set(`${param.in}:${param.name}`, param);
+    }
+  }
+  return declared;
+}
+
+// Path parameters: `simple` (default), `label` and `matrix` styles
+function serializePathValue(value, param) {
+  const explode = Boolean(param.explode);
+  const name = param.name;
+
+  switch (param.style) {
+    case 'label':
+      return `.${serializeSimple(value, explode, true).split(',').join(explode ? '.' : ',')}`;
+    case 'matrix':
+      if (Array.isArray(value) && explode) {
+        return value.map(item => `;${name}=${encodeURIComponent(String(item))}`).join('');
+      }
+      return `;${name}=${serializeSimple(value, explode, true)}`;
+    default:
+      return serializeSimple(value, explode, true);
+  }
+}
+
+// `simple` style: comma-separated arrays, objects as k,v or k=v when exploded
+function serializeSimple(value, explode, encode = false) {
+  const text = item => (encode ? encodeURIComponent(String(item)) : String(item));
+
+  if (Array.isArray(value)) {
+    return value.map(text).join(',');
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, item]) => (explode ? `${text(key)}=${text(item)}` : `${text(key)},${text(item)}`))
+      .join(',');
+  }
+  return text(value);
+}
+
+// Query parameters: `form` (default, exploded), `spaceDelimited`,
+// `pipeDelimited` and `deepObject` styles
+function serializeQuery(query, paramFor) {
+  const pairs = [];
+  const add = (name, value) => pairs.push(`${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`);
+
+  for (const [name, value] of Object.entries(query)) {
+    const param = paramFor(name);
+    const style = param.style || 'form';
+    const explode = param.explode ?? style === 'form';
+
+    if (Array.isArray(value)) {
+      if (explode) {
+        value.forEach(item => add(name, item));
+      } else {
+        const separator = style === 'spaceDelimited' ? ' ' : style === 'pipeDelimited' ? '|' : ',';
+        add(name, value.join(separator));
+      }
+    } else if (value && typeof value === 'object') {
+      if (style === 'deepObject') {
+        Object.entries(value).forEach(([key, item]) => add(`${name}[${key}]`, item));
+      } else if (explode) {
+        Object.entries(value).forEach(([key, item]) => add(key, item));
+      } else {
+        add(name, Object.entries(value).flat().join(','));
+      }
+    } else {
+      add(name, value);
+    }
+  }
+
+  return pairs.join('&');
+}
+
+// Buffers and streams (file uploads) are sent as they are
+function encodeBody(body, contentType) {
+  if (Buffer.isBuffer(body) || typeof body?.pipe === 'function') {
+    return body;
+  }
+  if (/^application\/x-www-form-urlencoded\b/i.test(contentType) && body && typeof body === 'object') {
+    return new URLSearchParams(
+      Object.entries(body).map(([key, value]) => [
+        key,
+        typeof value === 'object' ? JSON.stringify(value) : String(value)
+      ])
+    ).toString();
+  }
+  if (/json/i.test(contentType) || typeof body === 'object') {
+    return JSON.stringify(body);
+  }
+  return String(body);
+}
+
+function decodeBody(data, contentType = '') {
+  if (typeof data !== 'string' || data === '') {
+    return data ?? null;
+  }
+  if (/json/i.test(contentType)) {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  return data;
+}
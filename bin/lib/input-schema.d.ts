@@ -0,0 +1,53 @@
+/**
+ * Type declarations for input-schema.js
+ */
+
+import { MCPExtensions } from './mcp-extensions.js';
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'cookie';
+
+export interface ParameterBinding {
+  argument: string;
+  name: string;
+  in: ParameterLocation;
+}
+
+export interface BodyBinding {
+  mode: 'none' | 'inline' | 'nested';
+  contentType?: string;
+  // Argument holding the whole body, for nested bodies
+  argument?: string;
+  // Argument per body field, for inlined bodies
+  fields?: Array<{ argument: string; name: string }>;
+}
+
+export interface ToolInput {
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+    $defs?: Record<string, any>;
+  };
+  parameters: ParameterBinding[];
+  body: BodyBinding;
+}
+
+export interface BuildToolInputOptions {
+  pathParameters?: any[];
+  extensions?: MCPExtensions;
+  reserved?: string[];
+  maxInlineProperties?: number;
+  // Document `$ref`s to components.schemas are looked up in
+  spec?: any;
+}
+
+export interface SplitArguments {
+  path: Record<string, any>;
+  query: Record<string, any>;
+  header: Record<string, any>;
+  cookie: Record<string, any>;
+  body?: any;
+}
+
+export function buildToolInput(operation?: any, options?: BuildToolInputOptions): ToolInput;
+export function splitToolArguments(args: Record<string, any> | undefined, toolInput: ToolInput): SplitArguments;
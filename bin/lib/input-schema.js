@@ -0,0 +1,211 @@
+/**
+ * Tool input schemas shared by the generators and the spec differ
+ *
+ * Flattens an operation into one JSON Schema object:
+ * - path, query, header and cookie parameters become named properties
+ * - small object bodies are inlined field by field, anything else is
+ *   nested under `body`
+ * - a name taken twice keeps its first owner (path, query, header, cookie,
+ *   then body); later ones are prefixed with their location, e.g.
+ *   `query_id` or `body_id`
+ * - refs to components.schemas (left in place for recursive schemas) are
+ *   copied into the schema's own `$defs`
+ *
+ * The returned bindings map arguments back to where they go in the request.
+ */
+
+import { isHiddenParam } from './mcp-extensions.js';
+import { withDefinitions } from './output-schema.js';
+
+const PARAMETER_LOCATIONS = ['path', 'query', 'header', 'cookie'];
+
+// Described by the request itself, not by parameters (OpenAPI 3.x §4.8.12.1)
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+const DEFAULT_MAX_INLINE_PROPERTIES = 12;
+
+/**
+ * Build the input schema and argument bindings of an operation.
+ *
+ * Options:
+ * - `pathParameters`: parameters declared on the path item
+ * - `extensions`: x-mcp-* extensions; hidden parameters are left out
+ * - `reserved`: argument names taken by the caller (e.g. `confirm`)
+ * - `maxInlineProperties`: largest body inlined field by field
+ * - `spec`: the document `$ref`s to components.schemas are looked up in
+ */
+export function buildToolInput(operation = {}, options = {}) {
+  const taken = new Set(options.reserved || []);
+  const properties = {};
+  const required = [];
+  const parameters = [];
+
+  const claim = (name, prefix) => {
+    let argument = taken.has(name) ? `${prefix}_${name}` : name;
+    for (let i = 2; taken.has(argument); i++) {
+      argument = `${prefix}_${name}_${i}`;
+    }
+    taken.add(argument);
+    return argument;
+  };
+
+  const declared = mergeParameters(options.pathParameters, operation.parameters)
+    .filter(param => !isHiddenParam(options.extensions, param.name))
+    .filter(param => !(param.in === 'header' && IGNORED_HEADERS.includes(param.name.toLowerCase())));
+
+  for (const location of PARAMETER_LOCATIONS) {
+    for (const param of declared.filter(p => p.in === location)) {
+      const argument = claim(param.name, location);
+      const property = parameterSchema(param);
+
+      if (argument !== param.name) {
+        property.description = qualify(property.description, `${location} parameter "${param.name}"`);
+      }
+
+      properties[argument] = property;
+      if (location === 'path' || param.required) {
+        required.push(argument);
+      }
+      parameters.push({ argument, name: param.name, in: location });
+    }
+  }
+
+  const body = { mode: 'none' };
+  const media = requestMedia(operation.requestBody?.content);
+  const bodyRequired = Boolean(operation.requestBody?.required);
+
+  if (media) {
+    body.contentType = media.contentType;
+    const schema = media.schema || {};
+    const fields = inlineFields(schema, options.maxInlineProperties ?? DEFAULT_MAX_INLINE_PROPERTIES);
+
+    if (fields) {
+      body.mode = 'inline';
+      body.fields = [];
+      const requiredFields = new Set(schema.required || []);
+
+      for (const [name, fieldSchema] of fields) {
+        const argument = claim(name, 'body');
+        const property = { ...fieldSchema };
+
+        if (argument !== name) {
+          property.description = qualify(property.description, `body field "${name}"`);
+        }
+
+        properties[argument] = property;
+        if (bodyRequired && requiredFields.has(name)) {
+          required.push(argument);
+        }
+        body.fields.push({ argument, name });
+      }
+    } else {
+      body.mode = 'nested';
+      body.argument = claim('body', 'request');
+      properties[body.argument] = {
+        ...schema,
+        description: operation.requestBody.description || schema.description || `Request body (${media.contentType})`
+      };
+      if (bodyRequired) {
+        required.push(body.argument);
+      }
+    }
+  }
+
+  let inputSchema = { type: 'object', properties };
+  if (required.length > 0) {
+    inputSchema.required = required;
+  }
+  if (options.spec) {
+    inputSchema = withDefinitions(inputSchema, options.spec);
+  }
+
+  return { inputSchema, parameters, body };
+}
+
+/**
+ * Split tool arguments back into request parts using the bindings of
+ * `buildToolInput`. Arguments the bindings don't know are ignored.
+ */
+export function splitToolArguments(args = {}, toolInput) {
+  const request = { path: {}, query: {}, header: {}, cookie: {}, body: undefined };
+
+  for (const { argument, name, in: location } of toolInput.parameters) {
+    if (args[argument] !== undefined) {
+      request[location][name] = args[argument];
+    }
+  }
+
+  if (toolInput.body.mode === 'nested') {
+    request.body = args[toolInput.body.argument];
+  } else if (toolInput.body.mode === 'inline') {
+    const present = toolInput.body.fields.filter(({ argument }) => args[argument] !== undefined);
+    if (present.length > 0) {
+      request.body = Object.fromEntries(present.map(({ argument, name }) => [name, args[argument]]));
+    }
+  }
+
+  return request;
+}
+
+// Operation-level parameters override path-level ones with the same name and location
+function mergeParameters(pathParameters, operationParameters) {
+  const merged = new Map();
+
+  for (const param of [...(pathParameters || []), ...(operationParameters || [])]) {
+    if (param && typeof param === 'object' && param.name && param.in) {
+      merged.set(`${param.in}:${param.name}`, param);
+    }
+  }
+
+  return [...merged.values()];
+}
+
+function parameterSchema(param) {
+  const schema = param.schema || Object.values(param.content || {})[0]?.schema || { type: 'string' };
+  const property = { ...schema };
+
+  const description = param.description || schema.description;
+  if (description) {
+    property.description = description;
+  }
+  if (param.deprecated) {
+    property.deprecated = true;
+  }
+  if (param.example !== undefined && property.example === undefined && property.examples === undefined) {
+    property.examples = [param.example];
+  }
+
+  return property;
+}
+
+// Prefer JSON, then form encodings, then whatever is declared first
+function requestMedia(content) {
+  const types = Object.keys(content || {});
+  const contentType =
+    types.find(type => /^application\/json\b/i.test(type)) ||
+    types.find(type => /\+json\b/i.test(type)) ||
+    types.find(type => /^(application\/x-www-form-urlencoded|multipart\/form-data)\b/i.test(type)) ||
+    types[0];
+
+  return contentType ? { contentType, schema: content[contentType]?.schema } : undefined;
+}
+
+// Fields of a plain object body small enough to inline, or undefined.
+// Read-only fields are never sent, so they are left out.
+function inlineFields(schema, maxInlineProperties) {
+  const type = schema.type;
+  const isObject = type === 'object' || (Array.isArray(type) && type.length === 1 && type[0] === 'object');
+  const composed = schema.oneOf || schema.anyOf || schema.allOf || schema.not;
+  const openEnded = schema.additionalProperties && schema.additionalProperties !== false;
+
+  if (!isObject || composed || openEnded || !schema.properties) {
+    return undefined;
+  }
+
+  const fields = Object.entries(schema.properties).filter(([, field]) => !field?.readOnly);
+  return fields.length > 0 && fields.length <= maxInlineProperties ? fields : undefined;
+}
+
+function qualify(description, origin) {
+  return description ? `${description} (${origin})` : `The ${origin}`;
+}
@@ -0,0 +1,16 @@
+/**
+ * Type declarations for jsonpath.js
+ */
+
+export interface JsonPathSegment {
+  descendant: boolean;
+  selectors: any[];
+}
+
+export interface JsonPathNode {
+  value: any;
+  path: Array<string | number>;
+}
+
+export function parseJsonPath(expression: string): JsonPathSegment[];
+export function queryJsonPath(document: any, expression: string | JsonPathSegment[]): JsonPathNode[];
@@ -0,0 +1,468 @@
+/**
+ * JSONPath queries (RFC 9535)
+ *
+ * Implements the part of the standard that spec patching and response
+ * selection need:
+ * - child and descendant segments: `$.paths`, `$..description`, `$['/pets/{id}']`
+ * - wildcard, index, slice and union selectors: `[*]`, `[0]`, `[-1]`, `[0:2]`, `['get','post']`
+ * - filters with comparisons, existence tests and logic:
+ *   `[?@.deprecated == true]`, `[?(@.tags && !@.summary)]`
+ *
+ * Function extensions (`length()`, `match()`, ...) are not supported.
+ */
+
+const NAME_START = /[A-Za-z_\u0080-\uFFFF]/;
+const NAME_CHAR = /[\w\u0080-\uFFFF-]/;
+const COMPARISON_OPERATORS = ['==', '!=', '<=', '>=', '<', '>'];
+
+/**
+ * Parse a JSONPath expression into a list of segments
+ */
+export function parseJsonPath(expression) {
+  const parser = new Parser(String(expression));
+  parser.skipWhitespace();
+  parser.expect('$');
+  const segments = parser.parseSegments(true);
+  parser.skipWhitespace();
+
+  if (!parser.done()) {
+    throw parser.error('Unexpected character');
+  }
+
+  return segments;
+}
+
+/**
+ * Select nodes from a document. Each node carries its value and its
+ * location as a list of object keys and array indices.
+ */
+export function queryJsonPath(document, expression) {
+  const segments = typeof expression === 'string' ? parseJsonPath(expression) : expression;
+  return evaluateSegments(segments, [{ value: document, path: [] }], document);
+}
+
+class Parser {
+  constructor(text) {
+    this.text = text;
+    this.pos = 0;
+  }
+
+  done() {
+    return this.pos >= this.text.length;
+  }
+
+  peek(length = 1) {
+    return this.text.slice(this.pos, this.pos + length);
+  }
+
+  expect(token) {
+    if (this.peek(token.length) !== token) {
+      throw this.error(`Expected '${token}'`);
+    }
+    this.pos += token.length;
+  }
+
+  skipWhitespace() {
+    while (!this.done() && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  error(message) {
+    return new Error(`Invalid JSONPath "${this.text}": ${message} at position ${this.pos}`);
+  }
+
+  parseSegments(allowWhitespace) {
+    const segments = [];
+
+    for (;;) {
+      const start = this.pos;
+      if (allowWhitespace) this.skipWhitespace();
+
+      if (this.peek(2) === '..') {
+        this.pos += 2;
+        const selectors = this.peek() === '[' ? this.parseBracket() : [this.parseDotSelector()];
+        segments.push({ descendant: true, selectors });
+      } else if (this.peek() === '.') {
+        this.pos++;
+        segments.push({ descendant: false, selectors: [this.parseDotSelector()] });
+      } else if (this.peek() === '[') {
+        segments.push({ descendant: false, selectors: this.parseBracket() });
+      } else {
+        this.pos = start;
+        return segments;
+      }
+    }
+  }
+
+  parseDotSelector() {
+    if (this.peek() === '*') {
+      this.pos++;
+      return { type: 'wildcard' };
+    }
+
+    if (!NAME_START.test(this.peek())) {
+      throw this.error('Expected a member name');
+    }
+
+    const start = this.pos;
+    while (!this.done() && NAME_CHAR.test(this.text[this.pos])) {
+      this.pos++;
+    }
+    return { type: 'name', name: this.text.slice(start, this.pos) };
+  }
+
+  parseBracket() {
+    this.expect('[');
+    const selectors = [];
+
+    for (;;) {
+      this.skipWhitespace();
+      selectors.push(this.parseBracketSelector());
+      this.skipWhitespace();
+
+      if (this.peek() === ',') {
+        this.pos++;
+      } else {
+        this.expect(']');
+        return selectors;
+      }
+    }
+  }
+
+  parseBracketSelector() {
+    const char = this.peek();
+
+    if (char === '\'' || char === '"') {
+      return { type: 'name', name: this.parseString() };
+    }
+
+    if (char === '*') {
+      this.pos++;
+      return { type: 'wildcard' };
+    }
+
+    if (char === '?') {
+      this.pos++;
+      this.skipWhitespace();
+      return { type: 'filter', expression: this.parseOr() };
+    }
+
+    const start = this.parseOptionalInteger();
+    this.skipWhitespace();
+
+    if (this.peek() !== ':') {
+      if (start === undefined) {
+        throw this.error('Expected a selector');
+      }
+      return { type: 'index', index: start };
+    }
+
+    this.pos++;
+    this.skipWhitespace();
+    const end = this.parseOptionalInteger();
+    this.skipWhitespace();
+
+    let step;
+    if (this.peek() === ':') {
+      this.pos++;
+      this.skipWhitespace();
+      step = this.parseOptionalInteger();
+    }
+
+    return { type: 'slice', start, end, step: step ?? 1 };
+  }
+
+  parseOptionalInteger() {
+    const match = this.text.slice(this.pos).match(/^-?\d+/);
+    if (!match) return undefined;
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+
+  parseString() {
+    const quote = this.text[this.pos++];
+    let value = '';
+
+    while (!this.done() && this.text[this.pos] !== quote) {
+      const char = this.text[this.pos++];
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+
+      const escaped = this.text[this.pos++];
+      if (escaped === 'u') {
+        value += String.fromCharCode(parseInt(this.text.slice(this.pos, this.pos + 4), 16));
+        this.pos += 4;
+      } else {
+        value += { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' }[escaped] ?? escaped;
+      }
+    }
+
+    this.expect(quote);
+    return value;
+  }
+
+  parseOr() {
+    let left = this.parseAnd();
+    this.skipWhitespace();
+
+    while (this.peek(2) === '||') {
+      this.pos += 2;
+      this.skipWhitespace();
+      left = { type: 'or', left, right: this.parseAnd() };
+      this.skipWhitespace();
+    }
+
+    return left;
+  }
+
+  parseAnd() {
+    let left = this.parseUnary();
+    this.skipWhitespace();
+
+    while (this.peek(2) === '&&') {
+      this.pos += 2;
+      this.skipWhitespace();
+      left = { type: 'and', left, right: this.parseUnary() };
+      this.skipWhitespace();
+    }
+
+    return left;
+  }
+
+  parseUnary() {
+    this.skipWhitespace();
+
+    if (this.peek() === '!' && this.peek(2) !== '!=') {
+      this.pos++;
+      return { type: 'not', operand: this.parseUnary() };
+    }
+
+    if (this.peek() === '(') {
+      this.pos++;
+      const inner = this.parseOr();
+      this.skipWhitespace();
+      this.expect(')');
+      return inner;
+    }
+
+    const left = this.parseComparable();
+    this.skipWhitespace();
+
+    const operator = COMPARISON_OPERATORS.find(op => this.peek(op.length) === op);
+    if (!operator) {
+      if (left.type !== 'query') {
+        throw this.error('Expected a comparison');
+      }
+      return { type: 'exists', query: left };
+    }
+
+    this.pos += operator.length;
+    this.skipWhitespace();
+    return { type: 'compare', operator, left, right: this.parseComparable() };
+  }
+
+  parseComparable() {
+    const char = this.peek();
+
+    if (char === '@' || char === '$') {
+      this.pos++;
+      return { type: 'query', relative: char === '@', segments: this.parseSegments(false) };
+    }
+
+    if (char === '\'' || char === '"') {
+      return { type: 'literal', value: this.parseString() };
+    }
+
+    for (const [word, value] of [['true', true], ['false', false], ['null', null]]) {
+      if (this.peek(word.length) === word) {
+        this.pos += word.length;
+        return { type: 'literal', value };
+      }
+    }
+
+    const match = this.text.slice(this.pos).match(/^-?\d+(\.\d+)?([eE][-+]?\d+)?/);
+    if (match) {
+      this.pos += match[0].length;
+      return { type: 'literal', value: Number(match[0]) };
+    }
+
+    throw this.error('Expected a value or query');
+  }
+}
+
+function evaluateSegments(segments, nodes, root) {
+  for (const segment of segments) {
+    const next = [];
+
+    for (const node of nodes) {
+      const targets = segment.descendant ? descendants(node) : [node];
+      for (const target of targets) {
+        for (const selector of segment.selectors) {
+          next.push(...applySelector(selector, target, root));
+        }
+      }
+    }
+
+    nodes = next;
+  }
+
+  return nodes;
+}
+
+function applySelector(selector, node, root) {
+  const { value, path } = node;
+
+  switch (selector.type) {
+    case 'name':
+      return isObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name)
+        ? [{ value: value[selector.name], path: [...path, selector.name] }]
+        : [];
+
+    case 'wildcard':
+      return children(node);
+
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length
+        ? [{ value: value[index], path: [...path, index] }]
+        : [];
+    }
+
+    case 'slice':
+      return Array.isArray(value)
+        ? sliceIndices(value.length, selector).map(index => ({ value: value[index], path: [...path, index] }))
+        : [];
+
+    case 'filter':
+      return children(node).filter(child => isTruthy(selector.expression, child.value, root));
+
+    default:
+      return [];
+  }
+}
+
+function sliceIndices(length, { start, end, step }) {
+  if (step === 0) return [];
+
+  const normalize = (index, fallback) => {
+    if (index === undefined) return fallback;
+    return index < 0 ? length + index : index;
+  };
+
+  const indices = [];
+  if (step > 0) {
+    const from = Math.max(normalize(start, 0), 0);
+    const to = Math.min(normalize(end, length), length);
+    for (let i = from; i < to; i += step) indices.push(i);
+  } else {
+    const from = Math.min(normalize(start, length - 1), length - 1);
+    const to = Math.max(normalize(end, -length - 1), -1);
+    for (let i = from; i > to; i += step) indices.push(i);
+  }
+
+  return indices;
+}
+
+function children({ value, path }) {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => ({ value: item, path: [...path, index] }));
+  }
+  if (isObject(value)) {
+    return Object.entries(value).map(([key, item]) => ({ value: item, path: [...path, key] }));
+  }
+  return [];
+}
+
+function descendants(node) {
+  const nodes = [node];
+  for (const child of children(node)) {
+    nodes.push(...descendants(child));
+  }
+  return nodes;
+}
+
+function isTruthy(expression, current, root) {
+  switch (expression.type) {
+    case 'or':
+      return isTruthy(expression.left, current, root) || isTruthy(expression.right, current, root);
+    case 'and':
+      return isTruthy(expression.left, current, root) && isTruthy(expression.right, current, root);
+    case 'not':
+      return !isTruthy(expression.operand, current, root);
+    case 'exists':
+      return evaluateQuery(expression.query, current, root).length > 0;
+    case 'compare':
+      return compare(
+        expression.operator,
+        comparableValue(expression.left, current, root),
+        comparableValue(expression.right, current, root)
+      );
+    default:
+      return false;
+  }
+}
+
+function evaluateQuery(query, current, root) {
+  const start = query.relative ? current : root;
+  return evaluateSegments(query.segments, [{ value: start, path: [] }], root);
+}
+
+// Comparisons only see singular queries; anything else compares as "nothing"
+const NOTHING = Symbol('nothing');
+
+function comparableValue(operand, current, root) {
+  if (operand.type === 'literal') {
+    return operand.value;
+  }
+  const nodes = evaluateQuery(operand, current, root);
+  return nodes.length === 1 ? nodes[0].value : NOTHING;
+}
+
+function compare(operator, left, right) {
+  switch (operator) {
+    case '==':
+      return deepEqual(left, right);
+    case '!=':
+      return !deepEqual(left, right);
+    case '<':
+      return lessThan(left, right);
+    case '>':
+      return lessThan(right, left);
+    case '<=':
+      return lessThan(left, right) || deepEqual(left, right);
+    case '>=':
+      return lessThan(right, left) || deepEqual(left, right);
+    default:
+      return false;
+  }
+}
+
+function lessThan(left, right) {
+  return (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string')
+    ? left < right
+    : false;
+}
+
+function deepEqual(left, right) {
+  if (left === right) return true;
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return Array.isArray(left) && Array.isArray(right) &&
+      left.length === right.length &&
+      left.every((item, index) => deepEqual(item, right[index]));
+  }
+  if (isObject(left) && isObject(right)) {
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(right, key) && deepEqual(left[key], right[key]));
+  }
+  return false;
+}
+
+function isObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,63 @@
+/**
+ * Type declarations for links.js
+ */
+
+import { ToolInput, SplitArguments } from './input-schema.js';
+import { HttpRequest, HttpResponse } from './http-client.js';
+import { ToolAnnotations } from './mcp-extensions.js';
+
+export interface LinkContext {
+  url: string;
+  method: string;
+  statusCode: number;
+  request: { path?: any; query?: any; header?: any; cookie?: any; body?: any };
+  response: { header?: any; body?: any };
+}
+
+export interface LinkedOperation {
+  path: string;
+  method: string;
+  operation: any;
+  input: ToolInput;
+}
+
+export interface NextCall {
+  // Name of the link in the response
+  link: string;
+  tool: string;
+  description?: string;
+  arguments: Record<string, any>;
+}
+
+export const FOLLOW_LINK_TOOL: string;
+
+export function hasLinks(spec: any): boolean;
+export function followLinkTool(name?: string): {
+  name: string;
+  description: string;
+  inputSchema: { type: 'object'; properties: Record<string, any>; required: string[] };
+  annotations: ToolAnnotations;
+};
+export function evaluateRuntimeExpression(expression: any, context: LinkContext): any;
+export function responseLinks(operation: any, status: number | string): Record<string, any>;
+export function resolveLinkTarget<E extends { path: string; method: string; operation?: any }>(
+  link: any,
+  operations: Map<string, E>
+): [string, E] | undefined;
+export function linkArguments(link: any, context: LinkContext, input: ToolInput): Record<string, any>;
+export function nextCalls(
+  entry: { operation: any },
+  context: LinkContext,
+  operations: Map<string, LinkedOperation>
+): NextCall[];
+export function linkContext(parts: SplitArguments, request: HttpRequest, response: HttpResponse): LinkContext;
+
+export class LinkedResults {
+  constructor(options?: { maxResults?: number });
+  add(calls: NextCall[]): string;
+  follow(
+    resultId: string,
+    link: string,
+    overrides?: Record<string, any>
+  ): { toolName: string; arguments: Record<string, any> };
+}
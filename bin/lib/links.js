@@ -0,0 +1,287 @@
+/**
+ * OpenAPI Links: the calls a response leads to
+ *
+ * A response's `links` name operations (by `operationId` or a local
+ * `operationRef`) and fill their parameters and request body with runtime
+ * expressions such as `$response.body#/id` or `$request.path.petId`. After
+ * a call, each link becomes a ready-made call of the target tool. Results
+ * with links are kept under an id, so a later call can follow one of them
+ * without repeating the arguments.
+ */
+
+export const FOLLOW_LINK_TOOL = 'follow_link';
+
+const DEFAULT_MAX_RESULTS = 100;
+
+/**
+ * True when any response of the spec declares links
+ */
+export function hasLinks(spec) {
+  return Object.values(spec.paths || {}).some(pathItem =>
+    Object.values(pathItem || {}).some(operation =>
+      Object.values(operation?.responses || {}).some(response =>
+        response?.links && Object.keys(response.links).length > 0
+      )
+    )
+  );
+}
+
+/**
+ * The tool that calls a link of an earlier result
+ */
+export function followLinkTool(name = FOLLOW_LINK_TOOL) {
+  return {
+    name,
+    description: 'Make one of the "next possible calls" listed in an earlier tool result. ' +
+                 'Its arguments are prefilled from that result.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        resultId: { type: 'string', description: 'The resultId of the earlier result' },
+        link: { type: 'string', description: 'Name of the link to follow' },
+        arguments: {
+          type: 'object',
+          description: 'Arguments to add or replace (including confirm, for tools that require it)'
+        }
+      },
+      required: ['resultId', 'link']
+    },
+    // A link can lead to any operation
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  };
+}
+
+/**
+ * Evaluate a runtime expression against a call. `context` is
+ * `{ url, method, statusCode, request: { path, query, header, cookie, body },
+ * response: { header, body } }`. Strings with embedded `{$...}`
+ * expressions are interpolated; values that are not expressions are
+ * returned as they are.
+ */
+export function evaluateRuntimeExpression(expression, context) {
+  if (typeof expression !== 'string') {
+    return expression;
+  }
+  if (expression.startsWith('$')) {
+    return evaluate(expression, context);
+  }
+  if (/\{\$[^}]+\}/.test(expression)) {
+    return expression.replace(/\{(\$[^}]+)\}/g, (match, inner) => {
+      const value = evaluate(inner, context);
+      return value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+  return expression;
+}
+
+/**
+ * Links of the response an operation gave for a status: the exact code,
+ * then its range (`2XX`), then `default`
+ */
+export function responseLinks(operation, status) {
+  const responses = operation?.responses || {};
+  const response = responses[String(status)] ||
+                   responses[`${String(status)[0]}XX`] ||
+                   responses[`${String(status)[0]}xx`] ||
+                   responses.default;
+  return response?.links || {};
+}
+
+/**
+ * The operation a link points to, from `operations` (a Map of tool name
+ * to `{ path, method, operation }`). Returns `[toolName, entry]`, or
+ * undefined for unknown operations and operationRefs to other documents.
+ */
+export function resolveLinkTarget(link, operations) {
+  if (link.operationId) {
+    return [...operations].find(([, entry]) => entry.operation?.operationId === link.operationId);
+  }
+
+  const ref = link.operationRef?.match(/^#\/paths\/([^/]+)\/([a-z]+)$/i);
+  if (ref) {
+    const path = ref[1].replace(/~1/g, '/').replace(/~0/g, '~');
+    const method = ref[2].toLowerCase();
+    return [...operations].find(([, entry]) =>
+      entry.path === path && entry.method.toLowerCase() === method
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Arguments of the target tool filled in by a link. `input` is the target's
+ * tool input (see input-schema.js), used to find the argument of each
+ * parameter (`petId` or `path.petId`) and body field. Expressions that
+ * evaluate to nothing are left out.
+ */
+export function linkArguments(link, context, input) {
+  const args = {};
+
+  for (const [key, expression] of Object.entries(link.parameters || {})) {
+    const value = evaluateRuntimeExpression(expression, context);
+    if (value === undefined) continue;
+
+    const [, location, name] = key.match(/^(?:(path|query|header|cookie)\.)?(.+)$/);
+    const binding = input.parameters.find(param =>
+      param.name === name && (!location || param.in === location)
+    );
+    args[binding ? binding.argument : name] = value;
+  }
+
+  if (link.requestBody !== undefined) {
+    const body = evaluateDeep(link.requestBody, context);
+    if (input.body.mode === 'nested') {
+      args[input.body.argument] = body;
+    } else if (input.body.mode === 'inline' && body && typeof body === 'object') {
+      for (const { argument, name } of input.body.fields) {
+        if (body[name] !== undefined) {
+          args[argument] = body[name];
+        }
+      }
+    }
+  }
+
+  return args;
+}
+
+/**
+ * The calls a response leads to: `{ link, tool, description, arguments }`
+ * per link of the response whose target is one of `operations` (a Map of
+ * tool name to `{ path, method, operation, input }`)
+ */
+export function nextCalls(entry, context, operations) {
+  const calls = [];
+
+  for (const [name, link] of Object.entries(responseLinks(entry.operation, context.statusCode))) {
+    const target = link && resolveLinkTarget(link, operations);
+    if (!target) continue;
+
+    const [tool, targetEntry] = target;
+    calls.push({
+      link: name,
+      tool,
+      ...(link.description && { description: link.description }),
+      arguments: linkArguments(link, context, targetEntry.input)
+    });
+  }
+
+  return calls;
+}
+
+/**
+ * Runtime expression context of a finished call. `parts` are the request
+ * parts (see splitToolArguments), `request` the sent HTTP request and
+ * `response` the HTTP response.
+ */
+export function linkContext(parts, request, response) {
+  return {
+    url: request.url,
+    method: request.method,
+    statusCode: response.status,
+    request: { ...parts, header: { ...parts.header, ...request.headers } },
+    response: { header: response.headers, body: response.body }
+  };
+}
+
+/**
+ * Recent results with links, by id. Only the newest `maxResults` are kept.
+ */
+export class LinkedResults {
+  constructor(options = {}) {
+    this.maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    this.results = new Map();
+    this.counter = 0;
+  }
+
+  /**
+   * Keep the calls of a result and return its id
+   */
+  add(calls) {
+    const id = `r${++this.counter}`;
+    this.results.set(id, calls);
+
+    while (this.results.size > this.maxResults) {
+      this.results.delete(this.results.keys().next().value);
+    }
+    return id;
+  }
+
+  /**
+   * The call to make for a link of an earlier result: `{ toolName,
+   * arguments }`, with `overrides` replacing the prefilled arguments
+   */
+  follow(resultId, link, overrides = {}) {
+    const calls = this.results.get(resultId);
+    if (!calls) {
+      throw new Error(`Unknown or expired result "${resultId}"`);
+    }
+
+    const call = calls.find(c => c.link === link);
+    if (!call) {
+      throw new Error(`Result ${resultId} has no link "${link}" (available: ${calls.map(c => c.link).join(', ')})`);
+    }
+
+    return { toolName: call.tool, arguments: { ...call.arguments, ...overrides } };
+  }
+}
+
+function evaluate(expression, context) {
+  if (expression === '$url') return context.url;
+  if (expression === '$method') return context.method;
+  if (expression === '$statusCode') return context.statusCode;
+
+  const match = expression.match(/^\$(request|response)\.(path|query|header|cookie|body)(?:\.([^#]+)|(#.*))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, source, location, name, pointer] = match;
+  const values = context[source]?.[location];
+
+  if (location === 'body') {
+    return pointer ? readPointer(values, pointer.slice(1)) : values;
+  }
+  if (!values || name === undefined) {
+    return undefined;
+  }
+  if (location === 'header') {
+    // Header names are case-insensitive
+    const key = Object.keys(values).find(k => k.toLowerCase() === name.toLowerCase());
+    return key === undefined ? undefined : values[key];
+  }
+  return values[name];
+}
+
+// JSON Pointer (RFC 6901) into a value
+function readPointer(value, pointer) {
+  if (pointer === '') {
+    return value;
+  }
+
+  let current = value;
+  for (const token of pointer.replace(/^\//, '').split('/')) {
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (current === null || typeof current !== 'object' || !(key in current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+// Request bodies may be objects with expressions as values
+function evaluateDeep(value, context) {
+  if (Array.isArray(value)) {
+    return value.map(item => evaluateDeep(item, context));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, evaluateDeep(item, context)]));
+  }
+  return evaluateRuntimeExpression(value, context);
+}
@@ -0,0 +1,51 @@
+/**
+ * Type declarations for long-running.js
+ */
+
+import { LinkContext, LinkedOperation } from './links.js';
+import { HttpResponse } from './http-client.js';
+import { MCPExtensions, ToolAnnotations } from './mcp-extensions.js';
+
+export type JobState = 'running' | 'succeeded' | 'failed';
+
+export type StatusCheck =
+  | { toolName: string; arguments: Record<string, any> }
+  | { url: string };
+
+export interface PollOptions {
+  check: () => Promise<HttpResponse>;
+  fetch?: (url: string) => Promise<HttpResponse>;
+  // Seconds
+  timeout?: number;
+  // Milliseconds before the first poll
+  firstDelay?: number;
+  onProgress?: (update: { polls: number; state: JobState; progress?: number }) => void | Promise<void>;
+  signal?: AbortSignal;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export const WAIT_ARGUMENTS: string[];
+export const JOB_STATUS_TOOL: string;
+
+export function isLongRunning(operation: any): boolean;
+export function waitProperties(): Record<string, any>;
+export function jobStatusTool(name?: string): {
+  name: string;
+  description: string;
+  inputSchema: { type: 'object'; properties: Record<string, any>; required: string[] };
+  annotations: ToolAnnotations;
+};
+export function statusCheckFor(
+  entry: { operation: any; mcp?: MCPExtensions },
+  context: LinkContext,
+  operations: Map<string, LinkedOperation>
+): StatusCheck | undefined;
+export function jobState(response: HttpResponse): JobState;
+export function pollJob(options: PollOptions): Promise<{ state: JobState; response: HttpResponse; polls: number }>;
+export function firstPollDelay(response: HttpResponse): number;
+
+export class JobStore<J extends object = any> {
+  add(job: J): string;
+  get(id: string): J & { id: string; startedAt: string };
+  delete(id: string): void;
+}
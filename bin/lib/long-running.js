@@ -0,0 +1,274 @@
+/**
+ * Long-running operations: 202 Accepted and status polling
+ *
+ * An operation that can answer 202 starts a job. Its status is checked
+ * through, in order:
+ * 1. the operation named by `x-mcp-status-operation`
+ * 2. a link of the 202 response to a GET operation
+ * 3. the `Location` (or `Operation-Location`) header of the 202 response
+ *
+ * Polling backs off from one second up to fifteen, honoring `Retry-After`,
+ * until the job reaches a terminal state or the wait times out. A job that
+ * is still running is kept under an id, so it can be resumed later.
+ */
+
+import { resolveLinkTarget, linkArguments, responseLinks } from './links.js';
+
+export const WAIT_ARGUMENTS = ['wait', 'waitTimeout'];
+export const JOB_STATUS_TOOL = 'job_status';
+
+const DEFAULT_WAIT_TIMEOUT = 60;
+const INITIAL_DELAY = 1000;
+const MAX_DELAY = 15000;
+const BACKOFF = 1.5;
+const MAX_JOBS = 100;
+
+// Job states, compared lowercased without `_`, `-` and spaces
+const RUNNING_STATES = [
+  'pending', 'queued', 'running', 'inprogress', 'processing', 'accepted', 'started',
+  'notstarted', 'submitted', 'waiting', 'scheduled', 'creating', 'updating', 'deleting'
+];
+const FAILED_STATES = [
+  'failed', 'failure', 'error', 'errored', 'cancelled', 'canceled', 'aborted',
+  'rejected', 'timedout', 'expired'
+];
+const STATE_FIELDS = ['status', 'state', 'phase', 'provisioningState', 'jobStatus'];
+const PROGRESS_FIELDS = ['progress', 'percentComplete', 'percent_complete', 'percentage'];
+const RESULT_FIELDS = ['resourceLocation', 'resultUrl', 'result_url', 'resourceUrl', 'resource_url'];
+
+/**
+ * True when an operation can answer 202 Accepted
+ */
+export function isLongRunning(operation) {
+  return Boolean(operation?.responses?.['202']);
+}
+
+/**
+ * Input schema properties of the wait arguments
+ */
+export function waitProperties() {
+  return {
+    wait: {
+      type: 'boolean',
+      description: 'If the API accepts the request as a background job, wait for it to finish'
+    },
+    waitTimeout: {
+      type: 'integer',
+      minimum: 1,
+      description: `Seconds to wait before returning a job handle (default ${DEFAULT_WAIT_TIMEOUT})`
+    }
+  };
+}
+
+/**
+ * The tool that checks on or resumes waiting for a job
+ */
+export function jobStatusTool(name = JOB_STATUS_TOOL) {
+  return {
+    name,
+    description: 'Check on a background job started by an earlier tool call, or wait for it to finish.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobId: { type: 'string', description: 'The job id from the earlier result' },
+        ...waitProperties()
+      },
+      required: ['jobId']
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  };
+}
+
+/**
+ * How to check on the job a 202 response started: `{ toolName, arguments }`
+ * for a status operation, `{ url }` for a status URL, or undefined when the
+ * spec and response give no way. `context` is the link context of the call
+ * (see links.js) and `operations` a Map of tool name to `{ path, method,
+ * operation, input }`.
+ */
+export function statusCheckFor(entry, context, operations) {
+  const declared = entry.mcp?.statusOperation;
+  const declaredTarget = declared && resolveLinkTarget(declared, operations);
+  if (declaredTarget) {
+    const [toolName, target] = declaredTarget;
+    return {
+      toolName,
+      arguments: declared.parameters
+        ? linkArguments(declared, context, target.input)
+        : inferArguments(target, context.response.body)
+    };
+  }
+
+  for (const link of Object.values(responseLinks(entry.operation, 202))) {
+    const target = link && resolveLinkTarget(link, operations);
+    if (target && target[1].method.toLowerCase() === 'get') {
+      return { toolName: target[0], arguments: linkArguments(link, context, target[1].input) };
+    }
+  }
+
+  const location = headerValue(context.response.header, 'location') ||
+                   headerValue(context.response.header, 'operation-location');
+  return location ? { url: new URL(location, context.url).href } : undefined;
+}
+
+/**
+ * State of a job from a status response: `running`, `succeeded` or
+ * `failed`. A 202 is still running, an HTTP error has failed, and otherwise
+ * the body's `status`/`state` field decides; a body without one is taken
+ * to be the finished resource.
+ */
+export function jobState(response) {
+  if (response.status === 202) return 'running';
+  if (response.status >= 400) return 'failed';
+
+  const body = response.body;
+  const field = body && typeof body === 'object' && STATE_FIELDS.find(key => typeof body[key] === 'string');
+  if (!field) return 'succeeded';
+
+  const state = body[field].toLowerCase().replace(/[\s_-]/g, '');
+  if (RUNNING_STATES.includes(state)) return 'running';
+  if (FAILED_STATES.includes(state)) return 'failed';
+  return 'succeeded';
+}
+
+/**
+ * Poll a job until it finishes or `timeout` seconds pass. `check()` sends
+ * one status request; `fetch(url)` gets the finished resource when the
+ * status points to one (the URL comes from the API's response, so it may
+ * be on another host). `onProgress` is called after every poll with
+ * `{ polls, state, progress }` (`progress` in percent, when reported).
+ * Resolves to `{ state, response, polls }`.
+ */
+export async function pollJob({
+  check,
+  fetch,
+  timeout = DEFAULT_WAIT_TIMEOUT,
+  firstDelay = INITIAL_DELAY,
+  onProgress,
+  signal,
+  sleep = delay
+}) {
+  const deadline = Date.now() + timeout * 1000;
+  let wait = firstDelay;
+  let backoff = INITIAL_DELAY;
+
+  for (let polls = 1; ; polls++) {
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    let response = await check();
+    const state = jobState(response);
+    await onProgress?.({ polls, state, progress: progressOf(response.body) });
+
+    if (state !== 'running') {
+      const result = state === 'succeeded' && fetch && resultUrl(response);
+      if (result) {
+        response = await fetch(result);
+      }
+      return { state, response, polls };
+    }
+
+    wait = retryAfter(response) ?? backoff;
+    backoff = Math.min(backoff * BACKOFF, MAX_DELAY);
+    if (signal?.aborted || Date.now() + wait > deadline) {
+      return { state, response, polls };
+    }
+  }
+}
+
+/**
+ * Delay before the first poll: the 202 response's `Retry-After`, if any
+ */
+export function firstPollDelay(response) {
+  return retryAfter(response) ?? INITIAL_DELAY;
+}
+
+/**
+ * Jobs still running, by id. Only the newest hundred are kept.
+ */
+export class JobStore {
+  constructor() {
+    this.jobs = new Map();
+    this.counter = 0;
+  }
+
+  add(job) {
+    const id = `job-${++this.counter}`;
+    this.jobs.set(id, { ...job, id, startedAt: new Date().toISOString() });
+
+    while (this.jobs.size > MAX_JOBS) {
+      this.jobs.delete(this.jobs.keys().next().value);
+    }
+    return id;
+  }
+
+  get(id) {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Unknown or expired job "${id}"`);
+    }
+    return job;
+  }
+
+  delete(id) {
+    this.jobs.delete(id);
+  }
+}
+
+// Without declared parameters, path parameters of the status operation are
+// taken from same-named fields of the 202 body, or its `id` when there is one
+function inferArguments(target, body) {
+  const pathParams = target.input.parameters.filter(param => param.in === 'path');
+  const args = {};
+  for (const { argument, name } of pathParams) {
+    const value = body?.[name] ?? (pathParams.length === 1 ? body?.id ?? body?.jobId : undefined);
+    if (value !== undefined) {
+      args[argument] = value;
+    }
+  }
+  return args;
+}
+
+function progressOf(body) {
+  const key = body && typeof body === 'object' && PROGRESS_FIELDS.find(k => typeof body[k] === 'number');
+  if (!key) return undefined;
+  // Fractions (0-1) are scaled to percent
+  return body[key] <= 1 && !Number.isInteger(body[key]) ? body[key] * 100 : body[key];
+}
+
+function resultUrl(response) {
+  if (response.status === 201 || response.status === 303) {
+    const location = headerValue(response.headers, 'location');
+    if (location) return location;
+  }
+  const body = response.body;
+  const key = body && typeof body === 'object' && RESULT_FIELDS.find(k => typeof body[k] === 'string');
+  return key ? body[key] : undefined;
+}
+
+function retryAfter(response) {
+  const value = headerValue(response.headers, 'retry-after');
+  if (value === undefined) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.min(seconds * 1000, MAX_DELAY);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.min(Math.max(0, date - Date.now()), MAX_DELAY);
+}
+
+function headerValue(headers = {}, name) {
+  const key = Object.keys(headers || {}).find(k => k.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
+
+function delay(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,38 @@
+/**
+ * Type declarations for mcp-extensions.js
+ */
+
+export type MCPKind = 'resource' | 'tool';
+
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export interface MCPExtensions {
+  exclude?: boolean;
+  name?: string;
+  description?: string;
+  kind?: MCPKind;
+  confirm?: boolean;
+  hiddenParams?: Record<string, any>;
+  // Link object of the operation reporting the status of a 202 job
+  statusOperation?: { operationId?: string; operationRef?: string; parameters?: Record<string, any> };
+  // Tool annotations overriding the derived ones
+  annotations?: ToolAnnotations;
+}
+
+export const MCP_KINDS: MCPKind[];
+export const CONFIRM_ARGUMENT: string;
+export const ANNOTATION_HINTS: Array<Exclude<keyof ToolAnnotations, 'title'>>;
+
+export function readMCPExtensions(operation: any, pathItem?: any): MCPExtensions;
+export function isHiddenParam(extensions: MCPExtensions | undefined, name: string): boolean;
+export function applyHiddenParams(
+  parameters: Record<string, any>,
+  extensions: MCPExtensions | undefined,
+  operationParameters?: any[]
+): Record<string, any>;
@@ -0,0 +1,126 @@
+/**
+ * `x-mcp-*` spec extensions
+ *
+ * Lets API owners steer generation from the spec itself. Every extension
+ * overrides what the analyzer would otherwise guess from the HTTP method and
+ * summary keywords:
+ *
+ * - `x-mcp-exclude: true`          never expose the operation (also allowed on a path item)
+ * - `x-mcp-name: string`           tool name to use instead of the operationId
+ * - `x-mcp-description: string`    LLM-oriented description, replacing summary/description
+ * - `x-mcp-kind: resource | tool`  expose as a readable resource or as a callable tool
+ * - `x-mcp-confirm: true`          the tool needs an explicit `confirm: true` argument
+ * - `x-mcp-hidden-params`          parameters the model never sees: a list of names
+ *                                  (schema defaults are sent) or a map of name → fixed value
+ * - `x-mcp-status-operation`       for 202 Accepted operations, the operation reporting job
+ *                                  status: an operationId or a Link object
+ * - `x-mcp-annotations`            tool annotations replacing the derived ones: any of
+ *                                  `title` and the boolean hints (also allowed on a path item)
+ */
+
+export const MCP_KINDS = ['resource', 'tool'];
+
+/**
+ * Boolean hints of MCP tool annotations
+ */
+export const ANNOTATION_HINTS = ['readOnlyHint', 'destructiveHint', 'idempotentHint', 'openWorldHint'];
+
+/**
+ * Name of the argument a tool marked `x-mcp-confirm` requires
+ */
+export const CONFIRM_ARGUMENT = 'confirm';
+
+/**
+ * Read and validate the `x-mcp-*` extensions of an operation. Path item
+ * extensions apply to every operation under the path; the operation wins
+ * where both are set.
+ */
+export function readMCPExtensions(operation, pathItem = {}) {
+  const read = key => operation?.[key] !== undefined ? operation[key] : pathItem?.[key];
+  const extensions = {};
+
+  if (read('x-mcp-exclude') === true) {
+    extensions.exclude = true;
+  }
+
+  const name = operation?.['x-mcp-name'];
+  if (typeof name === 'string' && name.trim()) {
+    extensions.name = name.trim();
+  }
+
+  const description = operation?.['x-mcp-description'];
+  if (typeof description === 'string' && description.trim()) {
+    extensions.description = description.trim();
+  }
+
+  // Unknown kinds fall back to the heuristics; `validate` reports them
+  const kind = read('x-mcp-kind');
+  if (MCP_KINDS.includes(kind)) {
+    extensions.kind = kind;
+  }
+
+  if (read('x-mcp-confirm') === true) {
+    extensions.confirm = true;
+  }
+
+  const hidden = read('x-mcp-hidden-params');
+  if (Array.isArray(hidden)) {
+    extensions.hiddenParams = Object.fromEntries(hidden.map(param => [param, undefined]));
+  } else if (hidden && typeof hidden === 'object') {
+    extensions.hiddenParams = { ...hidden };
+  }
+
+  const statusOperation = operation?.['x-mcp-status-operation'];
+  if (typeof statusOperation === 'string' && statusOperation.trim()) {
+    extensions.statusOperation = { operationId: statusOperation.trim() };
+  } else if (statusOperation && typeof statusOperation === 'object' &&
+             (statusOperation.operationId || statusOperation.operationRef)) {
+    extensions.statusOperation = { ...statusOperation };
+  }
+
+  // Hints of the wrong type are dropped; `validate` reports them
+  const annotations = read('x-mcp-annotations');
+  if (annotations && typeof annotations === 'object' && !Array.isArray(annotations)) {
+    const valid = Object.entries(annotations).filter(([key, value]) =>
+      (ANNOTATION_HINTS.includes(key) && typeof value === 'boolean') ||
+      (key === 'title' && typeof value === 'string' && value.trim())
+    );
+    if (valid.length > 0) {
+      extensions.annotations = Object.fromEntries(valid);
+    }
+  }
+
+  return extensions;
+}
+
+/**
+ * Check whether a parameter is hidden from the model
+ */
+export function isHiddenParam(extensions, name) {
+  return !!extensions?.hiddenParams &&
+    Object.prototype.hasOwnProperty.call(extensions.hiddenParams, name);
+}
+
+/**
+ * Fill in hidden parameters: the fixed value from the extension, otherwise
+ * the parameter's schema default. Whatever the model sent for them is ignored.
+ */
+export function applyHiddenParams(parameters, extensions, operationParameters = []) {
+  if (!extensions?.hiddenParams) {
+    return parameters;
+  }
+
+  const applied = { ...parameters };
+  for (const [name, value] of Object.entries(extensions.hiddenParams)) {
+    const fallback = operationParameters.find(param => param?.name === name)?.schema?.default;
+    const resolved = value !== undefined ? value : fallback;
+
+    if (resolved === undefined) {
+      delete applied[name];
+    } else {
+      applied[name] = resolved;
+    }
+  }
+
+  return applied;
+}
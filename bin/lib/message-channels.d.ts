@@ -0,0 +1,65 @@
+/**
+ * Type declarations for message-channels.js
+ */
+
+import { AsyncAPIModel, ChannelOperation } from './asyncapi.js';
+
+export interface BrokerMessage {
+  payload: any;
+  headers?: Record<string, any>;
+}
+
+export interface MessageBroker {
+  publish(address: string, payload: any, meta?: { headers?: Record<string, any>; contentType?: string }): Promise<void>;
+  subscribe(address: string, handler: (message: BrokerMessage) => void): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+export class InMemoryBroker implements MessageBroker {
+  publish(address: string, payload: any, meta?: { headers?: Record<string, any> }): Promise<void>;
+  subscribe(address: string, handler: (message: BrokerMessage) => void): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+export class WebSocketBroker implements MessageBroker {
+  constructor(url: string, options?: { WebSocket?: any; reconnectDelay?: number; maxReconnectDelay?: number });
+  publish(address: string, payload: any): Promise<void>;
+  subscribe(address: string, handler: (message: BrokerMessage) => void): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+export interface CreateBrokerOptions {
+  broker?: MessageBroker;
+  server?: string;
+  WebSocket?: any;
+}
+
+export function createBroker(model: AsyncAPIModel, options?: CreateBrokerOptions): MessageBroker;
+
+export interface MessageChannelHubOptions {
+  bufferSize?: number;
+  onUpdate?: (uri: string) => void;
+  onWarning?: (message: string) => void;
+}
+
+export interface BufferedMessage {
+  receivedAt: string;
+  payload: any;
+  headers?: Record<string, any>;
+}
+
+export class MessageChannelHub {
+  constructor(model: AsyncAPIModel, broker: MessageBroker, options?: MessageChannelHubOptions);
+  start(): Promise<void>;
+  tools(): Array<{ name: string; description: string; inputSchema: any }>;
+  resources(): Array<{ uri: string; name: string; description: string; mimeType: string }>;
+  resourceTemplates(): Array<{ uriTemplate: string; name: string; description: string; mimeType: string }>;
+  hasTool(name: string): boolean;
+  hasResource(uri: string): boolean;
+  send(name: string, args?: Record<string, any>): Promise<{ content: any[]; isError?: boolean }>;
+  read(uri: string): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }>;
+  subscribe(uri: string): Promise<void>;
+  unsubscribe(uri: string): Promise<void>;
+  close(): Promise<void>;
+  findChannel(uri: string): { operation: ChannelOperation; address: string } | null;
+}
@@ -0,0 +1,495 @@
+/**
+ * Message channels for AsyncAPI documents
+ *
+ * Turns the channel operations read by asyncapi.js into MCP components:
+ * - `send` operations become tools that publish one message
+ * - `subscribe` operations become `channel://` resources (templates for
+ *   parameterized addresses) that buffer the most recent messages and
+ *   report updates to subscribed clients
+ *
+ * Messages travel through a broker: WebSocket for ws/wss servers, or an
+ * in-memory broker for local use and tests.
+ */
+
+import { EventEmitter } from 'events';
+import { channelAddress, matchChannelAddress } from './asyncapi.js';
+
+const WEBSOCKET_PROTOCOLS = ['ws', 'wss'];
+const OPEN = 1;
+const RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Broker that delivers published messages to subscribers in the same
+ * process. Stands in for a real message server in tests.
+ */
+export class InMemoryBroker {
+  constructor() {
+    this.emitter = new EventEmitter();
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(address, payload, meta = {}) {
+    this.emitter.emit(address, { payload, headers: meta.headers });
+  }
+
+  async subscribe(address, handler) {
+    this.emitter.on(address, handler);
+    return async () => {
+      this.emitter.off(address, handler);
+    };
+  }
+
+  async close() {
+    this.emitter.removeAllListeners();
+  }
+}
+
+/**
+ * Broker that opens one WebSocket per channel address below the server URL.
+ * Uses the global WebSocket (Node.js 22+) unless an implementation is
+ * passed as `options.WebSocket`, falling back to the `ws` package.
+ *
+ * A socket that closes is reopened on the next publish; sockets with
+ * subscribers are reopened right away, waiting longer after each failed
+ * attempt (up to `options.maxReconnectDelay` ms).
+ */
+export class WebSocketBroker {
+  constructor(url, options = {}) {
+    this.url = url;
+    this.WebSocket = options.WebSocket;
+    this.reconnectDelay = options.reconnectDelay ?? RECONNECT_DELAY;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? MAX_RECONNECT_DELAY;
+    this.sockets = new Map();
+    this.handlers = new Map();
+    this.reconnects = new Map();
+    this.closed = false;
+  }
+
+  async publish(address, payload) {
+    let socket = await this.connect(address);
+    if (socket.readyState !== OPEN) {
+      // Closed before its close event was handled; open a new one
+      this.sockets.delete(address);
+      socket = await this.connect(address);
+    }
+    if (socket.readyState !== OPEN) {
+      throw new Error(`WebSocket to ${joinUrl(this.url, address)} is closed`);
+    }
+    socket.send(typeof payload === 'string' ? payload : JSON.stringify(payload));
+  }
+
+  async subscribe(address, handler) {
+    await this.connect(address);
+
+    if (!this.handlers.has(address)) {
+      this.handlers.set(address, new Set());
+    }
+    this.handlers.get(address).add(handler);
+
+    return async () => {
+      this.handlers.get(address)?.delete(handler);
+    };
+  }
+
+  async close() {
+    this.closed = true;
+    for (const timer of this.reconnects.values()) {
+      clearTimeout(timer);
+    }
+    this.reconnects.clear();
+
+    const sockets = await Promise.allSettled([...this.sockets.values()]);
+    this.sockets.clear();
+    this.handlers.clear();
+
+    for (const result of sockets) {
+      if (result.status === 'fulfilled') result.value.close();
+    }
+  }
+
+  connect(address) {
+    if (this.closed) {
+      return Promise.reject(new Error('WebSocket broker is closed'));
+    }
+    if (!this.sockets.has(address)) {
+      const pending = this.open(address);
+      // A failed connection is retried on next use
+      pending.catch(() => this.sockets.delete(address));
+      this.sockets.set(address, pending);
+    }
+    return this.sockets.get(address);
+  }
+
+  async open(address) {
+    const WebSocket = this.WebSocket || await loadWebSocket();
+    const url = joinUrl(this.url, address);
+    const socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+
+    await new Promise((resolve, reject) => {
+      socket.addEventListener('open', resolve, { once: true });
+      socket.addEventListener('error', () => reject(new Error(`WebSocket connection to ${url} failed`)), { once: true });
+    });
+
+    const pending = this.sockets.get(address);
+    socket.addEventListener('message', event => {
+      const payload = decodeMessage(event.data);
+      for (const handler of this.handlers.get(address) || []) {
+        handler({ payload });
+      }
+    });
+    socket.addEventListener('close', () => {
+      if (this.sockets.get(address) === pending) {
+        this.sockets.delete(address);
+        this.resubscribe(address, this.reconnectDelay);
+      }
+    });
+
+    return socket;
+  }
+
+  // Reopen the socket of an address that still has subscribers
+  resubscribe(address, delay) {
+    if (this.closed || !this.handlers.get(address)?.size || this.reconnects.has(address)) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.reconnects.delete(address);
+      if (this.sockets.has(address)) {
+        return;
+      }
+      this.connect(address).catch(() =>
+        this.resubscribe(address, Math.min(delay * 2, this.maxReconnectDelay))
+      );
+    }, delay);
+    timer.unref?.();
+    this.reconnects.set(address, timer);
+  }
+}
+
+/**
+ * Pick a broker for an AsyncAPI model: `options.broker` when given,
+ * otherwise the named (or first) server. Documents without servers use
+ * the in-memory broker.
+ */
+export function createBroker(model, options = {}) {
+  if (options.broker) {
+    return options.broker;
+  }
+
+  if (model.servers.length === 0) {
+    return new InMemoryBroker();
+  }
+
+  const server = options.server
+    ? model.servers.find(s => s.name === options.server)
+    : model.servers.find(s => WEBSOCKET_PROTOCOLS.includes(s.protocol)) || model.servers[0];
+
+  if (!server) {
+    throw new Error(`AsyncAPI server "${options.server}" is not defined`);
+  }
+
+  if (WEBSOCKET_PROTOCOLS.includes(server.protocol)) {
+    return new WebSocketBroker(server.url, { WebSocket: options.WebSocket });
+  }
+
+  throw new Error(
+    `AsyncAPI protocol "${server.protocol}" (server "${server.name}") is not supported. ` +
+    `Use a ws/wss server or pass a broker.`
+  );
+}
+
+/**
+ * MCP tools and resources of one AsyncAPI document, backed by a broker
+ */
+export class MessageChannelHub {
+  constructor(model, broker, options = {}) {
+    this.model = model;
+    this.broker = broker;
+    this.bufferSize = options.bufferSize ?? 100;
+    this.onUpdate = options.onUpdate;
+    this.onWarning = options.onWarning || (() => {});
+
+    this.sendOperations = new Map();
+    this.channels = [];
+    this.buffers = new Map();
+    this.subscribed = new Set();
+
+    for (const operation of model.operations) {
+      if (operation.direction === 'send') {
+        this.sendOperations.set(uniqueName(this.sendOperations, sendToolName(operation)), operation);
+      } else {
+        this.channels.push({ operation, uriTemplate: channelUri(operation.address) });
+      }
+    }
+  }
+
+  /**
+   * Start buffering every channel without parameters, so recent messages
+   * are available on first read. Parameterized channels start buffering
+   * when a concrete address is first read or subscribed.
+   */
+  async start() {
+    for (const { operation, uriTemplate } of this.channels) {
+      if (isTemplate(operation.address)) continue;
+
+      try {
+        await this.ensureBuffer(uriTemplate, operation.address);
+      } catch (error) {
+        this.onWarning(`Cannot subscribe to channel ${operation.address}: ${error.message}`);
+      }
+    }
+  }
+
+  tools() {
+    return [...this.sendOperations].map(([name, operation]) => ({
+      name,
+      description: describeOperation(operation, `Send a message to ${operation.address}`),
+      inputSchema: sendInputSchema(operation)
+    }));
+  }
+
+  resources() {
+    return this.channels
+      .filter(({ operation }) => !isTemplate(operation.address))
+      .map(({ operation, uriTemplate }) => ({
+        uri: uriTemplate,
+        name: operation.id || operation.address,
+        description: describeOperation(operation, `Recent messages on ${operation.address}`),
+        mimeType: 'application/json'
+      }));
+  }
+
+  resourceTemplates() {
+    return this.channels
+      .filter(({ operation }) => isTemplate(operation.address))
+      .map(({ operation, uriTemplate }) => ({
+        uriTemplate,
+        name: operation.id || operation.address,
+        description: describeOperation(operation, `Recent messages on ${operation.address}`),
+        mimeType: 'application/json'
+      }));
+  }
+
+  hasTool(name) {
+    return this.sendOperations.has(name);
+  }
+
+  hasResource(uri) {
+    return this.findChannel(uri) !== null;
+  }
+
+  /**
+   * Publish the tool's message. Missing channel parameters and broker
+   * failures are returned as tool errors.
+   */
+  async send(name, args = {}) {
+    const operation = this.sendOperations.get(name);
+    if (!operation) {
+      throw new Error(`Tool not found: ${name}`);
+    }
+
+    const { address, missing } = channelAddress(operation.address, args);
+    if (missing.length > 0) {
+      return errorResult(`Missing channel parameters: ${missing.join(', ')}`);
+    }
+    if (args.message === undefined) {
+      return errorResult('"message" is required');
+    }
+
+    try {
+      await this.broker.publish(address, args.message, {
+        headers: args.headers,
+        contentType: operation.messages[0]?.contentType
+      });
+    } catch (error) {
+      return errorResult(`Sending to ${address} failed: ${error.message}`);
+    }
+
+    return {
+      content: [{ type: 'text', text: `Sent message to ${address}` }]
+    };
+  }
+
+  /**
+   * Buffered messages of a channel, oldest first
+   */
+  async read(uri) {
+    const found = this.findChannel(uri);
+    if (!found) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+
+    const buffer = await this.ensureBuffer(uri, found.address);
+
+    return {
+      contents: [{
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify({
+          channel: found.address,
+          bufferSize: this.bufferSize,
+          messages: buffer.messages
+        }, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Report every new message on the channel through `onUpdate`
+   */
+  async subscribe(uri) {
+    const found = this.findChannel(uri);
+    if (!found) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+
+    await this.ensureBuffer(uri, found.address);
+    this.subscribed.add(uri);
+  }
+
+  async unsubscribe(uri) {
+    this.subscribed.delete(uri);
+  }
+
+  async close() {
+    const buffers = await Promise.allSettled([...this.buffers.values()]);
+    this.buffers.clear();
+    this.subscribed.clear();
+
+    for (const result of buffers) {
+      if (result.status === 'fulfilled') await result.value.unsubscribe();
+    }
+    await this.broker.close();
+  }
+
+  findChannel(uri) {
+    for (const { operation, uriTemplate } of this.channels) {
+      if (uri === uriTemplate && !isTemplate(operation.address)) {
+        return { operation, address: operation.address };
+      }
+
+      const params = isTemplate(operation.address) ? matchChannelAddress(uriTemplate, uri) : null;
+      if (params) {
+        return { operation, address: channelAddress(operation.address, params).address };
+      }
+    }
+    return null;
+  }
+
+  ensureBuffer(uri, address) {
+    if (!this.buffers.has(uri)) {
+      const buffer = { messages: [], unsubscribe: async () => {} };
+
+      const pending = this.broker.subscribe(address, message => {
+        buffer.messages.push({
+          receivedAt: new Date().toISOString(),
+          payload: message.payload,
+          ...(message.headers ? { headers: message.headers } : {})
+        });
+        if (buffer.messages.length > this.bufferSize) {
+          buffer.messages.shift();
+        }
+
+        if (this.subscribed.has(uri)) {
+          this.onUpdate?.(uri);
+        }
+      }).then(unsubscribe => {
+        buffer.unsubscribe = unsubscribe;
+        return buffer;
+      });
+
+      // A failed subscription is retried on next use
+      pending.catch(() => this.buffers.delete(uri));
+      this.buffers.set(uri, pending);
+    }
+    return this.buffers.get(uri);
+  }
+}
+
+function sendToolName(operation) {
+  const base = operation.id || `send_${operation.address}`;
+  return base.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 64) || 'send_message';
+}
+
+function uniqueName(taken, name) {
+  let candidate = name;
+  for (let i = 2; taken.has(candidate); i++) {
+    candidate = `${name.slice(0, 60)}_${i}`;
+  }
+  return candidate;
+}
+
+function channelUri(address) {
+  return `channel://${address.replace(/^\/+/, '')}`;
+}
+
+function isTemplate(address) {
+  return /\{[^}]+\}/.test(address);
+}
+
+function describeOperation(operation, fallback) {
+  return operation.summary || operation.description || fallback;
+}
+
+function sendInputSchema(operation) {
+  const properties = {};
+  const required = [];
+
+  for (const parameter of operation.parameters) {
+    properties[parameter.name] = {
+      ...parameter.schema,
+      description: parameter.description || `Channel parameter ${parameter.name}`
+    };
+    required.push(parameter.name);
+  }
+
+  const payloads = operation.messages.map(message => message.payload);
+  properties.message = {
+    ...(payloads.length === 1 ? payloads[0] : payloads.length > 1 ? { oneOf: payloads } : {}),
+    description: operation.messages.length === 1
+      ? operation.messages[0].summary || operation.messages[0].title || 'Message payload'
+      : `Message payload, one of: ${operation.messages.map(m => m.name).join(', ')}`
+  };
+  required.push('message');
+
+  const headers = operation.messages.find(message => message.headers)?.headers;
+  if (headers) {
+    properties.headers = { ...headers, description: 'Message headers' };
+  }
+
+  return { type: 'object', properties, required };
+}
+
+function errorResult(text) {
+  return { isError: true, content: [{ type: 'text', text }] };
+}
+
+function joinUrl(base, address) {
+  const path = address.replace(/^\/+/, '');
+  return path ? `${base.replace(/\/+$/, '')}/${path}` : base;
+}
+
+function decodeMessage(data) {
+  const text = typeof data === 'string' ? data : Buffer.from(data).toString('utf8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+async function loadWebSocket() {
+  if (globalThis.WebSocket) {
+    return globalThis.WebSocket;
+  }
+
+  try {
+    const module = await import('ws');
+    return module.default || module.WebSocket;
+  } catch {
+    throw new Error('WebSocket channels need Node.js 22+ or the "ws" package');
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Type declarations for meta-tools.js
+ */
+
+import { ToolAnnotations } from './tool-annotations.js';
+
+export interface CatalogEntry {
+  // Name of the tool serving the endpoint
+  id: string;
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  inputSchema: Record<string, any>;
+  outputSchema?: Record<string, any>;
+  annotations?: ToolAnnotations;
+}
+
+export interface EndpointMatch {
+  endpoint: string;
+  method: string;
+  path: string;
+  summary?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  score: number;
+}
+
+export interface MetaTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  annotations: ToolAnnotations;
+}
+
+export const SEARCH_ENDPOINTS_TOOL: string;
+export const DESCRIBE_ENDPOINT_TOOL: string;
+export const CALL_ENDPOINT_TOOL: string;
+
+export class EndpointCatalog {
+  constructor(entries?: CatalogEntry[]);
+  entries: Map<string, CatalogEntry>;
+  readonly size: number;
+  tags(): string[];
+  search(query?: string, options?: { tag?: string; limit?: number }): { total: number; endpoints: EndpointMatch[] };
+  describe(id: string): Record<string, any>;
+  prepareCall(id: string, args?: Record<string, any>): { toolName: string; arguments: Record<string, any> };
+  get(id: string): CatalogEntry;
+}
+
+export function metaTools(
+  catalog: EndpointCatalog,
+  names?: { search?: string; describe?: string; call?: string }
+): { search: MetaTool; describe: MetaTool; call: MetaTool };
@@ -0,0 +1,327 @@
+/**
+ * Meta tools: search, describe and call endpoints
+ *
+ * Large APIs can be served as three tools instead of one per endpoint:
+ * - `search_endpoints` ranks endpoints by how well their name, summary,
+ *   tags, path, path parameters and description match a query
+ * - `describe_endpoint` gives the input (and output) schema of one
+ * - `call_endpoint` calls one by id, after checking the arguments against
+ *   its input schema
+ *
+ * Endpoint ids are the names the endpoints' tools would have, so they stay
+ * put across spec versions like tool names do.
+ */
+
+import { validateValue } from './output-schema.js';
+import { mergeAnnotations } from './tool-annotations.js';
+
+export const SEARCH_ENDPOINTS_TOOL = 'search_endpoints';
+export const DESCRIBE_ENDPOINT_TOOL = 'describe_endpoint';
+export const CALL_ENDPOINT_TOOL = 'call_endpoint';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const MAX_LISTED_TAGS = 30;
+const MAX_SUGGESTIONS = 3;
+const DEPRECATED_PENALTY = 0.8;
+// BM25 term frequency saturation: later matches of a word add less
+const SATURATION = 1.2;
+
+// How much a match in each field counts
+const FIELD_WEIGHTS = {
+  id: 3,
+  operationId: 3,
+  summary: 3,
+  tags: 2,
+  path: 2,
+  pathParameters: 2,
+  description: 1,
+  method: 1
+};
+
+/**
+ * The endpoints behind the meta tools. Each entry is `{ id, method, path,
+ * operationId?, summary?, description?, tags?, deprecated?, inputSchema,
+ * outputSchema?, annotations? }`; `id` is the name of the tool that serves
+ * the endpoint.
+ */
+export class EndpointCatalog {
+  constructor(entries = []) {
+    this.entries = new Map(entries.map(entry => [entry.id, entry]));
+    this.index = new Map();
+    this.frequency = new Map();
+
+    for (const entry of entries) {
+      const terms = indexTerms(entry);
+      this.index.set(entry.id, terms);
+      for (const term of terms.keys()) {
+        this.frequency.set(term, (this.frequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  /**
+   * Tags of the endpoints, most used first
+   */
+  tags() {
+    const counts = new Map();
+    for (const entry of this.entries.values()) {
+      for (const tag of entry.tags || []) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+    return [...counts].sort((a, b) => b[1] - a[1] || compare(a[0], b[0])).map(([tag]) => tag);
+  }
+
+  /**
+   * Endpoints matching a query, best first: `{ total, endpoints }` with
+   * `total` the number of matches and `endpoints` the first `limit` of
+   * them. Rare words count more than common ones, words found in several
+   * fields more than those found in one, endpoints matching every word
+   * rank above those matching some, and deprecated endpoints rank lower. With `tag`, only endpoints with that tag are searched; an
+   * empty query then lists them all.
+   */
+  search(query = '', { tag, limit = DEFAULT_LIMIT } = {}) {
+    const words = [...new Set(tokenize(query))];
+    const count = Math.min(Math.max(Math.trunc(limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const tagged = tag === undefined
+      ? [...this.entries.values()]
+      : [...this.entries.values()].filter(entry =>
+          (entry.tags || []).some(t => t.toLowerCase() === String(tag).toLowerCase())
+        );
+
+    const ranked = [];
+    for (const entry of tagged) {
+      const score = words.length > 0 ? this.score(entry, words) : 1;
+      if (score > 0) {
+        ranked.push({ entry, score });
+      }
+    }
+    ranked.sort((a, b) => b.score - a.score || compare(a.entry.id, b.entry.id));
+
+    return {
+      total: ranked.length,
+      endpoints: ranked.slice(0, count).map(({ entry, score }) => ({
+        endpoint: entry.id,
+        method: entry.method.toUpperCase(),
+        path: entry.path,
+        ...(entry.summary && { summary: entry.summary }),
+        ...(entry.tags?.length && { tags: entry.tags }),
+        ...(entry.deprecated && { deprecated: true }),
+        score: Math.round(score * 100) / 100
+      }))
+    };
+  }
+
+  /**
+   * Everything needed to call an endpoint: its method, path, docs and
+   * input schema, plus its output schema and annotations when it has them
+   */
+  describe(id) {
+    const entry = this.get(id);
+    return {
+      endpoint: entry.id,
+      method: entry.method.toUpperCase(),
+      path: entry.path,
+      ...(entry.summary && { summary: entry.summary }),
+      ...(entry.description && { description: entry.description }),
+      ...(entry.tags?.length && { tags: entry.tags }),
+      ...(entry.deprecated && { deprecated: true }),
+      inputSchema: entry.inputSchema,
+      ...(entry.outputSchema && { outputSchema: entry.outputSchema }),
+      ...(entry.annotations && { annotations: entry.annotations })
+    };
+  }
+
+  /**
+   * The tool call behind a `call_endpoint` call: `{ toolName, arguments }`.
+   * Throws, listing every problem, when the arguments don't fit the
+   * endpoint's input schema.
+   */
+  prepareCall(id, args = {}) {
+    const entry = this.get(id);
+    if (args === null || typeof args !== 'object' || Array.isArray(args)) {
+      throw new Error(`"arguments" must be an object with the arguments of ${entry.id}`);
+    }
+
+    const schema = entry.inputSchema || { type: 'object' };
+    const known = schema.properties || {};
+    const problems = [
+      ...Object.keys(args)
+        .filter(name => !(name in known))
+        .map(name => `arguments.${name}: not an argument of ${entry.id}`),
+      ...validateValue(args, schema, schema, 'arguments')
+    ];
+    if (problems.length > 0) {
+      throw new Error(`Invalid arguments for ${entry.id}:\n` +
+                      problems.map(problem => `- ${problem}`).join('\n') +
+                      `\nCall ${DESCRIBE_ENDPOINT_TOOL} for its input schema.`);
+    }
+
+    return { toolName: entry.id, arguments: args };
+  }
+
+  /**
+   * An endpoint by id; the error for an unknown id suggests close matches
+   */
+  get(id) {
+    const entry = this.entries.get(id);
+    if (entry) {
+      return entry;
+    }
+
+    const suggestions = this.search(String(id ?? ''), { limit: MAX_SUGGESTIONS }).endpoints.map(e => e.endpoint);
+    throw new Error(`Unknown endpoint "${id}"` +
+                    (suggestions.length > 0 ? ` (did you mean ${suggestions.join(', ')}?)` : '') +
+                    `. Use ${SEARCH_ENDPOINTS_TOOL} to find endpoints.`);
+  }
+
+  // BM25 over the query words: how rare each is times its saturated
+  // weighted count in the entry's fields (half for a prefix match), scaled
+  // by the share of the words that matched
+  score(entry, words) {
+    const terms = this.index.get(entry.id);
+    let score = 0;
+    let matched = 0;
+
+    for (const word of words) {
+      let count = terms.get(word) || 0;
+      let frequency = this.frequency.get(word) || 0;
+      if (count === 0 && word.length >= 3) {
+        for (const [term, weight] of terms) {
+          if (term.startsWith(word) && weight / 2 > count) {
+            count = weight / 2;
+            frequency = this.frequency.get(term);
+          }
+        }
+      }
+      if (count > 0) {
+        matched++;
+        const rarity = Math.log(1 + (this.size - frequency + 0.5) / (frequency + 0.5));
+        score += rarity * count * (SATURATION + 1) / (count + SATURATION);
+      }
+    }
+
+    score *= matched / words.length;
+    return entry.deprecated ? score * DEPRECATED_PENALTY : score;
+  }
+}
+
+/**
+ * The three meta tools for a catalog. `names` overrides their names
+ * (`{ search, describe, call }`), e.g. when an endpoint's tool already
+ * uses one. `call_endpoint`'s annotations combine the endpoints'.
+ */
+export function metaTools(catalog, names = {}) {
+  const search = names.search || SEARCH_ENDPOINTS_TOOL;
+  const describe = names.describe || DESCRIBE_ENDPOINT_TOOL;
+  const call = names.call || CALL_ENDPOINT_TOOL;
+
+  const tags = catalog.tags();
+  const listedTags = tags.length > 0
+    ? ` Tags: ${tags.slice(0, MAX_LISTED_TAGS).join(', ')}${tags.length > MAX_LISTED_TAGS ? ', ...' : ''}.`
+    : '';
+  const local = { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false };
+
+  return {
+    search: {
+      name: search,
+      description: `Search the ${catalog.size} endpoints of this API by what they do. ` +
+                   `Returns endpoint ids, best match first, to use with ${describe} and ${call}.${listedTags}`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Words describing the endpoint, e.g. "create order" or "user email"' },
+          tag: { type: 'string', description: 'Only search endpoints with this tag' },
+          limit: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_LIMIT,
+            description: `Most endpoints to return (default ${DEFAULT_LIMIT})`
+          }
+        },
+        required: ['query']
+      },
+      annotations: local
+    },
+    describe: {
+      name: describe,
+      description: `Get the arguments (input schema) an endpoint takes, and what it returns. ` +
+                   `Call this before ${call}.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          endpoint: { type: 'string', description: `Endpoint id from ${search}` }
+        },
+        required: ['endpoint']
+      },
+      annotations: local
+    },
+    call: {
+      name: call,
+      description: 'Call an endpoint of this API. The arguments are checked against the ' +
+                   `endpoint's input schema (see ${describe}) before the request is sent.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          endpoint: { type: 'string', description: `Endpoint id from ${search}` },
+          arguments: { type: 'object', description: 'Arguments of the endpoint, as its input schema describes' }
+        },
+        required: ['endpoint']
+      },
+      annotations: mergeAnnotations([...catalog.entries.values()].map(entry => entry.annotations)) ?? {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    }
+  };
+}
+
+// Words of a text: camelCase and snake_case split, lowercased, with
+// plural `s` dropped so `pets` finds `pet`
+function tokenize(text) {
+  return String(text)
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stem);
+}
+
+function stem(word) {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+// Weighted count of each word of an entry: the sum of the weights of the
+// fields it appears in, once per field
+function indexTerms(entry) {
+  const terms = new Map();
+  const add = (text, weight) => {
+    for (const term of new Set(tokenize(text ?? ''))) {
+      terms.set(term, (terms.get(term) || 0) + weight);
+    }
+  };
+
+  add(entry.id, FIELD_WEIGHTS.id);
+  add(entry.operationId, FIELD_WEIGHTS.operationId);
+  add(entry.summary, FIELD_WEIGHTS.summary);
+  add((entry.tags || []).join(' '), FIELD_WEIGHTS.tags);
+  add(entry.path.replace(/\{[^}]*\}/g, ' '), FIELD_WEIGHTS.path);
+  add((entry.path.match(/\{[^}]*\}/g) || []).join(' '), FIELD_WEIGHTS.pathParameters);
+  add(entry.description, FIELD_WEIGHTS.description);
+  add(entry.method, FIELD_WEIGHTS.method);
+  return terms;
+}
+
+function compare(a, b) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
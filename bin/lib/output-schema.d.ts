@@ -0,0 +1,24 @@
+/**
+ * Type declarations for output-schema.js
+ */
+
+import { HttpResponse } from './http-client.js';
+
+export interface ResponseOutput {
+  // Response code the schema is declared for (`200`, `2XX`, ...)
+  status: string;
+  // The tool's outputSchema
+  schema: Record<string, any>;
+  // Array and scalar bodies are returned as `{ result: body }`
+  wrapped: boolean;
+}
+
+export const RESULT_PROPERTY: string;
+
+export function responseOutput(operation: any, spec?: any): ResponseOutput | undefined;
+export function structuredOutput(
+  response: HttpResponse,
+  output: ResponseOutput
+): { content?: Record<string, any>; warnings: string[] } | undefined;
+export function validateValue(value: any, schema: any, root?: any, at?: string): string[];
+export function withDefinitions(schema: any, spec: any): any;
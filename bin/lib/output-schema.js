@@ -0,0 +1,280 @@
+/**
+ * Structured tool output from response schemas
+ *
+ * The JSON schema of an operation's success response (the first 2xx
+ * response with one) becomes the tool's `outputSchema`. MCP output schemas
+ * describe objects, so array and scalar bodies are wrapped as `{ result }`.
+ * Schemas that refer to themselves keep their `$ref`s, pointed at `$defs`
+ * of the output schema.
+ *
+ * Successful results carry the body as `structuredContent` next to a compact
+ * text rendering. Bodies are checked against the schema; mismatches come
+ * back as warnings, so API drift shows up instead of passing silently.
+ */
+
+export const RESULT_PROPERTY = 'result';
+
+const MAX_WARNINGS = 10;
+const COMPONENT_REF = /^#\/components\/schemas\/([^/]+)$/;
+
+/**
+ * Output of an operation's tool: `{ status, schema, wrapped }` with
+ * `status` the response code (`200`, `2XX`, ...) the schema is declared for,
+ * `schema` the tool's `outputSchema` and `wrapped` whether the body goes
+ * under `result`. Undefined when no success response declares a JSON schema.
+ */
+export function responseOutput(operation, spec = {}) {
+  const statuses = Object.keys(operation?.responses || {})
+    .filter(status => /^2(\d\d|XX)$/i.test(status))
+    .sort();
+
+  for (const status of statuses) {
+    const bodySchema = jsonSchemaOf(operation.responses[status]);
+    if (!bodySchema) continue;
+
+    const wrapped = !isObjectSchema(bodySchema);
+    const schema = withDefinitions(
+      wrapped
+        ? { type: 'object', properties: { [RESULT_PROPERTY]: bodySchema }, required: [RESULT_PROPERTY] }
+        : bodySchema,
+      spec
+    );
+    return { status, schema, wrapped };
+  }
+
+  return undefined;
+}
+
+/**
+ * Structured content of a response: `{ content, warnings }`, with
+ * `warnings` listing where the body breaks the schema. Undefined when the
+ * response is not the success response the schema is declared for, or has
+ * nothing that could fit it.
+ */
+export function structuredOutput(response, output) {
+  const status = String(response.status);
+  const matches = output.status.toUpperCase() === status ||
+                  (/XX$/i.test(output.status) && output.status[0] === status[0]);
+  if (!matches || response.body === null || response.body === undefined) {
+    return undefined;
+  }
+
+  const content = output.wrapped ? { [RESULT_PROPERTY]: response.body } : response.body;
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    return {
+      content: undefined,
+      warnings: [`Response body is ${describeType(response.body)}, but the spec declares an object`]
+    };
+  }
+
+  const bodySchema = output.wrapped ? output.schema.properties[RESULT_PROPERTY] : output.schema;
+  return { content, warnings: validateValue(response.body, bodySchema, output.schema) };
+}
+
+/**
+ * Check a value against a JSON Schema (2020-12, as normalized by
+ * schema-normalizer.js). Returns one message per problem found, each
+ * starting with the location (`body.items[2].id`, under the name given as
+ * `at`); at most ten are listed. `$ref`s are looked up in `root` (the
+ * schema itself by default).
+ */
+export function validateValue(value, schema, root = schema, at = 'body') {
+  const problems = [];
+  check(value, schema, at, root, problems);
+  if (problems.length > MAX_WARNINGS) {
+    const more = problems.length - MAX_WARNINGS;
+    return [...problems.slice(0, MAX_WARNINGS), `... and ${more} more`];
+  }
+  return problems;
+}
+
+/**
+ * A copy of a schema whose refs to components.schemas point into its own
+ * `$defs`, with the referenced schemas (and the ones they refer to) copied
+ * there, so the schema stands on its own
+ */
+export function withDefinitions(schema, spec) {
+  const defs = {};
+  const pending = [];
+
+  const copy = value => {
+    if (Array.isArray(value)) {
+      return value.map(copy);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const result = {};
+    for (const [key, child] of Object.entries(value)) {
+      const name = key === '$ref' && typeof child === 'string' ? child.match(COMPONENT_REF)?.[1] : undefined;
+      if (name) {
+        if (!(name in defs)) {
+          defs[name] = undefined;
+          pending.push(name);
+        }
+        result.$ref = `#/$defs/${name}`;
+      } else {
+        result[key] = copy(child);
+      }
+    }
+    return result;
+  };
+
+  const copied = copy(schema);
+  while (pending.length > 0) {
+    const name = pending.shift();
+    defs[name] = copy(spec.components?.schemas?.[decodeURIComponent(name)] ?? {});
+  }
+
+  return Object.keys(defs).length > 0 ? { ...copied, $defs: { ...copied.$defs, ...defs } } : copied;
+}
+
+// JSON schema of a response: `application/json` or any `+json` type
+function jsonSchemaOf(response) {
+  const content = response?.content || {};
+  const type = Object.keys(content).find(t => /^application\/json\b/i.test(t)) ||
+               Object.keys(content).find(t => /\+json\b/i.test(t));
+  return type ? content[type]?.schema : undefined;
+}
+
+function isObjectSchema(schema) {
+  if (schema.$ref) return true;
+  const types = [].concat(schema.type ?? []);
+  if (types.length > 0) {
+    return types.length === 1 && types[0] === 'object';
+  }
+  const branches = schema.allOf || schema.oneOf || schema.anyOf;
+  return Boolean(schema.properties) || (Array.isArray(branches) && branches.every(isObjectSchema));
+}
+
+function check(value, schema, at, root, problems) {
+  if (schema === true || schema === undefined || schema === null) return;
+  if (schema === false) {
+    problems.push(`${at}: not allowed`);
+    return;
+  }
+
+  if (schema.$ref) {
+    const target = resolvePointer(root, schema.$ref);
+    if (target !== undefined) {
+      check(value, target, at, root, problems);
+    }
+  }
+
+  const types = [].concat(schema.type ?? []);
+  if (types.length > 0 && !types.some(type => hasType(value, type))) {
+    problems.push(`${at}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+    return;
+  }
+
+  if (schema.const !== undefined && !sameValue(value, schema.const)) {
+    problems.push(`${at}: expected ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some(item => sameValue(value, item))) {
+    problems.push(`${at}: ${JSON.stringify(value)} is not one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`);
+  }
+
+  for (const branch of schema.allOf || []) {
+    check(value, branch, at, root, problems);
+  }
+  for (const [keyword, expected] of [['anyOf', count => count >= 1], ['oneOf', count => count === 1]]) {
+    if (!Array.isArray(schema[keyword])) continue;
+    const passing = schema[keyword].filter(branch => {
+      const branchProblems = [];
+      check(value, branch, at, root, branchProblems);
+      return branchProblems.length === 0;
+    }).length;
+    if (!expected(passing)) {
+      problems.push(`${at}: matches ${passing} of the ${keyword} schemas`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      problems.push(`${at}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      problems.push(`${at}: longer than ${schema.maxLength} characters`);
+    }
+    const pattern = schema.pattern && safePattern(schema.pattern);
+    if (pattern && !pattern.test(value)) {
+      problems.push(`${at}: does not match ${schema.pattern}`);
+    }
+  } else if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) problems.push(`${at}: below ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) problems.push(`${at}: above ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      problems.push(`${at}: not above ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      problems.push(`${at}: not below ${schema.exclusiveMaximum}`);
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      problems.push(`${at}: fewer than ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      problems.push(`${at}: more than ${schema.maxItems} items`);
+    }
+    const prefix = schema.prefixItems || [];
+    value.forEach((item, i) => {
+      check(item, i < prefix.length ? prefix[i] : schema.items, `${at}[${i}]`, root, problems);
+    });
+  } else if (value && typeof value === 'object') {
+    for (const name of schema.required || []) {
+      if (!(name in value)) {
+        problems.push(`${at}.${name}: missing (required)`);
+      }
+    }
+    for (const [name, item] of Object.entries(value)) {
+      if (schema.properties && name in schema.properties) {
+        check(item, schema.properties[name], `${at}.${name}`, root, problems);
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${at}.${name}: not in the schema`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        check(item, schema.additionalProperties, `${at}.${name}`, root, problems);
+      }
+    }
+  }
+}
+
+function hasType(value, type) {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number';
+    default: return typeof value === type;
+  }
+}
+
+function describeType(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (Number.isInteger(value)) return 'an integer';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+function sameValue(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function safePattern(pattern) {
+  try {
+    return new RegExp(pattern, 'u');
+  } catch {
+    return undefined;
+  }
+}
+
+function resolvePointer(root, ref) {
+  if (!ref.startsWith('#')) return undefined;
+  let current = root;
+  for (const token of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    current = current?.[key];
+  }
+  return current;
+}
@@ -0,0 +1,29 @@
+/**
+ * Type declarations for overlay.js
+ */
+
+export interface OverlayAction {
+  target: string;
+  description?: string;
+  update?: any;
+  remove?: boolean;
+}
+
+export interface OverlayDocument {
+  overlay: string;
+  info?: { title?: string; version?: string };
+  extends?: string;
+  actions: OverlayAction[];
+}
+
+export interface ApplyOverlayOptions {
+  onWarning?: (message: string) => void;
+}
+
+export function isOverlay(document: any): document is OverlayDocument;
+export function loadOverlay(
+  source: string,
+  readDocument?: (uri: string) => Promise<any>
+): Promise<OverlayDocument>;
+export function applyOverlay<T = any>(document: T, overlay: OverlayDocument, options?: ApplyOverlayOptions): T;
+export function applyOverlays<T = any>(document: T, overlays: OverlayDocument[], options?: ApplyOverlayOptions): T;
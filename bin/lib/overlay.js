@@ -0,0 +1,133 @@
+/**
+ * OpenAPI Overlay (1.0) support
+ *
+ * An overlay is a list of actions, each selecting nodes of the spec with a
+ * JSONPath `target` and either merging an `update` into them or removing
+ * them. This is how third-party specs get patched without editing them:
+ * better summaries, missing operationIds, internal endpoints dropped.
+ */
+
+import { queryJsonPath } from './jsonpath.js';
+import { readDocument as defaultReadDocument, toUri } from './document-reader.js';
+
+/**
+ * Check whether a parsed document is an Overlay document
+ */
+export function isOverlay(document) {
+  return !!document && typeof document === 'object' &&
+    typeof document.overlay === 'string' && Array.isArray(document.actions);
+}
+
+/**
+ * Read an Overlay document from a file path or URL
+ */
+export async function loadOverlay(source, readDocument = defaultReadDocument) {
+  const overlay = await readDocument(toUri(source));
+
+  if (!isOverlay(overlay)) {
+    throw new Error(`Not an OpenAPI Overlay document (missing "overlay" or "actions"): ${source}`);
+  }
+
+  return overlay;
+}
+
+/**
+ * Apply an overlay to a spec document in place. Actions run in order, so
+ * later actions see the result of earlier ones. `onWarning` is told about
+ * targets that select nothing, which usually means the vendor spec changed
+ * under the overlay.
+ */
+export function applyOverlay(document, overlay, options = {}) {
+  const { onWarning } = options;
+  const name = overlay.info?.title || 'overlay';
+
+  overlay.actions.forEach((action, index) => {
+    if (!action || typeof action.target !== 'string') {
+      throw new Error(`${name}: action ${index} has no target`);
+    }
+
+    const nodes = queryJsonPath(document, action.target);
+
+    if (nodes.length === 0) {
+      onWarning?.(`${name}: target "${action.target}" matched nothing`);
+      return;
+    }
+
+    if (action.remove === true) {
+      removeNodes(document, nodes, action.target, name);
+    } else if (action.update !== undefined) {
+      for (const node of nodes) {
+        updateNode(document, node, action.update, action.target, name);
+      }
+    }
+  });
+
+  return document;
+}
+
+/**
+ * Apply several overlays in order
+ */
+export function applyOverlays(document, overlays, options = {}) {
+  return overlays.reduce((current, overlay) => applyOverlay(current, overlay, options), document);
+}
+
+function updateNode(document, node, update, target, name) {
+  if (Array.isArray(node.value)) {
+    // Updating an array appends the value as a new entry
+    node.value.push(clone(update));
+  } else if (isObject(node.value) && isObject(update)) {
+    mergeInto(node.value, update);
+  } else if (node.path.length === 0) {
+    throw new Error(`${name}: cannot replace the document root with "${target}"`);
+  } else {
+    parentOf(document, node.path)[node.path[node.path.length - 1]] = clone(update);
+  }
+}
+
+function mergeInto(target, update) {
+  for (const [key, value] of Object.entries(update)) {
+    if (isObject(value) && isObject(target[key])) {
+      mergeInto(target[key], value);
+    } else {
+      target[key] = clone(value);
+    }
+  }
+}
+
+function removeNodes(document, nodes, target, name) {
+  // Remove array entries from the highest index down so earlier removals
+  // don't shift the ones still to come
+  const ordered = [...nodes].sort((a, b) => {
+    const keyA = a.path[a.path.length - 1];
+    const keyB = b.path[b.path.length - 1];
+    return typeof keyA === 'number' && typeof keyB === 'number' ? keyB - keyA : 0;
+  });
+
+  for (const node of ordered) {
+    if (node.path.length === 0) {
+      throw new Error(`${name}: cannot remove the document root with "${target}"`);
+    }
+
+    const parent = parentOf(document, node.path);
+    const key = node.path[node.path.length - 1];
+
+    if (Array.isArray(parent)) {
+      parent.splice(key, 1);
+    } else if (parent) {
+      delete parent[key];
+    }
+  }
+}
+
+function parentOf(document, path) {
+  return path.slice(0, -1).reduce((current, key) => current?.[key], document);
+}
+
+function clone(value) {
+  return value === undefined ? value : structuredClone(value);
+}
+
+function isObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
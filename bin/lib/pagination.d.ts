@@ -0,0 +1,40 @@
+/**
+ * Type declarations for pagination.js
+ */
+
+import { SplitArguments } from './input-schema.js';
+import { HttpRequest, HttpResponse } from './http-client.js';
+
+export interface PaginationScheme {
+  style: 'page' | 'offset' | 'cursor' | 'link';
+  // Query parameter carrying the page number, offset or cursor
+  parameter?: string;
+  // Query parameter carrying the page size
+  sizeParameter?: string;
+  firstPage?: number;
+}
+
+export interface PaginationReport {
+  style: PaginationScheme['style'];
+  pages: number;
+  items: number;
+  truncated: boolean;
+  error?: string;
+}
+
+export const PAGINATION_ARGUMENTS: string[];
+
+export function detectPagination(operation: any, pathParameters?: any[]): PaginationScheme | undefined;
+export function paginationProperties(): Record<string, any>;
+export function fetchAllPages(
+  scheme: PaginationScheme,
+  parts: SplitArguments,
+  options: {
+    request: (parts: SplitArguments) => HttpRequest;
+    send: (request: HttpRequest) => Promise<HttpResponse>;
+    maxPages?: number;
+    maxItems?: number;
+  }
+): Promise<HttpResponse & { pagination?: PaginationReport }>;
+export function itemsOf(body: any): any[] | undefined;
+export function nextLinkUrl(header: string | string[] | undefined): string | undefined;
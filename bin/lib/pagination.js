@@ -0,0 +1,285 @@
+/**
+ * Auto-pagination of list operations
+ *
+ * A GET operation paginates when it takes a page number (`page`), an
+ * offset (`offset`, `skip`), or a cursor (`cursor`, `after`,
+ * `page_token`, ...), or when its responses declare a `Link` header. Its tool
+ * then accepts `fetchAll`, `maxPages` and `maxItems`. With `fetchAll`, pages
+ * are fetched in turn and their items merged. The next page comes from an
+ * RFC 5988 `Link: <...>; rel="next"` header when the response has one,
+ * otherwise from the scheme: the next page number, the offset plus the
+ * items so far, or the cursor found in the response body. Next-page URLs
+ * on another origin than the API are fetched without the call's headers.
+ */
+
+import { followUpRequest } from './http-client.js';
+
+export const PAGINATION_ARGUMENTS = ['fetchAll', 'maxPages', 'maxItems'];
+
+const DEFAULT_MAX_PAGES = 10;
+
+// Parameter names by role, compared lowercased without `_` and `-`
+const PAGE_NAMES = ['page', 'pagenumber', 'pageno', 'pagenum'];
+const OFFSET_NAMES = ['offset', 'skip', 'start', 'startindex'];
+const CURSOR_NAMES = [
+  'cursor', 'after', 'pagetoken', 'nexttoken', 'continuationtoken',
+  'startingafter', 'marker', 'continuation'
+];
+const SIZE_NAMES = ['limit', 'pagesize', 'perpage', 'size', 'maxresults', 'pagelimit', 'count'];
+
+// Response body fields
+const NEXT_CURSOR_FIELDS = [
+  'nextcursor', 'nextpagetoken', 'nexttoken', 'endcursor', 'continuationtoken',
+  'nextmarker', 'next', 'cursor', 'after', 'marker'
+];
+const HAS_MORE_FIELDS = ['hasmore', 'hasnextpage', 'hasnext', 'more'];
+const TOTAL_FIELDS = ['total', 'totalcount', 'totalitems', 'totalresults'];
+const TOTAL_PAGES_FIELDS = ['totalpages', 'pagecount', 'lastpage'];
+const ITEMS_FIELDS = ['data', 'items', 'results', 'records', 'entries', 'value', 'content', 'rows', 'nodes', 'edges'];
+
+/**
+ * Pagination scheme of an operation: `{ style, parameter, sizeParameter,
+ * firstPage }` with `style` one of `page`, `offset`, `cursor` or `link`,
+ * the parameters given by name and `firstPage` the number of the first
+ * page (from the parameter's default or minimum, else 1). Undefined when
+ * the operation does not paginate.
+ */
+export function detectPagination(operation, pathParameters = []) {
+  const query = [...(pathParameters || []), ...(operation?.parameters || [])]
+    .filter(param => param?.in === 'query' && param.name);
+  const find = names => query.find(param => names.includes(normalize(param.name)));
+
+  const sizeParameter = find(SIZE_NAMES)?.name;
+  for (const [style, names] of [['cursor', CURSOR_NAMES], ['page', PAGE_NAMES], ['offset', OFFSET_NAMES]]) {
+    const param = find(names);
+    if (!param) continue;
+
+    const scheme = { style, parameter: param.name, ...(sizeParameter && { sizeParameter }) };
+    if (style === 'page') {
+      scheme.firstPage = Number(param.schema?.default ?? param.schema?.minimum ?? 1);
+    }
+    return scheme;
+  }
+
+  const declaresLink = Object.entries(operation?.responses || {}).some(([status, response]) =>
+    /^2/.test(status) && Object.keys(response?.headers || {}).some(name => name.toLowerCase() === 'link')
+  );
+  return declaresLink ? { style: 'link', ...(sizeParameter && { sizeParameter }) } : undefined;
+}
+
+/**
+ * Input schema properties of the pagination arguments
+ */
+export function paginationProperties() {
+  return {
+    fetchAll: {
+      type: 'boolean',
+      description: 'Fetch every page and merge the items'
+    },
+    maxPages: {
+      type: 'integer',
+      minimum: 1,
+      description: `With fetchAll, stop after this many pages (default ${DEFAULT_MAX_PAGES})`
+    },
+    maxItems: {
+      type: 'integer',
+      minimum: 1,
+      description: 'With fetchAll, stop once this many items are collected'
+    }
+  };
+}
+
+/**
+ * Fetch pages starting from the request parts of the first one. `request`
+ * builds an HTTP request from parts and `send` sends it (see
+ * http-client.js). Resolves to the first response with the merged items
+ * as its body and a `pagination` report: `{ style, pages, items,
+ * truncated, error? }`.
+ */
+export async function fetchAllPages(scheme, parts, { request, send, maxPages, maxItems }) {
+  const pageLimit = Math.max(1, maxPages || DEFAULT_MAX_PAGES);
+  const apiRequest = request(parts);
+  let current = apiRequest;
+  let response = await send(current);
+  if (!isSuccess(response)) {
+    return response;
+  }
+
+  const first = response;
+  const items = [];
+  let pages = 0;
+  let pageParts = parts;
+  let truncated = false;
+  let error;
+
+  for (;;) {
+    pages++;
+    const pageItems = itemsOf(response.body) || [];
+    items.push(...pageItems);
+
+    const next = nextPage(scheme, pageParts, response, pageItems);
+    if (maxItems && items.length >= maxItems) {
+      truncated = items.length > maxItems || Boolean(next);
+      items.length = Math.min(items.length, maxItems);
+      break;
+    }
+    if (!next) break;
+    if (pages >= pageLimit) {
+      truncated = true;
+      break;
+    }
+
+    // Links and cursor URLs come from the API's responses: credentials only
+    // go along to the API's own origin
+    current = next.url
+      ? followUpRequest({ ...apiRequest, url: current.url }, next.url, apiRequest.url)
+      : request(next.parts);
+    pageParts = next.parts || pageParts;
+    response = await send(current);
+    if (!isSuccess(response)) {
+      truncated = true;
+      error = `Page ${pages + 1} failed: ${response.status} ${response.statusText}`;
+      break;
+    }
+  }
+
+  return {
+    ...first,
+    body: withItems(first.body, items),
+    pagination: {
+      style: scheme.style,
+      pages,
+      items: items.length,
+      truncated,
+      ...(error && { error })
+    }
+  };
+}
+
+/**
+ * Items of a page: the body itself when it is an array, otherwise its
+ * list field (`data`, `items`, `results`, ... or the only array field)
+ */
+export function itemsOf(body) {
+  if (Array.isArray(body)) {
+    return body;
+  }
+  const key = itemsKey(body);
+  return key ? body[key] : undefined;
+}
+
+/**
+ * URL of the `rel="next"` entry of an RFC 5988 Link header
+ */
+export function nextLinkUrl(header) {
+  const value = Array.isArray(header) ? header.join(',') : header;
+  for (const part of String(value || '').split(/,(?=\s*<)/)) {
+    const match = part.match(/<([^>]+)>\s*;(.*)/);
+    const rel = match?.[2].match(/\brel\s*=\s*"?([^";]*)"?/i);
+    if (rel && rel[1].toLowerCase().split(/\s+/).includes('next')) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+// Where the page after this one is: a URL to fetch, or request parts
+function nextPage(scheme, parts, response, pageItems) {
+  const linked = nextLinkUrl(headerValue(response.headers, 'link'));
+  if (linked) {
+    return { url: linked };
+  }
+  if (pageItems.length === 0 || hasMore(response.body) === false) {
+    return undefined;
+  }
+
+  const size = scheme.sizeParameter ? Number(parts.query[scheme.sizeParameter]) : NaN;
+  const fullPage = !(size > 0) || pageItems.length >= size;
+  const withQuery = (name, value) => ({ ...parts, query: { ...parts.query, [name]: value } });
+
+  switch (scheme.style) {
+    case 'cursor': {
+      const cursor = findField(response.body, NEXT_CURSOR_FIELDS);
+      if (typeof cursor === 'string' && /^(https?:\/\/|\/)/.test(cursor)) {
+        return { url: cursor };
+      }
+      return cursor === undefined || cursor === null || cursor === '' ||
+             cursor === parts.query[scheme.parameter]
+        ? undefined
+        : { parts: withQuery(scheme.parameter, cursor) };
+    }
+    case 'page': {
+      const page = Number(parts.query[scheme.parameter] ?? scheme.firstPage ?? 1);
+      const totalPages = Number(findField(response.body, TOTAL_PAGES_FIELDS));
+      if (!fullPage || (totalPages > 0 && page >= totalPages)) {
+        return undefined;
+      }
+      return { parts: withQuery(scheme.parameter, page + 1) };
+    }
+    case 'offset': {
+      const offset = Number(parts.query[scheme.parameter] ?? 0) + pageItems.length;
+      const total = Number(findField(response.body, TOTAL_FIELDS));
+      if (!fullPage || (total > 0 && offset >= total)) {
+        return undefined;
+      }
+      return { parts: withQuery(scheme.parameter, offset) };
+    }
+    default:
+      return undefined;
+  }
+}
+
+function isSuccess(response) {
+  return response.status >= 200 && response.status < 300;
+}
+
+function withItems(body, items) {
+  if (Array.isArray(body) || !body || typeof body !== 'object') {
+    return items;
+  }
+  const key = itemsKey(body);
+  return key ? { ...body, [key]: items } : items;
+}
+
+function itemsKey(body) {
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+  const arrays = Object.keys(body).filter(key => Array.isArray(body[key]));
+  return arrays.find(key => ITEMS_FIELDS.includes(normalize(key))) ||
+         (arrays.length === 1 ? arrays[0] : undefined);
+}
+
+function hasMore(body) {
+  const value = findField(body, HAS_MORE_FIELDS);
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+// A field by normalized name, at the top level or one object down
+// (`meta`, `pagination`, `pageInfo`, ...)
+function findField(body, names) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return undefined;
+  }
+  for (const name of names) {
+    const key = Object.keys(body).find(k => normalize(k) === name && typeof body[k] !== 'object');
+    if (key) return body[key];
+  }
+  for (const nested of Object.values(body)) {
+    if (!nested || typeof nested !== 'object' || Array.isArray(nested)) continue;
+    for (const name of names) {
+      const key = Object.keys(nested).find(k => normalize(k) === name && typeof nested[k] !== 'object');
+      if (key) return nested[key];
+    }
+  }
+  return undefined;
+}
+
+function headerValue(headers = {}, name) {
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
+
+function normalize(name) {
+  return String(name).toLowerCase().replace(/[_-]/g, '');
+}
@@ -0,0 +1,20 @@
+/**
+ * Type declarations for ref-resolver.js
+ */
+
+export interface ResolveRefsOptions {
+  baseUri?: string;
+  readDocument?: (uri: string) => Promise<any>;
+}
+
+export interface UnresolvedRef {
+  ref: string;
+  pointer: string;
+  reason: string;
+}
+
+export function resolveRefs<T = any>(spec: T, options?: ResolveRefsOptions): Promise<T>;
+export function findUnresolvedRefs(spec: any, options?: ResolveRefsOptions): Promise<UnresolvedRef[]>;
+export function splitRef(ref: string, baseUri: string): { uri: string; pointer: string };
+export function getPointer(document: any, pointer: string): any;
+export function toPointer(segments: Array<string | number>): string;
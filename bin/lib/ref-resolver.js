@@ -0,0 +1,285 @@
+/**
+ * $ref resolution for OpenAPI documents
+ *
+ * Produces a fully dereferenced copy of a spec so downstream consumers never
+ * have to deal with Reference objects:
+ * - Local JSON pointers (#/components/schemas/Pet)
+ * - Relative external files (./schemas/user.yaml#/User)
+ * - Absolute URLs (https://example.com/common.json#/Error)
+ *
+ * Targets that are referenced more than once share a single resolved object.
+ * Circular references are kept as local `$ref`s (external ones are hoisted
+ * into components.schemas) so the result stays JSON-serializable.
+ */
+
+import { readDocument as defaultReadDocument, toUri } from './document-reader.js';
+
+/**
+ * Resolve every $ref in the spec. `baseUri` is the file path or URL the spec
+ * was loaded from and is used to resolve relative external refs.
+ */
+export async function resolveRefs(spec, options = {}) {
+  const rootUri = toBaseUri(options.baseUri);
+  const documents = new Map([[rootUri, spec]]);
+  const readDocument = options.readDocument || defaultReadDocument;
+
+  await loadExternalDocuments(spec, rootUri, documents, readDocument);
+
+  const resolver = new Resolver(rootUri, documents);
+  return resolver.run();
+}
+
+/**
+ * Find every $ref that does not point at an existing location, without
+ * throwing. Refs in external documents are reported as `<uri>#<pointer>`.
+ */
+export async function findUnresolvedRefs(spec, options = {}) {
+  const rootUri = toBaseUri(options.baseUri);
+  const documents = new Map([[rootUri, spec]]);
+  const readDocument = options.readDocument || defaultReadDocument;
+  const loadErrors = new Map();
+  const unresolved = [];
+  const pending = [rootUri];
+
+  while (pending.length > 0) {
+    const uri = pending.pop();
+    const refs = [];
+    walk(documents.get(uri), '', (node, pointer) => refs.push([node.$ref, pointer]));
+
+    for (const [ref, pointer] of refs) {
+      const location = uri === rootUri ? pointer : `${uri}#${pointer}`;
+      let target;
+      try {
+        target = splitRef(ref, uri);
+      } catch (error) {
+        unresolved.push({ ref, pointer: location, reason: `Invalid reference: ${error.message}` });
+        continue;
+      }
+
+      if (!documents.has(target.uri) && !loadErrors.has(target.uri)) {
+        try {
+          documents.set(target.uri, await readDocument(target.uri));
+          pending.push(target.uri);
+        } catch (error) {
+          loadErrors.set(target.uri, error.message);
+        }
+      }
+
+      if (loadErrors.has(target.uri)) {
+        unresolved.push({ ref, pointer: location, reason: `Failed to load ${target.uri}: ${loadErrors.get(target.uri)}` });
+      } else if (getPointer(documents.get(target.uri), target.pointer) === undefined) {
+        unresolved.push({ ref, pointer: location, reason: 'Target does not exist' });
+      }
+    }
+  }
+
+  return unresolved;
+}
+
+/**
+ * Split a ref into the absolute document URI and the JSON pointer fragment
+ */
+export function splitRef(ref, baseUri) {
+  const hashIndex = ref.indexOf('#');
+  const location = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+  return {
+    uri: location ? new URL(location, baseUri).href : baseUri,
+    pointer: decodeURIComponent(fragment)
+  };
+}
+
+/**
+ * Read the value at a JSON pointer, or undefined when it does not exist
+ */
+export function getPointer(document, pointer) {
+  if (!pointer) {
+    return document;
+  }
+
+  let current = document;
+  for (const token of pointer.slice(1).split('/')) {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (current === null || typeof current !== 'object' || !(key in current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Build a JSON pointer from path segments
+ */
+export function toPointer(segments) {
+  return segments
+    .map(segment => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('');
+}
+
+class Resolver {
+  constructor(rootUri, documents) {
+    this.rootUri = rootUri;
+    this.documents = documents;
+    this.memo = new Map();
+    this.hoisted = new Map();
+  }
+
+  run() {
+    const result = this.resolveNode(this.documents.get(this.rootUri), this.rootUri, '');
+
+    if (this.hoisted.size > 0) {
+      result.components = result.components || {};
+      result.components.schemas = result.components.schemas || {};
+      for (const [name, value] of this.hoisted) {
+        result.components.schemas[name] = value;
+      }
+    }
+
+    return result;
+  }
+
+  resolveNode(node, uri, pointer) {
+    if (node === null || typeof node !== 'object') {
+      return node;
+    }
+
+    const key = `${uri}#${pointer}`;
+    const memoized = this.memo.get(key);
+    if (memoized) {
+      return memoized.value;
+    }
+
+    if (typeof node.$ref === 'string') {
+      return this.resolveReference(node, uri, key);
+    }
+
+    const container = Array.isArray(node) ? [] : {};
+    const entry = { value: container, done: false };
+    this.memo.set(key, entry);
+
+    if (Array.isArray(node)) {
+      node.forEach((child, index) => {
+        container.push(this.resolveNode(child, uri, `${pointer}/${index}`));
+      });
+    } else {
+      for (const [name, child] of Object.entries(node)) {
+        container[name] = this.resolveNode(child, uri, `${pointer}${toPointer([name])}`);
+      }
+    }
+
+    entry.done = true;
+    return container;
+  }
+
+  resolveReference(node, uri, key) {
+    const target = splitRef(node.$ref, uri);
+    const document = this.documents.get(target.uri);
+    const targetNode = document === undefined ? undefined : getPointer(document, target.pointer);
+
+    if (targetNode === undefined) {
+      throw new Error(`Unable to resolve $ref: ${node.$ref}`);
+    }
+
+    const targetKey = `${target.uri}#${target.pointer}`;
+    const inProgress = this.memo.get(targetKey);
+    let resolved;
+
+    if (inProgress && !inProgress.done && inProgress.value === undefined) {
+      throw new Error(`Circular $ref chain: ${node.$ref}`);
+    }
+
+    this.memo.set(key, { value: undefined, done: false });
+
+    if (inProgress && !inProgress.done) {
+      // Circular reference: keep it as a pointer into the root document
+      resolved = { $ref: this.localRef(target, inProgress.value) };
+    } else {
+      resolved = this.resolveNode(targetNode, target.uri, target.pointer);
+    }
+
+    // OpenAPI 3.1 allows summary/description siblings that override the target
+    const { $ref, ...siblings } = node;
+    if (Object.keys(siblings).length > 0 && resolved && typeof resolved === 'object' && !Array.isArray(resolved)) {
+      resolved = { ...resolved, ...siblings };
+    }
+
+    this.memo.set(key, { value: resolved, done: true });
+    return resolved;
+  }
+
+  localRef(target, value) {
+    if (target.uri === this.rootUri) {
+      return `#${target.pointer}`;
+    }
+
+    for (const [name, hoistedValue] of this.hoisted) {
+      if (hoistedValue === value) {
+        return `#/components/schemas${toPointer([name])}`;
+      }
+    }
+
+    const baseName = target.pointer.split('/').pop() ||
+      target.uri.split('/').pop().replace(/\.[^.]+$/, '');
+    let name = baseName;
+    let suffix = 2;
+    const existing = this.documents.get(this.rootUri).components?.schemas || {};
+    while (this.hoisted.has(name) || name in existing) {
+      name = `${baseName}${suffix++}`;
+    }
+
+    this.hoisted.set(name, value);
+    return `#/components/schemas${toPointer([name])}`;
+  }
+}
+
+async function loadExternalDocuments(node, uri, documents, readDocument) {
+  const pending = [[node, uri]];
+
+  while (pending.length > 0) {
+    const [current, currentUri] = pending.pop();
+
+    const refs = [];
+    walk(current, '', (refNode) => refs.push(refNode.$ref));
+
+    for (const ref of refs) {
+      const target = splitRef(ref, currentUri);
+      if (documents.has(target.uri)) {
+        continue;
+      }
+
+      try {
+        const document = await readDocument(target.uri);
+        documents.set(target.uri, document);
+        pending.push([document, target.uri]);
+      } catch (error) {
+        throw new Error(`Failed to load external $ref ${ref}: ${error.message}`);
+      }
+    }
+  }
+}
+
+function walk(node, pointer, visit) {
+  if (node === null || typeof node !== 'object') {
+    return;
+  }
+
+  if (typeof node.$ref === 'string') {
+    visit(node, pointer);
+  }
+
+  if (Array.isArray(node)) {
+    node.forEach((child, index) => walk(child, `${pointer}/${index}`, visit));
+  } else {
+    for (const [name, child] of Object.entries(node)) {
+      if (name !== '$ref') {
+        walk(child, `${pointer}${toPointer([name])}`, visit);
+      }
+    }
+  }
+}
+
+function toBaseUri(baseUri) {
+  return toUri(baseUri || 'openapi.json');
+}
@@ -0,0 +1,68 @@
+/**
+ * Type declarations for response-shaping.js
+ */
+
+import { HttpResponse } from './http-client.js';
+
+export interface ShapingArguments {
+  fields?: string[];
+  select?: string;
+  maxBytes?: number;
+}
+
+export interface TruncatedArray {
+  // JSONPath location of the array (`$.data`)
+  path: string;
+  total: number;
+  kept: number;
+  omitted: number;
+  // Size of the omitted items, their number range, or their first and
+  // last ids and their fields
+  tail: Record<string, any>;
+}
+
+export interface TruncationReport {
+  bytes: number;
+  returnedBytes: number;
+  maxBytes: number;
+  arrays?: TruncatedArray[];
+  // Number of shortened strings
+  strings?: number;
+  // Set when even the bare shape of the body is over budget
+  warning?: string;
+  // Where the full body can be read
+  fullBody?: StashedResponse;
+}
+
+export interface StashedResponse {
+  uri: string;
+  pages: number;
+}
+
+export const SHAPING_ARGUMENTS: string[];
+export const RESPONSE_URI_PREFIX: string;
+
+export function returnsJson(operation: any): boolean;
+export function shapingProperties(defaultMaxBytes?: number): Record<string, any>;
+export function checkShapingArguments(args?: ShapingArguments): void;
+export function shapeResponse(
+  response: HttpResponse,
+  options?: ShapingArguments & { stash?: ResponseStash; source?: string }
+): { response: HttpResponse; shaped: boolean; truncated?: TruncationReport };
+export function shapeBody(body: any, args?: Pick<ShapingArguments, 'fields' | 'select'>): any;
+export function projectFields(value: any, fields: string[]): any;
+export function truncateToBudget(
+  value: any,
+  maxBytes: number
+): { value: any; truncated?: Omit<TruncationReport, 'fullBody'> };
+
+export class ResponseStash {
+  constructor(options?: { pageBytes?: number; maxEntries?: number; ttl?: number });
+  pageBytes: number;
+  maxEntries: number;
+  ttl: number;
+  add(body: any, source?: string, pageBytes?: number): StashedResponse;
+  resources(): Array<{ uri: string; name: string; description: string; mimeType: string }>;
+  read(uri: string): { contents: Array<{ uri: string; mimeType: string; text: string }> };
+  expire(): void;
+}
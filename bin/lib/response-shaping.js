@@ -0,0 +1,479 @@
+/**
+ * Response shaping: projection, selection and size budgets
+ *
+ * Tools take optional arguments that trim what comes back to the model:
+ * - `fields` keeps only the named (dot-path) fields of each record
+ * - `select` keeps only what a JSONPath expression matches
+ * - `maxBytes` caps the size of the body
+ *
+ * A body over its budget keeps its shape: arrays are cut short, largest
+ * first and down to one item, then long strings are shortened, then
+ * arrays are emptied if need be. The result reports what was left out,
+ * with a summary of each array's tail, and the full body is kept for a
+ * while as a resource the model can read page by page, each page within
+ * the budget.
+ */
+
+import { parseJsonPath, queryJsonPath } from './jsonpath.js';
+import { itemsOf } from './pagination.js';
+
+export const SHAPING_ARGUMENTS = ['fields', 'select', 'maxBytes'];
+export const RESPONSE_URI_PREFIX = 'response://';
+
+const DEFAULT_PAGE_BYTES = 50000;
+const MIN_PAGE_BYTES = 1000;
+const DEFAULT_MAX_ENTRIES = 20;
+const DEFAULT_TTL = 15 * 60;
+const MIN_STRING_LENGTH = 200;
+const MAX_SUMMARY_FIELDS = 20;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const ID_FIELDS = ['id', 'uuid', 'key', 'name'];
+
+/**
+ * True when a success response of an operation is JSON, so projecting and
+ * selecting make sense for its tool
+ */
+export function returnsJson(operation) {
+  return Object.entries(operation?.responses || {})
+    .filter(([status]) => /^2(\d\d|XX)$/i.test(status))
+    .some(([, response]) => Object.keys(response?.content || {}).some(type => /^application\/json\b|\+json\b/i.test(type)));
+}
+
+/**
+ * Input schema properties of the shaping arguments. `defaultMaxBytes` is
+ * the budget that applies when `maxBytes` is not given.
+ */
+export function shapingProperties(defaultMaxBytes) {
+  return {
+    fields: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Only return these fields of each record, as dot paths (e.g. ["id", "owner.name"])'
+    },
+    select: {
+      type: 'string',
+      description: 'JSONPath expression picking part of the response body (e.g. "$.data[*].id")'
+    },
+    maxBytes: {
+      type: 'integer',
+      minimum: 1,
+      description: defaultMaxBytes
+        ? `Largest response body to return, in bytes (default ${defaultMaxBytes}); longer bodies are truncated`
+        : 'Largest response body to return, in bytes; longer bodies are truncated'
+    }
+  };
+}
+
+/**
+ * Check the shaping arguments of a call before it is made
+ */
+export function checkShapingArguments({ fields, select, maxBytes } = {}) {
+  if (fields !== undefined && (!Array.isArray(fields) || fields.some(field => typeof field !== 'string'))) {
+    throw new Error('"fields" must be a list of field names');
+  }
+  if (select !== undefined) {
+    try {
+      parseJsonPath(select);
+    } catch (error) {
+      throw new Error(`"select" is not a valid JSONPath expression: ${error.message}`);
+    }
+  }
+  if (maxBytes !== undefined && !(Number.isInteger(maxBytes) && maxBytes > 0)) {
+    throw new Error('"maxBytes" must be a positive integer');
+  }
+}
+
+/**
+ * A response trimmed to what the shaping arguments ask for: `{ response,
+ * shaped, truncated? }`. `shaped` says whether `fields` or `select` changed
+ * the body (they apply to success responses only); `truncated` reports
+ * what the budget left out, including where the full body can be read
+ * when a `stash` is given.
+ */
+export function shapeResponse(response, { fields, select, maxBytes, stash, source } = {}) {
+  let body = response.body;
+  const success = response.status >= 200 && response.status < 300;
+  const shaped = success && (Boolean(select) || (Array.isArray(fields) && fields.length > 0));
+  if (shaped) {
+    body = shapeBody(body, { fields, select });
+  }
+
+  const truncation = maxBytes ? truncateToBudget(body, maxBytes) : undefined;
+  if (!truncation?.truncated) {
+    return { response: shaped ? { ...response, body } : response, shaped };
+  }
+
+  return {
+    response: { ...response, body: truncation.value },
+    shaped,
+    truncated: {
+      ...truncation.truncated,
+      // Pages of the full body fit the same budget
+      ...(stash && { fullBody: stash.add(body, source, maxBytes) })
+    }
+  };
+}
+
+/**
+ * The part of a body `select` matches, with `fields` projected from it.
+ * A query that can match at most one value (names and indexes only) gives
+ * that value; any other gives the list of matches.
+ */
+export function shapeBody(body, { fields, select } = {}) {
+  let value = body;
+  if (select) {
+    const nodes = queryJsonPath(body, select);
+    value = isSingularQuery(select) ? nodes[0]?.value ?? null : nodes.map(node => node.value);
+  }
+  return Array.isArray(fields) && fields.length > 0 ? projectFields(value, fields) : value;
+}
+
+/**
+ * Keep only the given dot-path fields of a value: of each item of an
+ * array, of the items of a list envelope (`{ data: [...], total }`) when
+ * none of the fields are the envelope's own, or of the object itself
+ */
+export function projectFields(value, fields) {
+  const paths = fields.map(field => String(field).split('.').filter(Boolean)).filter(path => path.length > 0);
+  if (Array.isArray(value)) {
+    return value.map(item => pick(item, paths));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const items = itemsOf(value);
+  if (items && !paths.some(path => path[0] in value)) {
+    const key = Object.keys(value).find(name => value[name] === items);
+    return { ...value, [key]: items.map(item => pick(item, paths)) };
+  }
+  return pick(value, paths);
+}
+
+/**
+ * A body cut down to at most `maxBytes` of JSON: `{ value, truncated? }`.
+ * `truncated` gives the original and returned sizes, each shortened array
+ * (`{ path, total, kept, omitted, tail }`) and the number of shortened
+ * strings. Arrays keep one item while shortening strings can still make
+ * the body fit, and are emptied otherwise. A body whose bare shape is
+ * over budget is returned that way, with a `warning` saying by how much.
+ */
+export function truncateToBudget(value, maxBytes) {
+  const text = JSON.stringify(value);
+  const bytes = text === undefined ? 0 : Buffer.byteLength(text);
+  if (bytes <= maxBytes) {
+    return { value };
+  }
+
+  const copy = JSON.parse(text);
+  const arrays = new Map();
+  let root = copy;
+  let size = bytes;
+  let strings = 0;
+
+  // Shorten the largest array until the body fits, then the next largest
+  const shortenArrays = minimum => {
+    while (size > maxBytes) {
+      const largest = measure(root).arrays
+        .filter(node => node.value.length > minimum)
+        .sort((a, b) => b.bytes - a.bytes)[0];
+      if (!largest) break;
+
+      const array = largest.value;
+      let excess = size - maxBytes;
+      let keep = array.length;
+      while (keep > minimum && excess > 0) {
+        keep--;
+        excess -= byteSize(array[keep]) + 1;
+      }
+
+      // An array cut twice reports everything it lost
+      const earlier = arrays.get(largest.path);
+      const tail = [...array.slice(keep), ...(earlier?.tail || [])];
+      arrays.set(largest.path, { path: largest.path, total: earlier?.total ?? array.length, kept: keep, tail });
+      array.length = keep;
+      size = byteSize(root);
+    }
+  };
+
+  // Then the longest strings
+  const shortenStrings = () => {
+    const longest = measure(root).strings
+      .filter(node => node.value.length > MIN_STRING_LENGTH)
+      .sort((a, b) => b.value.length - a.value.length);
+    for (const node of longest) {
+      if (size <= maxBytes) break;
+      const keep = Math.max(MIN_STRING_LENGTH / 2, node.value.length - (size - maxBytes) - 40);
+      const shortened = `${node.value.slice(0, keep)}… [${node.value.length - keep} more characters]`;
+      if (node.parent) {
+        node.parent[node.key] = shortened;
+      } else {
+        root = shortened;
+      }
+      strings++;
+      size = byteSize(root);
+    }
+  };
+
+  shortenArrays(1);
+  shortenStrings();
+  shortenArrays(0);
+
+  // Arrays inside items that were cut later are gone altogether
+  const reported = [...arrays.values()].filter(({ path }) => ![...arrays.values()].some(outer => {
+    const index = path.startsWith(`${outer.path}[`) && path.slice(outer.path.length + 1).match(/^\d+/);
+    return index && Number(index[0]) >= outer.kept;
+  }));
+
+  return {
+    value: root,
+    truncated: {
+      bytes,
+      returnedBytes: size,
+      maxBytes,
+      ...(reported.length > 0 && {
+        arrays: reported.map(({ path, total, kept, tail }) => ({
+          path,
+          total,
+          kept,
+          omitted: tail.length,
+          tail: summarizeTail(tail)
+        }))
+      }),
+      ...(strings > 0 && { strings }),
+      ...(size > maxBytes && {
+        warning: `The body is still ${size} bytes with its lists emptied, ${size - maxBytes} over the ` +
+                 `${maxBytes}-byte budget; ask for less with fields or select`
+      })
+    }
+  };
+}
+
+/**
+ * Full bodies of truncated results, as `response://<id>` resources read a
+ * page at a time (`response://<id>?page=2`). The newest `maxEntries` are
+ * kept, each for `ttl` seconds.
+ */
+export class ResponseStash {
+  constructor(options = {}) {
+    this.pageBytes = options.pageBytes ?? DEFAULT_PAGE_BYTES;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.entries = new Map();
+    this.counter = 0;
+  }
+
+  /**
+   * Keep a body and return where to read it: `{ uri, pages }`. Pages are
+   * at most `pageBytes` long, and never longer than the stash's own size.
+   */
+  add(body, source, pageBytes = this.pageBytes) {
+    this.expire();
+    const id = `r${++this.counter}`;
+    const text = typeof body === 'string';
+    const size = Math.min(Math.max(pageBytes, MIN_PAGE_BYTES), this.pageBytes);
+    const pages = paginate(text ? body : JSON.stringify(body, null, 2), size);
+    const bytes = pages.reduce((total, page) => total + Buffer.byteLength(page), 0);
+    this.entries.set(id, {
+      pages,
+      bytes,
+      source,
+      mimeType: text ? 'text/plain' : 'application/json',
+      expires: Date.now() + this.ttl * 1000
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+    return { uri: `${RESPONSE_URI_PREFIX}${id}`, pages: pages.length };
+  }
+
+  /**
+   * The kept bodies, as resources
+   */
+  resources() {
+    this.expire();
+    return [...this.entries].map(([id, entry]) => ({
+      uri: `${RESPONSE_URI_PREFIX}${id}`,
+      name: `Full response ${id}${entry.source ? ` of ${entry.source}` : ''}`,
+      description: `${entry.bytes} bytes in ${entry.pages.length} page(s); ` +
+                   `read page N as ${RESPONSE_URI_PREFIX}${id}?page=N`,
+      mimeType: entry.mimeType
+    }));
+  }
+
+  /**
+   * Resource contents of a page of a kept body
+   */
+  read(uri) {
+    this.expire();
+    const match = uri.slice(RESPONSE_URI_PREFIX.length).match(/^([^?]+)(?:\?page=(\d+))?$/);
+    const entry = match && this.entries.get(match[1]);
+    if (!entry) {
+      throw new Error(`Unknown or expired response "${uri}"`);
+    }
+
+    const page = Number(match[2] ?? 1);
+    if (page < 1 || page > entry.pages.length) {
+      throw new Error(`${RESPONSE_URI_PREFIX}${match[1]} has pages 1 to ${entry.pages.length}`);
+    }
+    return {
+      contents: [{
+        uri,
+        mimeType: entry.pages.length === 1 ? entry.mimeType : 'text/plain',
+        text: entry.pages[page - 1]
+      }]
+    };
+  }
+
+  expire() {
+    const now = Date.now();
+    for (const [id, entry] of this.entries) {
+      if (entry.expires <= now) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
+
+// A query of names and indexes only, which matches at most one value
+function isSingularQuery(expression) {
+  return parseJsonPath(expression).every(segment =>
+    !segment.descendant &&
+    segment.selectors.length === 1 &&
+    ['name', 'index'].includes(segment.selectors[0].type)
+  );
+}
+
+function pick(item, paths) {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return item;
+  }
+
+  const result = {};
+  for (const [head, ...rest] of paths) {
+    if (!(head in item)) continue;
+    if (rest.length === 0) {
+      result[head] = item[head];
+      continue;
+    }
+    const child = item[head];
+    const projected = Array.isArray(child)
+      ? child.map(entry => pick(entry, [rest]))
+      : pick(child, [rest]);
+    result[head] = mergeProjections(result[head], projected);
+  }
+  return result;
+}
+
+// `a.b` and `a.c` both project from `a`
+function mergeProjections(existing, projected) {
+  if (existing === undefined) return projected;
+  if (Array.isArray(existing) && Array.isArray(projected)) {
+    return existing.map((entry, i) => mergeProjections(entry, projected[i]));
+  }
+  if (existing && projected && typeof existing === 'object' && typeof projected === 'object') {
+    return { ...existing, ...projected };
+  }
+  return projected;
+}
+
+// Byte sizes of the arrays and strings of a value, with JSONPath locations
+function measure(value) {
+  const arrays = [];
+  const strings = [];
+
+  const visit = (node, path, parent, key) => {
+    if (Array.isArray(node)) {
+      let bytes = 2 + Math.max(node.length - 1, 0);
+      node.forEach((item, i) => {
+        bytes += visit(item, `${path}[${i}]`, node, i);
+      });
+      arrays.push({ value: node, path, bytes });
+      return bytes;
+    }
+    if (node && typeof node === 'object') {
+      const entries = Object.entries(node).filter(([, child]) => child !== undefined);
+      let bytes = 2 + Math.max(entries.length - 1, 0);
+      for (const [name, child] of entries) {
+        const childPath = IDENTIFIER.test(name) ? `${path}.${name}` : `${path}[${JSON.stringify(name)}]`;
+        bytes += Buffer.byteLength(JSON.stringify(name)) + 1 + visit(child, childPath, node, name);
+      }
+      return bytes;
+    }
+    if (typeof node === 'string') {
+      strings.push({ value: node, path, parent, key });
+    }
+    return byteSize(node);
+  };
+
+  visit(value, '$');
+  return { arrays, strings };
+}
+
+function byteSize(value) {
+  const text = JSON.stringify(value);
+  return text === undefined ? 4 : Buffer.byteLength(text);
+}
+
+// What the cut-off items of an array were: their size, plus the range of
+// numbers, or the first and last ids and the fields of objects
+function summarizeTail(items) {
+  const summary = { bytes: items.reduce((total, item) => total + byteSize(item) + 1, 0) };
+
+  if (items.every(item => typeof item === 'number')) {
+    summary.min = Math.min(...items);
+    summary.max = Math.max(...items);
+    return summary;
+  }
+
+  const objects = items.filter(item => item && typeof item === 'object' && !Array.isArray(item));
+  if (objects.length === items.length && objects.length > 0) {
+    const idField = ID_FIELDS.find(field => objects.every(item => item[field] !== undefined));
+    if (idField) {
+      summary[idField] = { first: objects[0][idField], last: objects[objects.length - 1][idField] };
+    }
+    const fields = new Set();
+    for (const item of objects) {
+      Object.keys(item).forEach(field => fields.add(field));
+      if (fields.size >= MAX_SUMMARY_FIELDS) break;
+    }
+    summary.fields = [...fields].slice(0, MAX_SUMMARY_FIELDS);
+  }
+  return summary;
+}
+
+// Split text into pages of at most `pageBytes`, at line breaks where
+// possible
+function paginate(text, pageBytes) {
+  const pages = [];
+  let page = '';
+  let size = 0;
+  for (const line of text.split(/(?<=\n)/)) {
+    const lineBytes = Buffer.byteLength(line);
+    if (page && size + lineBytes > pageBytes) {
+      pages.push(page);
+      page = '';
+      size = 0;
+    }
+    if (lineBytes <= pageBytes) {
+      page += line;
+      size += lineBytes;
+      continue;
+    }
+
+    // A line longer than a page is split mid-line
+    let rest = line;
+    while (Buffer.byteLength(rest) > pageBytes) {
+      const cut = Buffer.from(rest).subarray(0, pageBytes).toString().replace(/\uFFFD+$/, '') || rest[0];
+      pages.push(cut);
+      rest = rest.slice(cut.length);
+    }
+    page = rest;
+    size = Buffer.byteLength(rest);
+  }
+  if (page || pages.length === 0) {
+    pages.push(page);
+  }
+  return pages;
+}
@@ -0,0 +1,12 @@
+/**
+ * Type declarations for schema-normalizer.js
+ */
+
+export interface NormalizeSchemaOptions {
+  openapi31?: boolean;
+}
+
+export function isOpenAPI31(spec: any): boolean;
+export function normalizeSchema(schema: any, options?: NormalizeSchemaOptions, memo?: Map<any, any>): any;
+export function normalizeSpecSchemas<T = any>(spec: T): T;
+export function schemaTypes(schema: any): string[];
@@ -0,0 +1,188 @@
+/**
+ * Schema normalization to JSON Schema 2020-12
+ *
+ * OpenAPI 3.0 schemas use their own dialect (`nullable`, single `example`,
+ * boolean `exclusiveMinimum`), while OpenAPI 3.1 schemas are plain JSON Schema
+ * 2020-12 (`type` arrays, `const`, `prefixItems`, `$defs`, `examples`).
+ * Everything is normalized to the 2020-12 form so the analyzer and the MCP
+ * tool input schemas only ever deal with one dialect, and nullable fields and
+ * tuple types survive into what the model sees.
+ */
+
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas'];
+const SCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+const SCHEMA_KEYWORDS = [
+  'items', 'additionalProperties', 'not', 'if', 'then', 'else', 'contains',
+  'propertyNames', 'unevaluatedProperties', 'unevaluatedItems', 'additionalItems'
+];
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Check whether a spec uses OpenAPI 3.1 (JSON Schema 2020-12) semantics
+ */
+export function isOpenAPI31(spec) {
+  return String(spec?.openapi || '').startsWith('3.1');
+}
+
+/**
+ * Normalize a single schema. `memo` keeps shared schemas shared.
+ */
+export function normalizeSchema(schema, options = {}, memo = new Map()) {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return schema;
+  }
+
+  if (memo.has(schema)) {
+    return memo.get(schema);
+  }
+
+  const legacy = !options.openapi31;
+  const normalized = {};
+  memo.set(schema, normalized);
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (SCHEMA_MAP_KEYWORDS.includes(key) && value && typeof value === 'object') {
+      const target = key === 'definitions' ? '$defs' : key;
+      normalized[target] = Object.fromEntries(
+        Object.entries(value).map(([name, child]) => [name, normalizeSchema(child, options, memo)])
+      );
+    } else if (SCHEMA_LIST_KEYWORDS.includes(key) && Array.isArray(value)) {
+      normalized[key] = value.map(child => normalizeSchema(child, options, memo));
+    } else if (key === 'items' && Array.isArray(value)) {
+      // Draft 4 style tuples
+      normalized.prefixItems = value.map(child => normalizeSchema(child, options, memo));
+    } else if (key === 'additionalItems' && Array.isArray(schema.items)) {
+      normalized.items = normalizeSchema(value, options, memo);
+    } else if (SCHEMA_KEYWORDS.includes(key)) {
+      normalized[key] = normalizeSchema(value, options, memo);
+    } else if (key === 'example') {
+      if (schema.examples === undefined) {
+        normalized.examples = [value];
+      }
+    } else if (key === 'examples' && !Array.isArray(value)) {
+      normalized.examples = Object.values(value);
+    } else if (key === 'nullable' && legacy) {
+      continue;
+    } else if ((key === 'exclusiveMinimum' || key === 'exclusiveMaximum') && typeof value === 'boolean') {
+      const bound = key === 'exclusiveMinimum' ? 'minimum' : 'maximum';
+      if (value && schema[bound] !== undefined) {
+        normalized[key] = schema[bound];
+      }
+    } else if ((key === 'minimum' || key === 'maximum') &&
+               schema[key === 'minimum' ? 'exclusiveMinimum' : 'exclusiveMaximum'] === true) {
+      continue;
+    } else {
+      normalized[key] = value;
+    }
+  }
+
+  if (Array.isArray(normalized.type)) {
+    normalized.type = [...new Set(normalized.type)];
+  }
+
+  if (legacy && schema.nullable === true) {
+    applyNullable(normalized);
+  }
+
+  return normalized;
+}
+
+/**
+ * Normalize every schema in the spec in place: components, parameters,
+ * request bodies, responses, headers, callbacks and webhooks.
+ */
+export function normalizeSpecSchemas(spec) {
+  const options = { openapi31: isOpenAPI31(spec) };
+  const memo = new Map();
+  const normalize = schema => normalizeSchema(schema, options, memo);
+  const visited = new Set();
+
+  const visitMedia = content => {
+    for (const media of Object.values(content || {})) {
+      if (media?.schema) media.schema = normalize(media.schema);
+    }
+  };
+
+  const visitParameterLike = parameter => {
+    if (!parameter || typeof parameter !== 'object' || visited.has(parameter)) return;
+    visited.add(parameter);
+    if (parameter.schema) parameter.schema = normalize(parameter.schema);
+    visitMedia(parameter.content);
+  };
+
+  const visitResponse = response => {
+    if (!response || typeof response !== 'object' || visited.has(response)) return;
+    visited.add(response);
+    visitMedia(response.content);
+    Object.values(response.headers || {}).forEach(visitParameterLike);
+  };
+
+  const visitPathItem = pathItem => {
+    if (!pathItem || typeof pathItem !== 'object' || visited.has(pathItem)) return;
+    visited.add(pathItem);
+    (pathItem.parameters || []).forEach(visitParameterLike);
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation || typeof operation !== 'object') continue;
+
+      (operation.parameters || []).forEach(visitParameterLike);
+      if (operation.requestBody && !visited.has(operation.requestBody)) {
+        visited.add(operation.requestBody);
+        visitMedia(operation.requestBody.content);
+      }
+      Object.values(operation.responses || {}).forEach(visitResponse);
+      for (const callback of Object.values(operation.callbacks || {})) {
+        Object.values(callback || {}).forEach(visitPathItem);
+      }
+    }
+  };
+
+  const components = spec.components || {};
+  if (components.schemas) {
+    for (const name of Object.keys(components.schemas)) {
+      components.schemas[name] = normalize(components.schemas[name]);
+    }
+  }
+  Object.values(components.parameters || {}).forEach(visitParameterLike);
+  Object.values(components.headers || {}).forEach(visitParameterLike);
+  Object.values(components.responses || {}).forEach(visitResponse);
+  for (const requestBody of Object.values(components.requestBodies || {})) {
+    if (requestBody && !visited.has(requestBody)) {
+      visited.add(requestBody);
+      visitMedia(requestBody.content);
+    }
+  }
+
+  Object.values(spec.paths || {}).forEach(visitPathItem);
+  Object.values(spec.webhooks || {}).forEach(visitPathItem);
+
+  return spec;
+}
+
+/**
+ * List the JSON types a schema allows, whether `type` is a string or an array
+ */
+export function schemaTypes(schema) {
+  if (!schema || schema.type === undefined) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function applyNullable(schema) {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.includes('null')) {
+      schema.type = [...types, 'null'];
+    }
+  } else if (schema.allOf || schema.oneOf || schema.anyOf || schema.$ref) {
+    const inner = { ...schema };
+    for (const key of Object.keys(schema)) delete schema[key];
+    schema.anyOf = [inner, { type: 'null' }];
+    return;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+    schema.enum = [...schema.enum, null];
+  }
+}
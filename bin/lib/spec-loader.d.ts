@@ -0,0 +1,20 @@
+/**
+ * Type declarations for spec-loader.js
+ */
+
+import { OverlayDocument } from './overlay.js';
+
+export interface SpecDocument {
+  document: any;
+  original: any;
+  baseUri: string;
+  readDocument: (uri: string) => Promise<any>;
+}
+
+export interface LoadSpecOptions {
+  overlays?: Array<string | OverlayDocument>;
+  onWarning?: (message: string) => void;
+}
+
+export function loadSpecDocument(source: string, options?: LoadSpecOptions): Promise<SpecDocument>;
+export function loadSpec(source: string, options?: LoadSpecOptions): Promise<any>;
@@ -0,0 +1,44 @@
+/**
+ * Spec loading pipeline shared by the TypeScript CLI and the simple server
+ *
+ * source → fetch/decompress → parse (JSON or YAML, sniffed) →
+ * Postman/HAR import → overlays → Swagger 2.0 upconversion →
+ * $ref resolution → JSON Schema normalization
+ */
+
+import { openSpecSource } from './document-reader.js';
+import { importTraffic } from './traffic-importer.js';
+import { loadOverlay, applyOverlays } from './overlay.js';
+import { convertSwagger2 } from './swagger2-converter.js';
+import { resolveRefs } from './ref-resolver.js';
+import { normalizeSpecSchemas } from './schema-normalizer.js';
+
+/**
+ * Load a spec document without resolving it. Postman collections and HAR
+ * captures are turned into OpenAPI first. Overlays are applied to the
+ * document as written (or as inferred), before Swagger 2.0 is upconverted,
+ * so their targets match what the overlay author sees. `original` is the
+ * document before that upconversion.
+ *
+ * `options.overlays` takes overlay file paths/URLs or parsed overlay documents.
+ */
+export async function loadSpecDocument(source, options = {}) {
+  const opened = await openSpecSource(source);
+  const overlays = await Promise.all(
+    (options.overlays || []).map(overlay =>
+      typeof overlay === 'string' ? loadOverlay(overlay) : overlay
+    )
+  );
+
+  const document = applyOverlays(importTraffic(opened.document), overlays, { onWarning: options.onWarning });
+  return { ...opened, document: convertSwagger2(document), original: document };
+}
+
+/**
+ * Load a fully resolved and normalized spec from a file path or URL
+ */
+export async function loadSpec(source, options = {}) {
+  const { document, baseUri, readDocument } = await loadSpecDocument(source, options);
+  const resolved = await resolveRefs(document, { baseUri, readDocument });
+  return normalizeSpecSchemas(resolved);
+}
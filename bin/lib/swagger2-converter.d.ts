@@ -0,0 +1,7 @@
+/**
+ * Type declarations for swagger2-converter.js
+ */
+
+export function isSwagger2(spec: any): boolean;
+export function convertSwagger2(spec: any): any;
+export function swagger2Pointer(pointer: string, source: any, converted: any): string;
@@ -0,0 +1,546 @@
+/**
+ * Swagger 2.0 to OpenAPI 3.0 upconversion
+ *
+ * Maps a `swagger: "2.0"` document into the OpenAPISpec shape the rest of the
+ * transformer expects:
+ * - definitions / parameters / responses / securityDefinitions → components
+ * - host / basePath / schemes → servers
+ * - in: body and in: formData parameters → requestBody
+ * - produces / consumes → response and request body content types
+ */
+
+import { toPointer } from './ref-resolver.js';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+const SCHEMA_KEYS = [
+  'type', 'format', 'items', 'collectionFormat', 'default', 'maximum', 'exclusiveMaximum',
+  'minimum', 'exclusiveMinimum', 'maxLength', 'minLength', 'pattern', 'maxItems',
+  'minItems', 'uniqueItems', 'enum', 'multipleOf'
+];
+
+const COLLECTION_FORMATS = {
+  csv: { style: 'form', explode: false },
+  ssv: { style: 'spaceDelimited', explode: false },
+  pipes: { style: 'pipeDelimited', explode: false },
+  multi: { style: 'form', explode: true }
+};
+
+/**
+ * Check whether a parsed document is a Swagger 2.0 spec
+ */
+export function isSwagger2(spec) {
+  return !!spec && typeof spec === 'object' && String(spec.swagger || '').startsWith('2');
+}
+
+/**
+ * Convert a Swagger 2.0 document to OpenAPI 3.0. Other documents are returned untouched.
+ */
+export function convertSwagger2(spec) {
+  if (!isSwagger2(spec)) {
+    return spec;
+  }
+
+  const source = rewriteRefs(spec);
+  const globalProduces = source.produces || ['application/json'];
+  const globalConsumes = source.consumes || ['application/json'];
+  const bodyParameters = new Set();
+  const formParameters = new Map();
+
+  const converted = {
+    openapi: '3.0.3',
+    info: source.info,
+    servers: convertServers(source),
+    paths: {},
+    components: {}
+  };
+
+  // Extensions and top-level fields that map one-to-one
+  for (const [key, value] of Object.entries(source)) {
+    if (key.startsWith('x-') || ['security', 'tags', 'externalDocs'].includes(key)) {
+      converted[key] = value;
+    }
+  }
+
+  if (source.definitions) {
+    converted.components.schemas = mapValues(source.definitions, convertSchema);
+  }
+
+  if (source.parameters) {
+    for (const [name, parameter] of Object.entries(source.parameters)) {
+      if (parameter.in === 'body') {
+        bodyParameters.add(name);
+        converted.components.requestBodies = converted.components.requestBodies || {};
+        converted.components.requestBodies[name] = convertBodyParameter(parameter, globalConsumes);
+      } else if (parameter.in === 'formData') {
+        formParameters.set(name, parameter);
+      } else {
+        converted.components.parameters = converted.components.parameters || {};
+        converted.components.parameters[name] = convertParameter(parameter);
+      }
+    }
+  }
+
+  if (source.responses) {
+    converted.components.responses = mapValues(
+      source.responses,
+      response => convertResponse(response, globalProduces)
+    );
+  }
+
+  if (source.securityDefinitions) {
+    converted.components.securitySchemes = mapValues(source.securityDefinitions, convertSecurityScheme);
+  }
+
+  const context = { globalProduces, globalConsumes, bodyParameters, formParameters };
+
+  for (const [path, pathItem] of Object.entries(source.paths || {})) {
+    converted.paths[path] = convertPathItem(pathItem, context);
+  }
+
+  if (Object.keys(converted.components).length === 0) {
+    delete converted.components;
+  }
+
+  return converted;
+}
+
+/**
+ * Map a JSON pointer into `converted`, the OpenAPI 3.0 conversion of the
+ * Swagger 2.0 document `source`, back to where that location came from, so
+ * diagnostics point at what the author wrote. Locations without a 2.0
+ * counterpart map to their nearest ancestor that has one.
+ */
+export function swagger2Pointer(pointer, source, converted) {
+  if (!pointer.startsWith('/')) {
+    return pointer;
+  }
+
+  const segments = pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  return toPointer(sourceSegments(segments, source, converted));
+}
+
+function sourceSegments([head, ...rest], source, converted) {
+  switch (head) {
+    case 'openapi':
+      return ['swagger'];
+    case 'servers':
+      return source.host !== undefined ? ['host'] : source.basePath !== undefined ? ['basePath'] : [];
+    case 'components':
+      return componentSegments(rest);
+    case 'paths':
+      return rest.length > 1 ? pathSegments(rest, source, converted) : [head, ...rest];
+    default:
+      return [head, ...rest];
+  }
+}
+
+function componentSegments([section, name, ...tail]) {
+  const named = name === undefined ? [] : [name];
+  switch (section) {
+    case 'schemas':
+      return ['definitions', ...named, ...tail];
+    case 'parameters':
+      return ['parameters', ...named, ...parameterTail(tail)];
+    case 'requestBodies':
+      return ['parameters', ...named, ...bodyTail(tail)];
+    case 'responses':
+      return ['responses', ...named, ...responseTail(tail)];
+    case 'securitySchemes':
+      return ['securityDefinitions', ...named, ...(['flows', 'scheme'].includes(tail[0]) ? [] : tail)];
+    default:
+      return [];
+  }
+}
+
+function pathSegments([path, key, ...tail], source, converted) {
+  const sourceItem = source.paths?.[path] || {};
+  const convertedItem = converted.paths?.[path] || {};
+  const itemPointer = ['paths', path];
+
+  if (key === 'parameters') {
+    return [...itemPointer, 'parameters', ...parameterSegments(tail, sourceItem.parameters, convertedItem.parameters)];
+  }
+  if (!HTTP_METHODS.includes(key)) {
+    return [...itemPointer, key, ...tail];
+  }
+
+  const operationPointer = [...itemPointer, key];
+  const operation = sourceItem[key] || {};
+  const [field, ...rest] = tail;
+  switch (field) {
+    case 'parameters':
+      return [
+        ...operationPointer,
+        'parameters',
+        ...parameterSegments(rest, operation.parameters, convertedItem[key]?.parameters)
+      ];
+    case 'requestBody':
+      return requestBodySegments(rest, source, [
+        [operationPointer, operation.parameters || []],
+        [itemPointer, sourceItem.parameters || []]
+      ]);
+    case 'responses':
+      return [...operationPointer, 'responses', ...(rest.length > 0 ? [rest[0], ...responseTail(rest.slice(1))] : [])];
+    default:
+      return [...operationPointer, ...tail];
+  }
+}
+
+// A converted parameter is found among the 2.0 ones by its ref, or by name and location
+function parameterSegments([index, ...tail], sourceParameters = [], convertedParameters = []) {
+  const parameter = convertedParameters[index];
+  if (!parameter) {
+    return [];
+  }
+
+  const ref = parameter.$ref?.replace(/^#\/components\/parameters\//, '#/parameters/');
+  const found = sourceParameters.findIndex(candidate => ref
+    ? candidate.$ref === ref
+    : !candidate.$ref && candidate.name === parameter.name && candidate.in === parameter.in);
+  return found === -1 ? [] : [found, ...(ref ? tail : parameterTail(tail))];
+}
+
+// The request body comes from the body parameter, or from the form parameter
+// of the property pointed into, of the operation or else of its path
+function requestBodySegments(tail, source, scopes) {
+  const property = tail[3] === 'properties' ? tail[4] : undefined;
+
+  for (const [pointer, parameters] of scopes) {
+    const body = parameters.findIndex(parameter => sourceParameter(parameter, source)?.in === 'body');
+    if (body !== -1) {
+      return [...pointer, 'parameters', body, ...(parameters[body].$ref ? [] : bodyTail(tail))];
+    }
+
+    const form = parameters.findIndex(parameter => {
+      const resolved = sourceParameter(parameter, source);
+      return resolved?.in === 'formData' && (property === undefined || resolved.name === property);
+    });
+    if (form !== -1) {
+      return [...pointer, 'parameters', ...(property === undefined || parameters[form].$ref ? [] : [form, ...tail.slice(5)])];
+    }
+  }
+
+  return [...scopes[0][0], 'parameters'];
+}
+
+function sourceParameter(parameter, source) {
+  const refName = parameterRefName(parameter);
+  return refName ? source.parameters?.[refName] : parameter;
+}
+
+// 2.0 parameters carry their schema keywords inline
+function parameterTail(tail) {
+  if (tail[0] === 'schema') return tail.slice(1);
+  if (tail[0] === 'style' || tail[0] === 'explode') return ['collectionFormat'];
+  return tail;
+}
+
+// content/<media type>/schema/... of a request body is the body parameter's schema
+function bodyTail(tail) {
+  return tail[0] === 'content' && tail[2] === 'schema' ? ['schema', ...tail.slice(3)] : [];
+}
+
+function responseTail(tail) {
+  if (tail[0] === 'content') {
+    if (tail[2] === 'schema') return ['schema', ...tail.slice(3)];
+    if (tail[2] === 'example') return ['examples', tail[1]];
+    return [];
+  }
+  if (tail[0] === 'headers' && tail.length > 1) {
+    return ['headers', tail[1], ...(tail[2] === 'schema' ? tail.slice(3) : [])];
+  }
+  return tail;
+}
+
+function convertServers(spec) {
+  const basePath = spec.basePath || '';
+
+  if (!spec.host) {
+    return [{ url: basePath || '/' }];
+  }
+
+  const schemes = spec.schemes?.length ? spec.schemes : ['https'];
+  return schemes.map(scheme => ({ url: `${scheme}://${spec.host}${basePath}` }));
+}
+
+function convertPathItem(pathItem, context) {
+  const converted = {};
+  const pathParameters = pathItem.parameters || [];
+
+  for (const [key, value] of Object.entries(pathItem)) {
+    if (HTTP_METHODS.includes(key)) {
+      converted[key] = convertOperation(value, pathParameters, context);
+    } else if (key === 'parameters') {
+      const parameters = value
+        .filter(parameter => !isBodyLike(parameter, context))
+        .map(parameter => convertParameterOrRef(parameter));
+      if (parameters.length > 0) {
+        converted.parameters = parameters;
+      }
+    } else {
+      converted[key] = value;
+    }
+  }
+
+  return converted;
+}
+
+function convertOperation(operation, pathParameters, context) {
+  const { produces, consumes, schemes, parameters = [], responses = {}, ...rest } = operation;
+  const converted = { ...rest };
+  const operationConsumes = consumes || context.globalConsumes;
+  const operationProduces = produces || context.globalProduces;
+
+  // Path-level body and form parameters apply to every operation
+  const overridden = new Set(parameters.map(p => `${p.in}:${p.name}`));
+  const inherited = pathParameters.filter(p =>
+    isBodyLike(p, context) && !overridden.has(`${p.in}:${p.name}`)
+  );
+
+  const regular = [];
+  const formData = [];
+  let requestBody;
+
+  for (const parameter of [...inherited, ...parameters]) {
+    const refName = parameterRefName(parameter);
+
+    if (refName && context.bodyParameters.has(refName)) {
+      requestBody = { $ref: `#/components/requestBodies/${refName}` };
+    } else if (refName && context.formParameters.has(refName)) {
+      formData.push(context.formParameters.get(refName));
+    } else if (parameter.in === 'body') {
+      requestBody = convertBodyParameter(parameter, operationConsumes);
+    } else if (parameter.in === 'formData') {
+      formData.push(parameter);
+    } else {
+      regular.push(convertParameterOrRef(parameter));
+    }
+  }
+
+  if (regular.length > 0) {
+    converted.parameters = regular;
+  }
+
+  if (formData.length > 0) {
+    requestBody = convertFormParameters(formData, operationConsumes);
+  }
+
+  if (requestBody) {
+    converted.requestBody = requestBody;
+  }
+
+  converted.responses = mapValues(responses, response =>
+    response.$ref ? response : convertResponse(response, operationProduces)
+  );
+
+  return converted;
+}
+
+function convertParameterOrRef(parameter) {
+  if (parameter.$ref) {
+    return { $ref: parameter.$ref.replace(/^#\/parameters\//, '#/components/parameters/') };
+  }
+  return convertParameter(parameter);
+}
+
+function convertParameter(parameter) {
+  const converted = {};
+  const schema = {};
+
+  for (const [key, value] of Object.entries(parameter)) {
+    if (key === 'collectionFormat') {
+      Object.assign(converted, COLLECTION_FORMATS[value] || {});
+    } else if (SCHEMA_KEYS.includes(key)) {
+      schema[key] = key === 'items' ? convertSchema(value) : value;
+    } else if (key !== 'allowEmptyValue' || parameter.in === 'query') {
+      converted[key] = value;
+    }
+  }
+
+  converted.schema = convertSchema(schema);
+  return converted;
+}
+
+function convertBodyParameter(parameter, consumes) {
+  const requestBody = {
+    content: Object.fromEntries(
+      consumes.map(mediaType => [mediaType, { schema: convertSchema(parameter.schema || {}) }])
+    )
+  };
+
+  if (parameter.description) requestBody.description = parameter.description;
+  if (parameter.required) requestBody.required = true;
+  copyExtensions(parameter, requestBody);
+
+  return requestBody;
+}
+
+function convertFormParameters(parameters, consumes) {
+  const schema = { type: 'object', properties: {} };
+  const required = [];
+
+  for (const parameter of parameters) {
+    const { schema: propertySchema } = convertParameter(parameter);
+    if (parameter.description) {
+      propertySchema.description = parameter.description;
+    }
+    schema.properties[parameter.name] = propertySchema;
+    if (parameter.required) {
+      required.push(parameter.name);
+    }
+  }
+
+  if (required.length > 0) {
+    schema.required = required;
+  }
+
+  const hasFile = parameters.some(p => p.type === 'file');
+  const formTypes = consumes.filter(type =>
+    type === 'multipart/form-data' || type === 'application/x-www-form-urlencoded'
+  );
+  const mediaTypes = hasFile
+    ? ['multipart/form-data']
+    : formTypes.length > 0 ? formTypes : ['application/x-www-form-urlencoded'];
+
+  return {
+    content: Object.fromEntries(mediaTypes.map(mediaType => [mediaType, { schema }])),
+    ...(required.length > 0 ? { required: true } : {})
+  };
+}
+
+function convertResponse(response, produces) {
+  const { schema, examples, headers, ...rest } = response;
+  const converted = { ...rest };
+
+  if (schema) {
+    converted.content = Object.fromEntries(produces.map(mediaType => {
+      const media = { schema: convertSchema(schema) };
+      if (examples?.[mediaType] !== undefined) {
+        media.example = examples[mediaType];
+      }
+      return [mediaType, media];
+    }));
+  }
+
+  if (headers) {
+    converted.headers = mapValues(headers, header => {
+      const { description, ...headerSchema } = header;
+      return {
+        ...(description ? { description } : {}),
+        schema: convertSchema(headerSchema)
+      };
+    });
+  }
+
+  return converted;
+}
+
+function convertSecurityScheme(scheme) {
+  const description = scheme.description ? { description: scheme.description } : {};
+
+  switch (scheme.type) {
+    case 'basic':
+      return { type: 'http', scheme: 'basic', ...description };
+    case 'apiKey':
+      return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+    case 'oauth2': {
+      const flowNames = {
+        implicit: 'implicit',
+        password: 'password',
+        application: 'clientCredentials',
+        accessCode: 'authorizationCode'
+      };
+      const flow = { scopes: scheme.scopes || {} };
+      if (scheme.authorizationUrl) flow.authorizationUrl = scheme.authorizationUrl;
+      if (scheme.tokenUrl) flow.tokenUrl = scheme.tokenUrl;
+      return {
+        type: 'oauth2',
+        flows: { [flowNames[scheme.flow] || scheme.flow]: flow },
+        ...description
+      };
+    }
+    default:
+      return scheme;
+  }
+}
+
+function convertSchema(schema) {
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  if (Array.isArray(schema)) {
+    return schema.map(convertSchema);
+  }
+
+  const converted = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'x-nullable') {
+      converted.nullable = value;
+    } else if (key === 'collectionFormat') {
+      continue;
+    } else if (key === 'type' && value === 'file') {
+      converted.type = 'string';
+      converted.format = 'binary';
+    } else if (key === 'discriminator' && typeof value === 'string') {
+      converted.discriminator = { propertyName: value };
+    } else if (key === 'example' || key === 'enum' || key === 'default') {
+      converted[key] = value;
+    } else {
+      converted[key] = convertSchema(value);
+    }
+  }
+
+  return converted;
+}
+
+// Refs into other documents keep their 2.0 pointers, which the ref
+// resolver follows in the document as written
+function rewriteRefs(node) {
+  if (!node || typeof node !== 'object') {
+    return node;
+  }
+
+  if (Array.isArray(node)) {
+    return node.map(rewriteRefs);
+  }
+
+  const rewritten = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === '$ref' && typeof value === 'string') {
+      rewritten.$ref = value
+        .replace(/^#\/definitions\//, '#/components/schemas/')
+        .replace(/^#\/responses\//, '#/components/responses/');
+    } else {
+      rewritten[key] = rewriteRefs(value);
+    }
+  }
+
+  return rewritten;
+}
+
+function isBodyLike(parameter, context) {
+  const refName = parameterRefName(parameter);
+  if (refName) {
+    return context.bodyParameters.has(refName) || context.formParameters.has(refName);
+  }
+  return parameter.in === 'body' || parameter.in === 'formData';
+}
+
+function parameterRefName(parameter) {
+  const match = parameter.$ref?.match(/^#\/parameters\/(.+)$/);
+  return match ? match[1] : null;
+}
+
+function mapValues(object, fn) {
+  return Object.fromEntries(Object.entries(object).map(([key, value]) => [key, fn(value)]));
+}
+
+function copyExtensions(from, to) {
+  for (const [key, value] of Object.entries(from)) {
+    if (key.startsWith('x-')) {
+      to[key] = value;
+    }
+  }
+}
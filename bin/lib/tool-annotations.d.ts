@@ -0,0 +1,12 @@
+/**
+ * Type declarations for tool-annotations.js
+ */
+
+import { MCPExtensions, ToolAnnotations } from './mcp-extensions.js';
+
+export { ToolAnnotations };
+
+export function hasSideEffects(operation: any): boolean;
+export function toolAnnotations(method: string, operation?: any, extensions?: MCPExtensions): ToolAnnotations;
+export function mergeAnnotations(annotations: Array<ToolAnnotations | undefined>): ToolAnnotations | undefined;
+export function deprecatedDescription(description: string, operation: any): string;
@@ -0,0 +1,77 @@
+/**
+ * MCP tool annotations
+ *
+ * Hints clients use to display and gate tools, derived from the endpoint:
+ * - GET, HEAD and OPTIONS are read-only, unless the summary says they
+ *   trigger, send or execute something
+ * - DELETE, and operations marked `x-mcp-confirm`, are destructive
+ * - read-only tools, PUT and DELETE are idempotent
+ * - every operation calls an outside API, so all tools are open-world
+ *
+ * The title is the operation's summary, marked when the operation is
+ * deprecated. `x-mcp-annotations` replaces any of these.
+ */
+
+import { ANNOTATION_HINTS } from './mcp-extensions.js';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+const IDEMPOTENT_METHODS = ['PUT', 'DELETE'];
+const SIDE_EFFECT_WORDS = ['trigger', 'send', 'execute'];
+
+/**
+ * True when the summary of an operation says it does something beyond
+ * what its method suggests
+ */
+export function hasSideEffects(operation) {
+  const summary = operation?.summary?.toLowerCase() || '';
+  return SIDE_EFFECT_WORDS.some(word => summary.includes(word));
+}
+
+/**
+ * Annotations of the tool of an operation: `{ title?, readOnlyHint,
+ * destructiveHint, idempotentHint, openWorldHint }`. `extensions` are the
+ * operation's x-mcp-* extensions.
+ */
+export function toolAnnotations(method, operation = {}, extensions = {}) {
+  const verb = method.toUpperCase();
+  const readOnly = extensions.kind === 'resource' ||
+                   (SAFE_METHODS.includes(verb) && !hasSideEffects(operation));
+
+  const summary = operation.summary?.trim();
+  const title = summary && operation.deprecated ? `${summary} (deprecated)` : summary;
+
+  return {
+    ...(title && { title }),
+    readOnlyHint: readOnly,
+    destructiveHint: !readOnly && (verb === 'DELETE' || Boolean(extensions.confirm)),
+    idempotentHint: readOnly || IDEMPOTENT_METHODS.includes(verb),
+    openWorldHint: true,
+    ...extensions.annotations
+  };
+}
+
+/**
+ * Annotations of a tool that routes to several others (composite tools):
+ * read-only and idempotent only if all of them are, destructive and
+ * open-world if any is
+ */
+export function mergeAnnotations(annotations) {
+  const present = annotations.filter(Boolean);
+  if (present.length === 0) {
+    return undefined;
+  }
+
+  const all = hint => present.every(a => a[hint] === true);
+  const any = hint => present.some(a => a[hint] === true);
+  return Object.fromEntries(ANNOTATION_HINTS.map(hint => [
+    hint,
+    hint === 'readOnlyHint' || hint === 'idempotentHint' ? all(hint) : any(hint)
+  ]));
+}
+
+/**
+ * Description of a deprecated operation's tool, leading with a warning
+ */
+export function deprecatedDescription(description, operation) {
+  return operation?.deprecated ? `DEPRECATED: ${description}` : description;
+}
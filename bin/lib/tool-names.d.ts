@@ -0,0 +1,36 @@
+/**
+ * Type declarations for tool-names.js
+ */
+
+import { MCPExtensions } from './mcp-extensions.js';
+
+export interface NamedOperation {
+  method: string;
+  path: string;
+  operation?: any;
+  extensions?: MCPExtensions;
+  namespace?: string;
+}
+
+export interface ToolNameMapping {
+  version: number;
+  // Tool name by operation key ("GET /pets/{id}", "billing:POST /invoices")
+  tools: Record<string, string>;
+}
+
+export const MAX_TOOL_NAME_LENGTH: number;
+
+export function operationKey(method: string, path: string, namespace?: string): string;
+export function sanitizeToolName(name: string): string;
+export function toolNameFor(method: string, path: string, operation?: any, extensions?: MCPExtensions): string;
+export function assignToolNames(
+  operations: NamedOperation[],
+  options?: { mapping?: ToolNameMapping }
+): Map<string, string>;
+export function toolNameMapping(names: Map<string, string>): ToolNameMapping;
+export function readToolNameMapping(file?: string): ToolNameMapping;
+export function writeToolNameMapping(
+  file: string,
+  names: Map<string, string>,
+  previous?: ToolNameMapping
+): ToolNameMapping;
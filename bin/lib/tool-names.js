@@ -0,0 +1,171 @@
+/**
+ * Tool naming shared by the generators and the spec differ
+ *
+ * MCP clients accept tool names of 1-64 characters from `a-z A-Z 0-9 _ -`.
+ * A tool is named after, in order:
+ * 1. `x-mcp-name`
+ * 2. its entry in the name mapping file, so names survive spec changes
+ * 3. the operationId
+ * 4. the summary, in snake_case (`List all pets` → `list_all_pets`)
+ * 5. the HTTP method and path (`GET /pets/{id}` → `get_pets_by_id`)
+ *
+ * Invalid characters become `_`, and names over 64 characters are cut and
+ * suffixed with a hash of the full name. When two operations end up with
+ * the same name, the one whose `METHOD path` sorts first keeps it and the
+ * others get `_2`, `_3`, ... Names in the mapping file are never given to
+ * another operation. Anything that predicts tool names (e.g. `diff`)
+ * uses the same assignment, so it agrees with what the server registers.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+export const MAX_TOOL_NAME_LENGTH = 64;
+
+const MAPPING_VERSION = 1;
+const MAX_SUMMARY_WORDS = 6;
+
+/**
+ * Key of an operation in name assignments and mapping files:
+ * `GET /pets/{id}`, prefixed with the API namespace when there is one
+ */
+export function operationKey(method, path, namespace = '') {
+  const key = `${method.toUpperCase()} ${path}`;
+  return namespace ? `${namespace}:${key}` : key;
+}
+
+/**
+ * Make a name valid for MCP clients: allowed characters only, at most
+ * 64 characters
+ */
+export function sanitizeToolName(name) {
+  const cleaned = String(name)
+    .replace(/[^a-zA-Z0-9_-]+/g, '_')
+    .replace(/_{2,}/g, '_')
+    .replace(/^[_-]+|[_-]+$/g, '');
+
+  if (cleaned.length <= MAX_TOOL_NAME_LENGTH) {
+    return cleaned || 'tool';
+  }
+
+  const hash = createHash('sha1').update(cleaned).digest('hex').slice(0, 6);
+  return `${cleaned.slice(0, MAX_TOOL_NAME_LENGTH - 7).replace(/[_-]+$/, '')}_${hash}`;
+}
+
+/**
+ * Name of the tool generated for an operation on its own, before
+ * collisions with other operations are resolved
+ */
+export function toolNameFor(method, path, operation = {}, extensions = {}) {
+  if (extensions.name) return sanitizeToolName(extensions.name);
+  if (operation.operationId) return sanitizeToolName(operation.operationId);
+
+  const fromSummary = snakeCase(operation.summary || '').split('_').slice(0, MAX_SUMMARY_WORDS).join('_');
+  if (fromSummary) return sanitizeToolName(fromSummary);
+
+  return sanitizeToolName(`${method.toLowerCase()}_${pathWords(path)}`);
+}
+
+/**
+ * Assign unique names to a set of operations. `operations` are
+ * `{ method, path, operation, extensions, namespace? }`; `mapping` is a
+ * previously emitted name mapping. Returns names by operation key.
+ */
+export function assignToolNames(operations, options = {}) {
+  const pinned = options.mapping?.tools || {};
+  const entries = operations
+    .map(entry => ({ ...entry, key: operationKey(entry.method, entry.path, entry.namespace) }))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+  const names = new Map();
+  const taken = new Set();
+  const claim = (entry, name) => {
+    names.set(entry.key, name);
+    taken.add(name);
+  };
+
+  // Explicit names first, then names pinned by the mapping file
+  for (const entry of entries) {
+    const name = entry.extensions?.name && sanitizeToolName(entry.extensions.name);
+    if (name && !taken.has(name)) claim(entry, name);
+  }
+  for (const entry of entries) {
+    const name = pinned[entry.key] && sanitizeToolName(pinned[entry.key]);
+    if (!names.has(entry.key) && name && !taken.has(name)) claim(entry, name);
+  }
+
+  // Names of operations no longer in the spec stay reserved
+  for (const name of Object.values(pinned)) {
+    if (name) taken.add(sanitizeToolName(name));
+  }
+
+  for (const entry of entries) {
+    if (names.has(entry.key)) continue;
+
+    const base = toolNameFor(entry.method, entry.path, entry.operation, entry.extensions);
+    let name = base;
+    for (let i = 2; taken.has(name); i++) {
+      const suffix = `_${i}`;
+      name = `${base.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length)}${suffix}`;
+    }
+    claim(entry, name);
+  }
+
+  return names;
+}
+
+/**
+ * Mapping file contents for assigned names, keys sorted so the file diffs cleanly
+ */
+export function toolNameMapping(names) {
+  const tools = Object.fromEntries([...names].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+  return { version: MAPPING_VERSION, tools };
+}
+
+/**
+ * Read a name mapping file. A missing file is an empty mapping.
+ */
+export function readToolNameMapping(file) {
+  if (!file || !existsSync(file)) {
+    return { version: MAPPING_VERSION, tools: {} };
+  }
+
+  const mapping = JSON.parse(readFileSync(file, 'utf8'));
+  if (!mapping || typeof mapping.tools !== 'object') {
+    throw new Error(`${file} is not a tool name mapping (expected a "tools" object)`);
+  }
+  return mapping;
+}
+
+/**
+ * Write the mapping for assigned names. Entries of operations that are not
+ * in `names` (e.g. removed from the spec) are kept, so a name is never
+ * handed to another operation and comes back if the operation does.
+ */
+export function writeToolNameMapping(file, names, previous = readToolNameMapping(file)) {
+  const merged = new Map([...Object.entries(previous.tools || {}), ...names]);
+  const mapping = toolNameMapping(merged);
+  writeFileSync(file, `${JSON.stringify(mapping, null, 2)}\n`);
+  return mapping;
+}
+
+function snakeCase(text) {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+// /pets/{petId}/toys → pets_by_pet_id_toys
+function pathWords(path) {
+  return path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => {
+      const param = segment.match(/^\{(.+)\}$/);
+      return param ? `by_${snakeCase(param[1])}` : snakeCase(segment);
+    })
+    .filter(Boolean)
+    .join('_') || 'root';
+}
@@ -0,0 +1,11 @@
+/**
+ * Type declarations for traffic-importer.js
+ */
+
+export function isPostmanCollection(document: any): boolean;
+export function isHar(document: any): boolean;
+export function importTraffic(document: any): any;
+export function importPostmanCollection(collection: any): any;
+export function importHar(har: any): any;
+export function inferSchema(value: any): any;
+export function mergeSchemas(a: any, b: any): any;
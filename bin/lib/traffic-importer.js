@@ -0,0 +1,736 @@
+/**
+ * Postman collection and HAR import
+ *
+ * Builds an OpenAPI 3.1 document from recorded traffic for APIs that ship
+ * no spec:
+ * - Postman v2.1 collections (requests, saved example responses, variables, auth)
+ * - HAR captures from browser dev tools or proxies
+ *
+ * Everything is inferred from what was observed:
+ * - path templates from Postman path variables, ID-looking segments and
+ *   URLs that only differ in one segment
+ * - parameter types from the values seen (integer, number, boolean, uuid, date...)
+ * - request and response schemas from sample JSON bodies, merged across samples
+ */
+
+const STATIC_ASSET = /\.(js|mjs|css|png|jpe?g|gif|svg|ico|webp|woff2?|ttf|eot|map|html?)$/i;
+const NON_API_MIME = /^(image|font|audio|video)\/|text\/(css|html|javascript)|javascript/i;
+
+// Headers every client sends; they don't describe the API
+const STANDARD_HEADERS = new Set([
+  'accept', 'accept-encoding', 'accept-language', 'authorization', 'cache-control',
+  'connection', 'content-length', 'content-type', 'cookie', 'host', 'origin', 'pragma',
+  'referer', 'user-agent', 'postman-token', 'te', 'upgrade-insecure-requests', 'dnt',
+  'if-none-match', 'if-modified-since', 'priority'
+]);
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URI = /^https?:\/\/\S+$/;
+
+/**
+ * Check whether a parsed document is a Postman v2.x collection
+ */
+export function isPostmanCollection(document) {
+  return !!document && typeof document === 'object' && Array.isArray(document.item) &&
+    (String(document.info?.schema || '').includes('getpostman.com') || !!document.info?._postman_id);
+}
+
+/**
+ * Check whether a parsed document is a HAR capture
+ */
+export function isHar(document) {
+  return !!document && typeof document === 'object' && Array.isArray(document.log?.entries);
+}
+
+/**
+ * Convert a Postman collection or HAR capture to OpenAPI. Other documents
+ * are returned untouched.
+ */
+export function importTraffic(document) {
+  if (isPostmanCollection(document)) return importPostmanCollection(document);
+  if (isHar(document)) return importHar(document);
+  return document;
+}
+
+/**
+ * Build an OpenAPI document from a Postman v2.1 collection
+ */
+export function importPostmanCollection(collection) {
+  const variables = Object.fromEntries(
+    (collection.variable || []).map(variable => [variable.key, variable.value])
+  );
+  const samples = [];
+
+  const visit = (items, folders, inheritedAuth) => {
+    for (const item of items || []) {
+      const auth = item.auth || inheritedAuth;
+
+      if (Array.isArray(item.item)) {
+        visit(item.item, [...folders, item.name], auth);
+        continue;
+      }
+      if (!item.request) continue;
+
+      const request = typeof item.request === 'string' ? { url: item.request, method: 'GET' } : item.request;
+      const base = {
+        name: item.name,
+        description: typeof request.description === 'string' ? request.description : request.description?.content,
+        tags: folders.length > 0 ? [folders[folders.length - 1]] : undefined,
+        auth: request.auth || auth
+      };
+
+      const responses = item.response || [];
+      if (responses.length === 0) {
+        samples.push({ ...base, ...postmanRequest(request, variables) });
+      }
+      for (const response of responses) {
+        const original = response.originalRequest || request;
+        samples.push({
+          ...base,
+          ...postmanRequest(original, variables),
+          response: {
+            status: response.code || 200,
+            statusText: response.status,
+            headers: (response.header || []).map(h => ({ name: h.key, value: h.value })),
+            mimeType: headerValue(response.header || [], 'content-type', 'key') ||
+              (response._postman_previewlanguage === 'json' ? 'application/json' : undefined),
+            text: response.body
+          }
+        });
+      }
+    }
+  };
+
+  visit(collection.item, [], collection.auth);
+
+  return buildSpec(samples, {
+    title: collection.info?.name || 'Imported Postman collection',
+    description: typeof collection.info?.description === 'string'
+      ? collection.info.description
+      : collection.info?.description?.content,
+    version: collection.info?.version?.toString() || '1.0.0'
+  });
+}
+
+/**
+ * Build an OpenAPI document from a HAR capture. Static assets and page
+ * loads are skipped so only API traffic is described.
+ */
+export function importHar(har) {
+  const samples = [];
+
+  for (const entry of har.log.entries) {
+    const { request, response } = entry;
+    if (!request?.url) continue;
+
+    const url = new URL(request.url);
+    const mimeType = response?.content?.mimeType || '';
+    if (STATIC_ASSET.test(url.pathname) || NON_API_MIME.test(mimeType)) continue;
+
+    let responseText = response?.content?.text;
+    if (responseText && response.content.encoding === 'base64') {
+      responseText = Buffer.from(responseText, 'base64').toString('utf-8');
+    }
+
+    samples.push({
+      method: request.method,
+      origin: url.origin,
+      segments: splitPath(url.pathname).map(value => ({ value })),
+      query: (request.queryString || []).map(q => ({ name: q.name, value: q.value })),
+      headers: request.headers || [],
+      body: request.postData && {
+        mimeType: request.postData.mimeType,
+        text: request.postData.text,
+        params: request.postData.params
+      },
+      response: response && {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers || [],
+        mimeType,
+        text: responseText
+      }
+    });
+  }
+
+  return buildSpec(samples, {
+    title: har.log.pages?.[0]?.title || 'Imported HAR capture',
+    version: '1.0.0'
+  });
+}
+
+function postmanRequest(request, variables) {
+  const url = typeof request.url === 'string' ? parsePostmanUrl(request.url) : request.url || {};
+  const raw = substitute(url.raw || '', variables);
+  const pathVariables = Object.fromEntries((url.variable || []).map(v => [v.key, v.value]));
+
+  // Origin: explicit protocol/host parts, else whatever precedes the path in the raw URL
+  let origin;
+  if (Array.isArray(url.host) && url.host.length > 0) {
+    const host = substitute(url.host.join('.'), variables);
+    origin = /^[a-z]+:\/\//i.test(host) || /^\{\{[^}]+\}\}$/.test(host)
+      ? host.replace(/\/+$/, '')
+      : `${url.protocol || 'https'}://${host}${url.port ? `:${url.port}` : ''}`;
+  } else {
+    origin = raw.match(/^([a-z]+:\/\/[^/?#]+)/i)?.[1] || '';
+  }
+
+  // The host may itself carry a base path ({{baseUrl}} = https://api.example.com/v1)
+  const originMatch = origin.match(/^([a-z]+:\/\/[^/]+)(\/.*)?$/i);
+  const basePath = originMatch?.[2] ? splitPath(originMatch[2]) : [];
+  if (originMatch) origin = originMatch[1];
+
+  const pathParts = Array.isArray(url.path) ? url.path : splitPath(String(url.path || ''));
+  const segments = [...basePath, ...pathParts].map(part => {
+    const segment = typeof part === 'string' ? part : part?.value ?? '';
+    const variable = segment.match(/^:(.+)$/) || segment.match(/^\{\{(.+)\}\}$/);
+    if (variable) {
+      const name = variable[1];
+      return { value: pathVariables[name] ?? variables[name] ?? '', param: name };
+    }
+    return { value: substitute(segment, variables) };
+  });
+
+  const headers = (request.header || [])
+    .filter(h => !h.disabled)
+    .map(h => ({ name: h.key, value: substitute(String(h.value ?? ''), variables) }));
+
+  return {
+    method: request.method || 'GET',
+    origin,
+    segments,
+    query: (url.query || [])
+      .filter(q => !q.disabled && q.key)
+      .map(q => ({ name: q.key, value: substitute(String(q.value ?? ''), variables) })),
+    headers,
+    body: postmanBody(request.body, headers, variables)
+  };
+}
+
+function parsePostmanUrl(raw) {
+  const [withoutQuery, queryString = ''] = raw.split('?');
+  const match = withoutQuery.match(/^((?:[a-z]+:\/\/)?(?:\{\{[^}]+\}\}|[^/]+))(\/.*)?$/i);
+  return {
+    raw,
+    host: match ? [match[1]] : [],
+    path: splitPath(match?.[2] || ''),
+    query: queryString.split('&').filter(Boolean).map(pair => {
+      const [key, value = ''] = pair.split('=');
+      return { key: decodeURIComponent(key), value: decodeURIComponent(value) };
+    })
+  };
+}
+
+function postmanBody(body, headers, variables) {
+  if (!body || body.disabled) return undefined;
+
+  switch (body.mode) {
+    case 'raw': {
+      const language = body.options?.raw?.language;
+      const mimeType = headerValue(headers, 'content-type') ||
+        (language === 'json' || /^\s*[{[]/.test(body.raw || '') ? 'application/json' : 'text/plain');
+      return { mimeType, text: substitute(body.raw || '', variables) };
+    }
+    case 'urlencoded':
+      return {
+        mimeType: 'application/x-www-form-urlencoded',
+        params: (body.urlencoded || []).filter(p => !p.disabled).map(p => ({ name: p.key, value: p.value }))
+      };
+    case 'formdata':
+      return {
+        mimeType: 'multipart/form-data',
+        params: (body.formdata || []).filter(p => !p.disabled).map(p => ({
+          name: p.key,
+          value: p.value,
+          fileName: p.type === 'file' ? p.src || 'file' : undefined
+        }))
+      };
+    case 'graphql':
+      return {
+        mimeType: 'application/json',
+        text: JSON.stringify({ query: body.graphql?.query, variables: safeJson(body.graphql?.variables) })
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Turn samples into an OpenAPI document: template paths, then group by
+ * operation and infer parameters, bodies and responses
+ */
+function buildSpec(samples, info) {
+  const templates = inferTemplates(samples);
+  const operations = new Map();
+
+  samples.forEach((sample, index) => {
+    const template = templates[index];
+    const method = sample.method.toLowerCase();
+    const key = `${method} ${template.path}`;
+    if (!operations.has(key)) {
+      operations.set(key, { method, template, samples: [] });
+    }
+    operations.get(key).samples.push(sample);
+  });
+
+  const spec = {
+    openapi: '3.1.0',
+    info: Object.fromEntries(Object.entries(info).filter(([, value]) => value !== undefined)),
+    servers: inferServers(samples),
+    paths: {}
+  };
+
+  const securitySchemes = {};
+  const operationIds = new Set();
+
+  for (const { method, template, samples: operationSamples } of operations.values()) {
+    const first = operationSamples[0];
+    const operation = {};
+
+    if (first.name) {
+      operation.summary = first.name;
+      operation.operationId = uniqueOperationId(toOperationId(first.name), operationIds);
+    } else {
+      operation.summary = `${method.toUpperCase()} ${template.path}`;
+    }
+    if (first.description) operation.description = first.description;
+
+    const tags = first.tags || (template.firstStatic ? [template.firstStatic] : undefined);
+    if (tags) operation.tags = tags;
+
+    const parameters = [
+      ...template.params.map(param => ({
+        name: param.name,
+        in: 'path',
+        required: true,
+        schema: inferValueSchema(operationSamples.map(s => s.segments[param.index]?.value))
+      })),
+      ...inferNamedParameters(operationSamples, 'query', s => s.query),
+      ...inferNamedParameters(operationSamples, 'header', s =>
+        s.headers.filter(h => !STANDARD_HEADERS.has(h.name.toLowerCase()) &&
+          !h.name.startsWith(':') && !h.name.toLowerCase().startsWith('sec-') &&
+          !isCredentialHeader(h.name)))
+    ];
+    if (parameters.length > 0) operation.parameters = parameters;
+
+    const requestBody = inferRequestBody(operationSamples);
+    if (requestBody) operation.requestBody = requestBody;
+
+    operation.responses = inferResponses(operationSamples);
+
+    const security = inferSecurity(operationSamples, securitySchemes);
+    if (security) operation.security = security;
+
+    spec.paths[template.path] = spec.paths[template.path] || {};
+    spec.paths[template.path][method] = operation;
+  }
+
+  if (Object.keys(securitySchemes).length > 0) {
+    spec.components = { securitySchemes };
+  }
+
+  return spec;
+}
+
+/**
+ * Work out the path template of every sample. A segment becomes a
+ * parameter when it is a Postman variable, looks like an ID, or is the only
+ * segment that differs between otherwise identical URLs (with digits in the
+ * values, or three or more values followed by a common suffix).
+ */
+function inferTemplates(samples) {
+  const shapes = samples.map(sample => sample.segments.map(segment =>
+    segment.param ? { param: segment.param } : isIdLike(segment.value) ? { param: true } : { literal: segment.value }
+  ));
+
+  // Merge literal segments that vary between otherwise identical paths
+  const byLength = new Map();
+  shapes.forEach((shape, index) => {
+    byLength.set(shape.length, [...(byLength.get(shape.length) || []), index]);
+  });
+
+  for (const indices of byLength.values()) {
+    const length = shapes[indices[0]].length;
+
+    for (let position = 0; position < length; position++) {
+      const groups = new Map();
+      for (const index of indices) {
+        const shape = shapes[index];
+        if (shape[position].literal === undefined) continue;
+        const key = shape.map((segment, i) => i === position ? '*' : segmentKey(segment)).join('/');
+        groups.set(key, [...(groups.get(key) || []), index]);
+      }
+
+      for (const members of groups.values()) {
+        const values = new Set(members.map(index => shapes[index][position].literal));
+        const hasSuffix = position < length - 1;
+        const varies = values.size >= 2 &&
+          ([...values].some(value => /\d/.test(value)) || (values.size >= 3 && hasSuffix));
+
+        // The first segment is never a parameter; collection names
+        // (`/api/users` vs `/api/orders`) don't satisfy `varies`
+        if (varies && position > 0) {
+          for (const index of members) {
+            shapes[index][position] = { param: true };
+          }
+        }
+      }
+    }
+  }
+
+  return shapes.map(shape => {
+    const params = [];
+    const used = new Set();
+    const parts = shape.map((segment, index) => {
+      if (segment.literal !== undefined) return segment.literal;
+
+      let name = typeof segment.param === 'string' ? segment.param : paramNameFor(shape, index);
+      for (let i = 2; used.has(name); i++) {
+        name = `${typeof segment.param === 'string' ? segment.param : paramNameFor(shape, index)}${i}`;
+      }
+      used.add(name);
+      params.push({ name, index });
+      return `{${name}}`;
+    });
+
+    return {
+      path: `/${parts.join('/')}`,
+      params,
+      firstStatic: shape.find(segment => segment.literal !== undefined && !/^v\d+$/i.test(segment.literal) && segment.literal !== 'api')?.literal
+    };
+  });
+}
+
+function segmentKey(segment) {
+  return segment.literal !== undefined ? `=${segment.literal}` : '{}';
+}
+
+function paramNameFor(shape, index) {
+  const previous = shape[index - 1]?.literal;
+  if (!previous) return 'id';
+  const singular = previous.replace(/ies$/, 'y').replace(/([^s])s$/, '$1');
+  return `${toCamelCase(singular)}Id`;
+}
+
+function isIdLike(value) {
+  return /^\d+$/.test(value) || UUID.test(value) ||
+    /^[0-9a-f]{16,}$/i.test(value) ||
+    (value.length >= 10 && /\d/.test(value) && /[a-z]/i.test(value) && /^[\w-]+$/.test(value));
+}
+
+function inferServers(samples) {
+  const counts = new Map();
+  for (const sample of samples) {
+    if (sample.origin) counts.set(sample.origin, (counts.get(sample.origin) || 0) + 1);
+  }
+
+  const origins = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([origin]) => origin);
+  return origins.length > 0 ? origins.map(url => serverFor(url)) : [{ url: '/' }];
+}
+
+function serverFor(url) {
+  // Unresolved Postman variables become server variables
+  const variables = {};
+  const templated = url.replace(/\{\{([^}]+)\}\}/g, (_match, name) => {
+    variables[name] = { default: 'http://localhost' };
+    return `{${name}}`;
+  });
+  return Object.keys(variables).length > 0 ? { url: templated, variables } : { url };
+}
+
+function inferNamedParameters(samples, location, select) {
+  const observed = new Map();
+  for (const sample of samples) {
+    const seen = new Set();
+    for (const { name, value } of select(sample)) {
+      const key = location === 'header' ? name.toLowerCase() : name;
+      if (!observed.has(key)) observed.set(key, { name, values: [], count: 0 });
+      const entry = observed.get(key);
+      entry.values.push(value);
+      if (!seen.has(key)) {
+        entry.count++;
+        seen.add(key);
+      }
+    }
+  }
+
+  return [...observed.values()].map(({ name, values, count }) => {
+    const parameter = {
+      name,
+      in: location,
+      required: count === samples.length && samples.length > 1,
+      schema: inferValueSchema(values)
+    };
+    if (values.length > 0 && values[0] !== '') {
+      parameter.example = coerce(values[0], parameter.schema);
+    }
+    return parameter;
+  });
+}
+
+/**
+ * Schema of a parameter from the raw string values seen for it
+ */
+function inferValueSchema(values) {
+  const present = values.filter(value => value !== undefined && value !== '');
+  if (present.length === 0) return { type: 'string' };
+
+  if (present.every(value => /^-?\d+$/.test(value))) return { type: 'integer' };
+  if (present.every(value => /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value))) return { type: 'number' };
+  if (present.every(value => /^(true|false)$/i.test(value))) return { type: 'boolean' };
+
+  const format = commonFormat(present);
+  return format ? { type: 'string', format } : { type: 'string' };
+}
+
+function inferRequestBody(samples) {
+  const bodies = samples.map(sample => sample.body).filter(body => body && (body.text || body.params?.length));
+  if (bodies.length === 0) return undefined;
+
+  const content = {};
+  for (const body of bodies) {
+    const mimeType = (body.mimeType || 'application/octet-stream').split(';')[0].trim();
+    const schema = bodySchema(body);
+    const media = content[mimeType] || (content[mimeType] = {});
+    media.schema = mergeSchemas(media.schema, schema);
+    if (media.example === undefined) {
+      const example = bodyExample(body);
+      if (example !== undefined) media.example = example;
+    }
+  }
+
+  return {
+    required: bodies.length === samples.length,
+    content
+  };
+}
+
+function bodySchema(body) {
+  if (body.params?.length) {
+    return {
+      type: 'object',
+      properties: Object.fromEntries(body.params.map(param => [
+        param.name,
+        param.fileName ? { type: 'string', format: 'binary' } : inferValueSchema([param.value])
+      ]))
+    };
+  }
+
+  const json = safeJson(body.text);
+  return json !== undefined ? inferSchema(json) : { type: 'string' };
+}
+
+function bodyExample(body) {
+  if (body.params?.length) return undefined;
+  const json = safeJson(body.text);
+  return json !== undefined && JSON.stringify(json).length <= 4096 ? json : undefined;
+}
+
+function inferResponses(samples) {
+  const responses = {};
+
+  for (const sample of samples) {
+    if (!sample.response?.status) continue;
+    const status = String(sample.response.status);
+    const response = responses[status] || (responses[status] = {
+      description: sample.response.statusText || statusDescription(status)
+    });
+
+    const text = sample.response.text;
+    if (!text) continue;
+
+    const mimeType = (sample.response.mimeType || (safeJson(text) !== undefined ? 'application/json' : 'text/plain'))
+      .split(';')[0].trim();
+    const json = safeJson(text);
+    const content = response.content || (response.content = {});
+    const media = content[mimeType] || (content[mimeType] = {});
+
+    media.schema = mergeSchemas(media.schema, json !== undefined ? inferSchema(json) : { type: 'string' });
+    if (media.example === undefined && json !== undefined && text.length <= 4096) {
+      media.example = json;
+    }
+  }
+
+  if (Object.keys(responses).length === 0) {
+    responses['200'] = { description: 'Successful response' };
+  }
+
+  return responses;
+}
+
+function inferSecurity(samples, securitySchemes) {
+  const names = new Set();
+
+  for (const sample of samples) {
+    const auth = sample.auth;
+    const authorization = headerValue(sample.headers, 'authorization');
+
+    if (auth?.type === 'bearer' || /^bearer\s/i.test(authorization || '')) {
+      securitySchemes.bearerAuth = { type: 'http', scheme: 'bearer' };
+      names.add('bearerAuth');
+    } else if (auth?.type === 'basic' || /^basic\s/i.test(authorization || '')) {
+      securitySchemes.basicAuth = { type: 'http', scheme: 'basic' };
+      names.add('basicAuth');
+    } else if (auth?.type === 'apikey') {
+      const settings = Object.fromEntries((auth.apikey || []).map(entry => [entry.key, entry.value]));
+      securitySchemes.apiKeyAuth = { type: 'apiKey', name: settings.key || 'X-API-Key', in: settings.in || 'header' };
+      names.add('apiKeyAuth');
+    } else if (auth?.type === 'oauth2') {
+      securitySchemes.oauth2 = { type: 'oauth2', flows: { clientCredentials: { tokenUrl: '/oauth/token', scopes: {} } } };
+      names.add('oauth2');
+    }
+
+    const apiKeyHeader = sample.headers.find(h => isCredentialHeader(h.name));
+    if (apiKeyHeader) {
+      securitySchemes.apiKeyAuth = { type: 'apiKey', name: apiKeyHeader.name, in: 'header' };
+      names.add('apiKeyAuth');
+    }
+  }
+
+  return names.size > 0 ? [...names].map(name => ({ [name]: [] })) : undefined;
+}
+
+function isCredentialHeader(name) {
+  return /^x-(api-?key|auth-token|access-token)$/i.test(name);
+}
+
+/**
+ * JSON Schema (2020-12) describing a sample value
+ */
+export function inferSchema(value) {
+  if (value === null) return { type: 'null' };
+
+  if (Array.isArray(value)) {
+    const items = value.reduce((merged, item) => mergeSchemas(merged, inferSchema(item)), undefined);
+    return items ? { type: 'array', items } : { type: 'array', items: {} };
+  }
+
+  switch (typeof value) {
+    case 'object':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(value).map(([key, item]) => [key, inferSchema(item)])),
+        required: Object.keys(value)
+      };
+    case 'number':
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    default: {
+      const format = commonFormat([value]);
+      return format ? { type: 'string', format } : { type: 'string' };
+    }
+  }
+}
+
+/**
+ * Merge two inferred schemas so the result accepts samples of both
+ */
+export function mergeSchemas(a, b) {
+  if (!a) return b;
+  if (!b) return a;
+
+  let types = [...new Set([...typeList(a), ...typeList(b)])];
+  if (types.includes('number')) types = types.filter(type => type !== 'integer');
+  types.sort((x, y) => Number(x === 'null') - Number(y === 'null'));
+
+  const merged = { type: types.length === 1 ? types[0] : types };
+
+  if (a.format && a.format === b.format) merged.format = a.format;
+  else if (a.format && !typeList(b).includes('string')) merged.format = a.format;
+  else if (b.format && !typeList(a).includes('string')) merged.format = b.format;
+
+  if (a.properties || b.properties) {
+    const properties = {};
+    for (const key of new Set([...Object.keys(a.properties || {}), ...Object.keys(b.properties || {})])) {
+      properties[key] = mergeSchemas(a.properties?.[key], b.properties?.[key]);
+    }
+    merged.properties = properties;
+
+    // Only fields present in every sample object are required
+    const required = a.properties && b.properties
+      ? (a.required || []).filter(key => (b.required || []).includes(key))
+      : (a.properties ? a.required : b.required) || [];
+    if (required.length > 0) merged.required = required;
+  }
+
+  if (a.items || b.items) {
+    merged.items = a.items && b.items && Object.keys(a.items).length > 0 && Object.keys(b.items).length > 0
+      ? mergeSchemas(a.items, b.items)
+      : (Object.keys(a.items || {}).length > 0 ? a.items : b.items);
+  }
+
+  return merged;
+}
+
+function typeList(schema) {
+  if (schema.type === undefined) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function commonFormat(values) {
+  const formats = [
+    ['uuid', UUID], ['date-time', DATE_TIME], ['date', DATE], ['email', EMAIL], ['uri', URI]
+  ];
+  return formats.find(([, pattern]) => values.every(value => pattern.test(String(value))))?.[0];
+}
+
+function coerce(value, schema) {
+  if (schema.type === 'integer' || schema.type === 'number') return Number(value);
+  if (schema.type === 'boolean') return /^true$/i.test(value);
+  return value;
+}
+
+function headerValue(headers, name, nameKey = 'name') {
+  return headers.find(header => String(header[nameKey] ?? header.key ?? '').toLowerCase() === name)?.value;
+}
+
+function substitute(text, variables) {
+  return text.replace(/\{\{([^}]+)\}\}/g, (match, name) =>
+    variables[name] !== undefined ? String(variables[name]) : match
+  );
+}
+
+function splitPath(path) {
+  return path.split('/').filter(Boolean);
+}
+
+function safeJson(text) {
+  if (typeof text !== 'string' || !/^\s*[{["\d-tfn]/.test(text)) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function toCamelCase(text) {
+  return text
+    .replace(/[^a-zA-Z0-9]+(.)?/g, (_match, char) => (char ? char.toUpperCase() : ''))
+    .replace(/^[A-Z]/, char => char.toLowerCase());
+}
+
+function toOperationId(name) {
+  return toCamelCase(name) || 'operation';
+}
+
+function uniqueOperationId(base, used) {
+  let id = base;
+  for (let i = 2; used.has(id); i++) {
+    id = `${base}${i}`;
+  }
+  used.add(id);
+  return id;
+}
+
+function statusDescription(status) {
+  const descriptions = {
+    200: 'OK', 201: 'Created', 202: 'Accepted', 204: 'No Content', 400: 'Bad Request',
+    401: 'Unauthorized', 403: 'Forbidden', 404: 'Not Found', 409: 'Conflict',
+    422: 'Unprocessable Entity', 429: 'Too Many Requests', 500: 'Internal Server Error'
+  };
+  return descriptions[status] || `Status ${status}`;
+}
@@ -2,32 +2,116 @@
 
 /**
  * Simplified OpenAPI MCP Server
- * A basic implementation that works immediately without complex builds
+ * A basic implementation that works immediately without complex builds.
+ * AsyncAPI documents are served as message channels.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import axios from 'axios';
-import { load } from 'js-yaml';
-import { readFile } from 'fs/promises';
-import { resolve } from 'path';
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  RootsListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { loadSpec as loadSpecSource } from './lib/spec-loader.js';
+import {
+  readMCPExtensions,
+  applyHiddenParams,
+  CONFIRM_ARGUMENT
+} from './lib/mcp-extensions.js';
+import {
+  assignToolNames,
+  operationKey,
+  readToolNameMapping,
+  writeToolNameMapping
+} from './lib/tool-names.js';
+import { buildToolInput, splitToolArguments } from './lib/input-schema.js';
+import { buildHttpRequest, followUpRequest, sendHttpRequest, toToolResult } from './lib/http-client.js';
+import {
+  findCrudResources,
+  composeCrudTools,
+  routeCompositeCall,
+  ACTION_ARGUMENT
+} from './lib/composite-tools.js';
+import {
+  hasLinks,
+  followLinkTool,
+  nextCalls,
+  linkContext,
+  LinkedResults,
+  FOLLOW_LINK_TOOL
+} from './lib/links.js';
+import {
+  detectPagination,
+  paginationProperties,
+  fetchAllPages,
+  PAGINATION_ARGUMENTS
+} from './lib/pagination.js';
+import {
+  isLongRunning,
+  waitProperties,
+  jobStatusTool,
+  statusCheckFor,
+  pollJob,
+  firstPollDelay,
+  JobStore,
+  WAIT_ARGUMENTS,
+  JOB_STATUS_TOOL
+} from './lib/long-running.js';
+import { detectUpload, applyFileArguments, encodeUpload, FileRoots } from './lib/file-upload.js';
+import { toolAnnotations, deprecatedDescription } from './lib/tool-annotations.js';
+import { responseOutput } from './lib/output-schema.js';
+import {
+  SHAPING_ARGUMENTS,
+  RESPONSE_URI_PREFIX,
+  returnsJson,
+  shapingProperties,
+  checkShapingArguments,
+  shapeResponse,
+  ResponseStash
+} from './lib/response-shaping.js';
+import {
+  SEARCH_ENDPOINTS_TOOL,
+  DESCRIBE_ENDPOINT_TOOL,
+  CALL_ENDPOINT_TOOL,
+  EndpointCatalog,
+  metaTools
+} from './lib/meta-tools.js';
+import { isAsyncAPI, readAsyncAPI } from './lib/asyncapi.js';
+import { createBroker, MessageChannelHub } from './lib/message-channels.js';
 
 // Get OpenAPI spec URL from command line
 const specUrl = process.argv[2] || 'https://petstore3.swagger.io/api/v3/openapi.json';
 
+// Send calls somewhere other than the spec's servers (e.g. a local stub)
+const baseUrl = process.env.OPENAPI_BASE_URL;
+
+// Tool name mapping file, read to keep names stable and updated on start
+const toolNamesFile = process.env.OPENAPI_TOOL_NAMES;
+
+// One manage_<resource> tool per CRUD resource instead of one tool per endpoint
+const compositeTools = ['1', 'true'].includes(process.env.OPENAPI_COMPOSITE_TOOLS || '');
+
+// Only search_endpoints, describe_endpoint and call_endpoint, for large APIs
+const useMetaTools = ['1', 'true'].includes(process.env.OPENAPI_META_TOOLS || '');
+
+// Comma-separated directories (paths or file:// URIs) uploads may read
+// files from, besides the client's roots
+const fileRootList = (process.env.OPENAPI_FILE_ROOTS || '').split(',').map(root => root.trim()).filter(Boolean);
+
+// Default byte budget of response bodies; larger ones are truncated
+const defaultMaxBytes = Number(process.env.OPENAPI_MAX_BYTES) || undefined;
+
 console.error(`Loading OpenAPI spec from: ${specUrl}`);
 
 async function loadSpec(url) {
   try {
-    if (url.startsWith('http://') || url.startsWith('https://')) {
-      const response = await axios.get(url);
-      return response.data;
-    } else {
-      const content = await readFile(resolve(process.cwd(), url), 'utf-8');
-      return url.endsWith('.yaml') || url.endsWith('.yml') 
-        ? load(content)
-        : JSON.parse(content);
-    }
+    return await loadSpecSource(url);
   } catch (error) {
     console.error('Failed to load OpenAPI spec:', error.message);
     throw error;
@@ -40,6 +124,11 @@ async function main() {
     const spec = await loadSpec(specUrl);
     console.error(`Loaded API: ${spec.info.title} v${spec.info.version}`);
     
+    if (isAsyncAPI(spec)) {
+      await serveAsyncAPI(spec);
+      return;
+    }
+    
     // Create MCP server
     const server = new Server({
       name: `${spec.info.title} (OpenAPI)`,
@@ -47,43 +136,295 @@ async function main() {
     }, {
       capabilities: {
         tools: {},
-        resources: {}
+        resources: { listChanged: true }
       }
     });
     
-    // Generate tools from paths
-    const tools = [];
+    // Collect operations, honoring x-mcp-* extensions
+    const candidates = [];
     for (const [path, pathItem] of Object.entries(spec.paths || {})) {
       for (const [method, operation] of Object.entries(pathItem)) {
         if (['get', 'post', 'put', 'delete', 'patch'].includes(method) && typeof operation === 'object') {
-          const toolName = operation.operationId || 
-            `${method}_${path.replace(/[{}]/g, '').replace(/[^a-zA-Z0-9]/g, '_')}`;
-          
-          tools.push({
-            name: toolName,
-            description: operation.summary || `${method.toUpperCase()} ${path}`,
-            inputSchema: {
-              type: 'object',
-              properties: {
-                parameters: {
-                  type: 'object',
-                  description: 'Path and query parameters'
-                },
-                body: {
-                  type: 'object',
-                  description: 'Request body (for POST/PUT/PATCH)'
-                }
-              }
+          const mcp = readMCPExtensions(operation, pathItem);
+          if (!mcp.exclude) {
+            candidates.push({ path, pathItem, method, operation, extensions: mcp });
+          }
+        }
+      }
+    }
+    
+    // Unique, MCP-safe names that stay put across spec versions
+    const toolNames = assignToolNames(candidates, { mapping: readToolNameMapping(toolNamesFile) });
+    if (toolNamesFile) {
+      writeToolNameMapping(toolNamesFile, toolNames);
+    }
+    
+    // Generate tools
+    const tools = [];
+    const operationResources = [];
+    const operations = new Map();
+    for (const { path, pathItem, method, operation, extensions: mcp } of candidates) {
+      const toolName = toolNames.get(operationKey(method, path));
+      const description = deprecatedDescription(
+        mcp.description || operation.summary || `${method.toUpperCase()} ${path}`,
+        operation
+      );
+      
+      // Paginated GETs can fetch every page in one call
+      const pagination = method === 'get' ? detectPagination(operation, pathItem.parameters) : undefined;
+      // Operations answering 202 Accepted can wait for their job
+      const longRunning = isLongRunning(operation);
+      // JSON responses can be projected, selected from and size-capped
+      const shapeable = returnsJson(operation);
+      
+      // One named argument per parameter and (small) body field
+      const input = buildToolInput(operation, {
+        pathParameters: pathItem.parameters,
+        extensions: mcp,
+        spec,
+        reserved: [
+          ...(mcp.confirm ? [CONFIRM_ARGUMENT] : []),
+          ...(compositeTools ? [ACTION_ARGUMENT] : []),
+          ...(pagination ? PAGINATION_ARGUMENTS : []),
+          ...(longRunning ? WAIT_ARGUMENTS : []),
+          ...(shapeable ? SHAPING_ARGUMENTS : [])
+        ]
+      });
+      
+      // Multipart and binary bodies take file references instead of files
+      const upload = input.body.contentType && detectUpload(operation, input.body.contentType);
+      if (upload) {
+        applyFileArguments(input, upload);
+      }
+      
+      // The success response's schema describes the tool's structured output
+      const output = responseOutput(operation, spec);
+      
+      operations.set(toolName, {
+        path, method, operation, pathItem, mcp, input, pagination, longRunning, shapeable, upload, output
+      });
+      
+      if (mcp.kind === 'resource') {
+        operationResources.push({
+          uri: `operation://${toolName}`,
+          name: toolName,
+          description,
+          mimeType: 'application/json'
+        });
+        continue;
+      }
+      
+      // Normalized JSON Schema, so nullable and tuple types reach the model
+      const inputSchema = input.inputSchema;
+      
+      if (mcp.confirm) {
+        inputSchema.properties[CONFIRM_ARGUMENT] = {
+          type: 'boolean',
+          description: 'Must be true. Confirm with the user before calling this tool.'
+        };
+        inputSchema.required = [...(inputSchema.required || []), CONFIRM_ARGUMENT];
+      }
+      
+      if (pagination) {
+        Object.assign(inputSchema.properties, paginationProperties());
+      }
+      if (longRunning) {
+        Object.assign(inputSchema.properties, waitProperties());
+      }
+      if (shapeable) {
+        Object.assign(inputSchema.properties, shapingProperties(defaultMaxBytes));
+      }
+      
+      tools.push({
+        name: toolName,
+        description: mcp.confirm ? `${description} (requires confirmation)` : description,
+        inputSchema,
+        ...(output && { outputSchema: output.schema }),
+        annotations: toolAnnotations(method, operation, mcp)
+      });
+    }
+    
+    // Composite tools replace the tools of their actions in the list; those
+    // stay callable by name
+    const composites = new Map();
+    let listedTools = tools;
+    if (compositeTools) {
+      const byName = new Map(tools.map(tool => [tool.name, tool]));
+      const endpoints = candidates.map(entry => ({
+        ...entry,
+        toolName: toolNames.get(operationKey(entry.method, entry.path))
+      }));
+      const { tools: composed, covered } = composeCrudTools(
+        findCrudResources(endpoints.filter(entry => byName.has(entry.toolName))),
+        entry => byName.get(entry.toolName),
+        byName.keys()
+      );
+      composed.forEach(tool => composites.set(tool.name, tool));
+      listedTools = [...composed, ...tools.filter(tool => !covered.has(tool.name))];
+      console.error(`Combined ${covered.size} tools into ${composed.length} composite tools`);
+    }
+    
+    // Names for the server's own tools that no endpoint tool has taken
+    const callable = new Map([...operations].filter(([, entry]) => entry.mcp.kind !== 'resource'));
+    const freeToolName = base => {
+      let name = base;
+      for (let i = 2; operations.has(name) || listedTools.some(tool => tool.name === name); i++) {
+        name = `${base}_${i}`;
+      }
+      return name;
+    };
+    
+    // Meta tools stand in for all the endpoint tools, which stay callable
+    // by name
+    let meta;
+    let catalog;
+    if (useMetaTools) {
+      catalog = new EndpointCatalog(tools.map(tool => {
+        const { method, path, operation, mcp } = operations.get(tool.name);
+        return {
+          id: tool.name,
+          method,
+          path,
+          operationId: operation.operationId,
+          summary: operation.summary,
+          description: mcp.description || operation.description,
+          tags: operation.tags,
+          deprecated: operation.deprecated,
+          inputSchema: tool.inputSchema,
+          outputSchema: tool.outputSchema,
+          annotations: tool.annotations
+        };
+      }));
+      meta = metaTools(catalog, {
+        search: freeToolName(SEARCH_ENDPOINTS_TOOL),
+        describe: freeToolName(DESCRIBE_ENDPOINT_TOOL),
+        call: freeToolName(CALL_ENDPOINT_TOOL)
+      });
+      listedTools = [meta.search, meta.describe, meta.call];
+      console.error(`Serving ${catalog.size} endpoints through meta tools`);
+    }
+    
+    // Responses with OpenAPI links list the calls they lead to; follow_link
+    // makes one of them
+    const linkedResults = new LinkedResults();
+    let followLink;
+    if (hasLinks(spec)) {
+      followLink = followLinkTool(freeToolName(FOLLOW_LINK_TOOL));
+      listedTools = [...listedTools, followLink];
+    }
+    
+    // 202 Accepted operations start jobs; job_status checks on or waits for one
+    const jobs = new JobStore();
+    let jobStatus;
+    if ([...callable.values()].some(entry => entry.longRunning)) {
+      jobStatus = jobStatusTool(freeToolName(JOB_STATUS_TOOL));
+      listedTools = [...listedTools, jobStatus];
+    }
+    
+    // Uploads read files under the declared roots and the client's file://
+    // roots, listed again whenever the client says they changed
+    const fileRoots = new FileRoots(fileRootList);
+    let rootsRequest = Promise.resolve();
+    if ([...callable.values()].some(entry => entry.upload)) {
+      const refreshRoots = () => {
+        if (!server.getClientCapabilities()?.roots) return;
+        rootsRequest = server.listRoots()
+          .then(({ roots }) => fileRoots.setClientRoots(roots))
+          .catch(error => console.error('Failed to list client roots:', error.message));
+      };
+      server.oninitialized = refreshRoots;
+      server.setNotificationHandler(RootsListChangedNotificationSchema, async () => refreshRoots());
+    }
+    
+    // Results are trimmed as asked and kept within the byte budget; the full
+    // body of a truncated one stays readable as a response:// resource
+    const responseStash = new ResponseStash();
+    const shapeResult = (response, shaping, source) => {
+      const shaped = shapeResponse(response, {
+        ...shaping,
+        maxBytes: shaping.maxBytes ?? defaultMaxBytes,
+        stash: responseStash,
+        source
+      });
+      if (shaped.truncated) {
+        server.sendResourceListChanged().catch(error =>
+          console.error('Failed to notify resource list change:', error.message)
+        );
+      }
+      return shaped;
+    };
+    
+    // HTTP request of a tool call, from the tool's arguments
+    const requestForTool = (toolName, toolArgs) => {
+      const target = callable.get(toolName);
+      const parts = splitToolArguments(toolArgs, target.input);
+      applyHiddenRequestParams(parts, target);
+      return buildHttpRequest(spec, target, parts, {
+        baseUrl,
+        specUrl,
+        contentType: target.input.body.contentType
+      });
+    };
+    
+    // Poll a job (once, unless waiting), reporting progress to the client
+    const waitForJob = async (jobId, { wait, waitTimeout, firstDelay = 0, progressToken }) => {
+      const job = jobs.get(jobId);
+      // Status and result URLs come from the API's responses: the call's
+      // headers only go along to the API's own origin
+      const statusRequest = () => (job.check.url
+        ? followUpRequest(job.request, job.check.url)
+        : requestForTool(job.check.toolName, job.check.arguments));
+      
+      const { state, response, polls } = await pollJob({
+        check: () => sendHttpRequest(statusRequest()),
+        fetch: url => sendHttpRequest(followUpRequest(
+          { ...job.request, url: statusRequest().url },
+          url,
+          job.request.url
+        )),
+        timeout: wait ? waitTimeout : 0,
+        firstDelay,
+        onProgress: progressToken === undefined ? undefined : update => {
+          // Percent once the API reports it (100 when done), else the poll count
+          if (update.progress !== undefined || (job.percent !== undefined && update.state !== 'running')) {
+            job.percent = Math.max(job.percent ?? 0, update.progress ?? 100);
+          }
+          return server.notification({
+            method: 'notifications/progress',
+            params: {
+              progressToken,
+              progress: job.percent ?? job.polls + update.polls,
+              ...(job.percent !== undefined && { total: 100 }),
+              message: `Job ${jobId} ${update.state}`
             }
           });
         }
+      });
+      
+      job.polls += polls;
+      if (state !== 'running') {
+        jobs.delete(jobId);
       }
-    }
+      
+      const { response: shapedResponse, truncated } = shapeResult(response, {}, job.check.toolName);
+      const result = toToolResult(shapedResponse, {
+        ...(truncated && { truncated }),
+        job: {
+          id: jobId,
+          state,
+          polls: job.polls,
+          ...(state === 'running' && {
+            resume: `Call ${jobStatus.name} with {"jobId": "${jobId}", "wait": true} to keep waiting`
+          })
+        }
+      });
+      return state === 'failed' ? { ...result, isError: true } : result;
+    };
     
-    console.error(`Generated ${tools.length} tools from OpenAPI spec`);
+    console.error(`Generated ${listedTools.length} tools from OpenAPI spec`);
     
-    // Resources from schemas
-    const resources = [];
+    // Resources from schemas, plus operations marked x-mcp-kind: resource
+    const resources = [...operationResources];
     if (spec.components?.schemas) {
       for (const [name, schema] of Object.entries(spec.components.schemas)) {
         resources.push({
@@ -97,29 +438,83 @@ async function main() {
     
     console.error(`Generated ${resources.length} resources from OpenAPI spec`);
     
-    // Set up request handlers using the new format
+    // Set up request handlers
     server.setRequestHandler(
-      {
-        method: 'tools/list',
-        params: {}
-      },
+      ListToolsRequestSchema,
       async () => {
         console.error('Handling tools/list request');
-        return { tools };
+        return { tools: listedTools };
       }
     );
     
     server.setRequestHandler(
-      {
-        method: 'tools/call',
-        params: {
-          name: { type: 'string' },
-          arguments: { type: 'object', optional: true }
-        }
-      },
+      CallToolRequestSchema,
       async (request) => {
         console.error(`Handling tools/call for: ${request.params.name}`);
-        const { name, arguments: args } = request.params;
+        let { name, arguments: args } = request.params;
+        const progressToken = request.params._meta?.progressToken;
+        
+        if (jobStatus && name === jobStatus.name) {
+          try {
+            return await waitForJob(args?.jobId, { ...args, progressToken });
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{ type: 'text', text: error.message }]
+            };
+          }
+        }
+        
+        // Meta tools search and describe endpoints, or call one
+        if (meta && [meta.search.name, meta.describe.name].includes(name)) {
+          try {
+            const result = name === meta.search.name
+              ? catalog.search(args?.query, { tag: args?.tag, limit: args?.limit })
+              : catalog.describe(args?.endpoint);
+            return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{ type: 'text', text: error.message }]
+            };
+          }
+        }
+        if (meta && name === meta.call.name) {
+          try {
+            ({ toolName: name, arguments: args } = catalog.prepareCall(args?.endpoint, args?.arguments));
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{ type: 'text', text: error.message }]
+            };
+          }
+        }
+        
+        // Composite tools call the tool of the requested action
+        const composite = composites.get(name);
+        if (composite) {
+          try {
+            ({ toolName: name, arguments: args } = routeCompositeCall(composite, args));
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{ type: 'text', text: error.message }]
+            };
+          }
+        }
+        
+        // follow_link calls the tool of a link from an earlier result
+        if (followLink && name === followLink.name) {
+          try {
+            ({ toolName: name, arguments: args } =
+              linkedResults.follow(args?.resultId, args?.link, args?.arguments));
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{ type: 'text', text: error.message }]
+            };
+          }
+        }
         
         // Find the tool
         const tool = tools.find(t => t.name === name);
@@ -127,40 +522,165 @@ async function main() {
           throw new Error(`Tool not found: ${name}`);
         }
         
-        // In a real implementation, this would make actual API calls
-        // For now, return a mock response
-        return {
-          content: [{
-            type: 'text',
-            text: `Called ${name} with parameters: ${JSON.stringify(args || {})}\n\n` +
-                  `This is a simplified OpenAPI MCP server. ` +
-                  `In a full implementation, this would make actual API calls to ${spec.servers?.[0]?.url || 'the API'}.`
-          }]
-        };
+        const entry = operations.get(name);
+        const { mcp } = entry;
+        if (mcp.confirm && args?.[CONFIRM_ARGUMENT] !== true) {
+          return {
+            isError: true,
+            content: [{
+              type: 'text',
+              text: `${request.params.name} changes data and requires confirmation. ` +
+                    `Confirm with the user, then call it again with "${CONFIRM_ARGUMENT}": true.`
+            }]
+          };
+        }
+        
+        const parts = splitToolArguments(args, entry.input);
+        applyHiddenRequestParams(parts, entry);
+        
+        const requestFor = (requestParts, options = {}) => buildHttpRequest(spec, entry, requestParts, {
+          baseUrl,
+          specUrl,
+          contentType: entry.input.body.contentType,
+          ...options
+        });
+        
+        const shaping = entry.shapeable
+          ? { fields: args?.fields, select: args?.select, maxBytes: args?.maxBytes }
+          : {};
+        
+        let httpRequest;
+        let uploaded;
+        try {
+          checkShapingArguments(shaping);
+          
+          // Files are read from the allowed roots and streamed as the body
+          if (entry.upload && parts.body !== undefined) {
+            await rootsRequest;
+            const encoded = encodeUpload(entry.upload, parts.body, fileRoots);
+            uploaded = encoded.files;
+            httpRequest = requestFor({ ...parts, body: encoded.body }, {
+              contentType: encoded.contentType,
+              contentLength: encoded.contentLength
+            });
+          } else {
+            httpRequest = requestFor(parts);
+          }
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: 'text', text: `Cannot call ${name}: ${error.message}` }]
+          };
+        }
+        
+        console.error(`${httpRequest.method} ${httpRequest.url}`);
+        try {
+          const response = entry.pagination && args?.fetchAll
+            ? await fetchAllPages(entry.pagination, parts, {
+                request: requestFor,
+                send: sendHttpRequest,
+                maxPages: args.maxPages,
+                maxItems: args.maxItems
+              })
+            : await sendHttpRequest(httpRequest);
+          const context = linkContext(parts, httpRequest, response);
+          
+          // A job was started: wait for it, or hand back its id
+          const check = entry.longRunning && response.status === 202 && statusCheckFor(entry, context, callable);
+          if (check) {
+            const headers = Object.fromEntries(
+              Object.entries(httpRequest.headers).filter(([header]) => !['Content-Type', 'Content-Length'].includes(header))
+            );
+            const jobId = jobs.add({
+              check,
+              request: { url: httpRequest.url, headers, timeout: httpRequest.timeout },
+              polls: 0
+            });
+            if (args?.wait) {
+              return await waitForJob(jobId, {
+                wait: true,
+                waitTimeout: args.waitTimeout,
+                firstDelay: firstPollDelay(response),
+                progressToken
+              });
+            }
+            return toToolResult(response, {
+              job: {
+                id: jobId,
+                state: 'running',
+                resume: `Call ${jobStatus.name} with {"jobId": "${jobId}"} to check on it`
+              }
+            });
+          }
+          
+          // Shaped and truncated bodies no longer follow the output schema
+          const calls = nextCalls(entry, context, callable);
+          const shaped = shapeResult(response, shaping, name);
+          return toToolResult(shaped.response, {
+            ...(uploaded && { uploaded }),
+            ...(calls.length > 0 && { resultId: linkedResults.add(calls), links: calls }),
+            ...(shaped.truncated && { truncated: shaped.truncated })
+          }, {
+            output: shaped.shaped || shaped.truncated ? undefined : entry.output,
+            onWarning: warnings => console.error(`${name}: response does not match the spec: ${warnings.join('; ')}`)
+          });
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: 'text', text: `${httpRequest.method} ${httpRequest.url} failed: ${error.message}` }]
+          };
+        }
       }
     );
     
     server.setRequestHandler(
-      {
-        method: 'resources/list',
-        params: {}
-      },
+      ListResourcesRequestSchema,
       async () => {
         console.error('Handling resources/list request');
-        return { resources };
+        return { resources: [...resources, ...responseStash.resources()] };
       }
     );
     
     server.setRequestHandler(
-      {
-        method: 'resources/read',
-        params: {
-          uri: { type: 'string' }
-        }
-      },
+      ListResourceTemplatesRequestSchema,
+      async () => ({
+        resourceTemplates: [{
+          uriTemplate: `${RESPONSE_URI_PREFIX}{id}{?page}`,
+          name: 'Full response',
+          description: 'Page of the full body of a truncated tool result',
+          mimeType: 'application/json'
+        }]
+      })
+    );
+    
+    server.setRequestHandler(
+      ReadResourceRequestSchema,
       async (request) => {
         console.error(`Handling resources/read for: ${request.params.uri}`);
         const { uri } = request.params;
+        
+        if (uri.startsWith(RESPONSE_URI_PREFIX)) {
+          return responseStash.read(uri);
+        }
+        
+        if (uri.startsWith('operation://')) {
+          const entry = operations.get(uri.replace('operation://', ''));
+          if (!entry) {
+            throw new Error(`Resource not found: ${uri}`);
+          }
+          return {
+            contents: [{
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify({
+                method: entry.method.toUpperCase(),
+                path: entry.path,
+                parameters: applyHiddenParams({}, entry.mcp, entry.operation.parameters)
+              }, null, 2)
+            }]
+          };
+        }
+        
         const schemaName = uri.replace('schema://', '');
         const schema = spec.components?.schemas?.[schemaName];
         
@@ -184,7 +704,7 @@ async function main() {
     await server.connect(transport);
     
     console.error('OpenAPI MCP Server is running');
-    console.error(`Available tools: ${tools.map(t => t.name).join(', ')}`);
+    console.error(`Available tools: ${listedTools.map(t => t.name).join(', ')}`);
     
     // Keep the process alive
     process.on('SIGINT', () => {
@@ -198,5 +718,91 @@ async function main() {
   }
 }
 
+/**
+ * Hidden parameters are never taken from the model: fill them in at the
+ * location they are declared
+ */
+function applyHiddenRequestParams(request, entry) {
+  const declared = [...(entry.pathItem.parameters || []), ...(entry.operation.parameters || [])];
+  const hidden = applyHiddenParams({}, entry.mcp, declared);
+  
+  for (const [name, value] of Object.entries(hidden)) {
+    const location = declared.find(param => param?.name === name)?.in || 'query';
+    request[location][name] = value;
+  }
+}
+
+/**
+ * Serve an AsyncAPI document: send-message tools and subscribable
+ * channel resources
+ */
+async function serveAsyncAPI(spec) {
+  const model = readAsyncAPI(spec);
+
+  const server = new Server({
+    name: `${spec.info.title} (AsyncAPI)`,
+    version: spec.info.version || '1.0.0'
+  }, {
+    capabilities: {
+      tools: {},
+      resources: { subscribe: true }
+    }
+  });
+
+  const hub = new MessageChannelHub(model, createBroker(model), {
+    onUpdate: uri => {
+      server.sendResourceUpdated({ uri }).catch(error =>
+        console.error(`Failed to notify update of ${uri}:`, error.message)
+      );
+    },
+    onWarning: message => console.error(message)
+  });
+
+  const tools = hub.tools();
+  console.error(`Generated ${tools.length} send tools and ` +
+                `${hub.resources().length + hub.resourceTemplates().length} channel resources`);
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    console.error(`Handling tools/call for: ${request.params.name}`);
+    return hub.send(request.params.name, request.params.arguments);
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: hub.resources()
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: hub.resourceTemplates()
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+    hub.read(request.params.uri)
+  );
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await hub.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    await hub.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  await hub.start();
+
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('AsyncAPI MCP Server is running');
+
+  process.on('SIGINT', async () => {
+    console.error('Shutting down...');
+    await hub.close();
+    process.exit(0);
+  });
+}
+
 // Run the server
 main().catch(console.error);
@@ -7,15 +7,25 @@
  */
 
 import { Command } from 'commander';
-import { readFile } from 'fs/promises';
-import { load } from 'js-yaml';
+import { writeFile } from 'fs/promises';
+import { dump } from 'js-yaml';
 import chalk from 'chalk';
 import { OpenAPIMCPTransformer } from '../index.js';
-import { TransformerConfig } from '../types/config.js';
+import { TransformerConfig, ToolFilters } from '../types/config.js';
+import { NamespacedSpec } from '../types/openapi.js';
+import { ValidationResult } from '../types/validation.js';
+import { SpecDiff, SpecChange, ToolChange } from '../types/diff.js';
+import { FilterReport, AnalyzedEndpoint } from '../types/analysis.js';
 import { logger, setLogLevel } from '../utils/logger.js';
-import axios from 'axios';
-import { existsSync } from 'fs';
+import { loadSpec, loadSpecDocument } from '../../bin/lib/spec-loader.js';
+import {
+  readToolNameMapping,
+  writeToolNameMapping,
+  toolNameMapping,
+  operationKey
+} from '../../bin/lib/tool-names.js';
 import { resolve } from 'path';
+import { pathToFileURL } from 'url';
 
 const program = new Command();
 
@@ -23,7 +33,7 @@ program
   .name('openapi-mcp')
   .description('Transform OpenAPI specifications into intelligent MCP servers')
   .version('1.0.0')
-  .argument('<spec>', 'OpenAPI specification file path or URL')
+  .argument('<specs...>', 'OpenAPI 3.x, Swagger 2.0, AsyncAPI 2.x/3.x, Postman or HAR file paths or URLs (prefix with name= to set the namespace)')
   .option('-c, --config <path>', 'Configuration file path')
   .option('-n, --name <name>', 'Server name (defaults to API title)')
   .option('-o, --output <path>', 'Output directory for generated server')
@@ -32,8 +42,19 @@ program
   .option('--model <model>', 'LLM model for sampling', 'claude-3-opus')
   .option('--env <environment>', 'Target environment', 'development')
   .option('-v, --verbose', 'Enable verbose logging')
+  .option('--overlay <path>', 'Apply an OpenAPI Overlay before analysis (repeatable)', collect, [])
   .option('--dry-run', 'Analyze spec without starting server')
-  .action(async (specPath, options) => {
+  .option('-w, --watch', 'Reload when the spec or config changes')
+  .option('--poll-interval <ms>', 'How often to poll spec URLs when watching', '30000')
+  .option('--tool-names <path>', 'Tool name mapping file to keep names stable (created if missing)')
+  .option('--max-bytes <bytes>', 'Truncate tool response bodies larger than this')
+  .option('--include-tag <tag>', 'Only generate tools for operations with this tag (repeatable)', collect, [])
+  .option('--exclude-tag <tag>', 'Skip operations with this tag (repeatable)', collect, [])
+  .option('--include-path <glob>', "Only generate tools for matching paths, e.g. '/pets/**' (repeatable)", collect, [])
+  .option('--exclude-path <glob>', "Skip matching paths, e.g. '/admin/**' (repeatable)", collect, [])
+  .option('--methods <methods>', 'Only generate tools for these HTTP methods (comma-separated)', commaList)
+  .option('--operations <ids>', 'Only generate tools for these operationIds (comma-separated)', commaList)
+  .action(async (specPaths, options) => {
     try {
       console.log(chalk.blue.bold('\n🚀 OpenAPI MCP Transformer\n'));
       
@@ -42,26 +63,41 @@ program
         setLogLevel('debug');
       }
       
-      // Load OpenAPI spec
-      console.log(chalk.cyan('📄 Loading OpenAPI specification...'));
-      const spec = await loadOpenAPISpec(specPath);
-      console.log(chalk.green(`✓ Loaded: ${spec.info.title} v${spec.info.version}`));
-      
       // Load configuration
       const config = await loadConfig(options);
       
+      // Load OpenAPI specs (CLI arguments first, then config.specs)
+      console.log(chalk.cyan('📄 Loading OpenAPI specification...'));
+      const specSources = (current: TransformerConfig) => {
+        const overlays = [...(current.overlays || []), ...options.overlay];
+        return [
+          ...specPaths.map((argument: string) => ({ ...parseSpecArgument(argument), overlays })),
+          ...(current.specs || [])
+        ];
+      };
+      const specs = await loadNamespacedSpecs(specSources(config));
+      for (const { spec } of specs) {
+        console.log(chalk.green(`✓ Loaded: ${spec.info.title} v${spec.info.version}`));
+      }
+      
       // Create transformer
       console.log(chalk.cyan('\n🔧 Analyzing API specification...'));
-      const transformer = new OpenAPIMCPTransformer(spec, config);
+      const transformer = new OpenAPIMCPTransformer(
+        specs.length === 1 ? specs[0].spec : specs,
+        config
+      );
       
       // Generate MCP server
       console.log(chalk.cyan('🏗️  Generating MCP server...'));
       const server = await transformer.generate();
       
       // Display analysis results
-      displayAnalysisResults(spec, config);
+      for (const { namespace, spec } of specs) {
+        displayAnalysisResults(spec, config, specs.length > 1 ? namespace : undefined);
+      }
       
       if (options.dryRun) {
+        displayFilterReport(transformer.analyze().filtered);
         console.log(chalk.yellow('\n⚡ Dry run complete - server not started'));
         process.exit(0);
       }
@@ -70,6 +106,10 @@ program
       console.log(chalk.cyan('\n🚀 Starting MCP server...'));
       await transformer.start();
       
+      if (config.watch?.enabled) {
+        await watchSources(options, config, specSources, transformer);
+      }
+      
       console.log(chalk.green.bold('\n✨ MCP server is running!'));
       console.log(chalk.gray('\nPress Ctrl+C to stop the server'));
       
@@ -88,17 +128,35 @@ program
   .command('analyze <spec>')
   .description('Analyze an OpenAPI spec without generating a server')
   .option('-d, --detailed', 'Show detailed analysis')
+  .option('--overlay <path>', 'Apply an OpenAPI Overlay before analysis (repeatable)', collect, [])
+  .option('--tool-names <path>', 'Tool name mapping file to apply')
+  .option('--include-tag <tag>', 'Only generate tools for operations with this tag (repeatable)', collect, [])
+  .option('--exclude-tag <tag>', 'Skip operations with this tag (repeatable)', collect, [])
+  .option('--include-path <glob>', "Only generate tools for matching paths, e.g. '/pets/**' (repeatable)", collect, [])
+  .option('--exclude-path <glob>', "Skip matching paths, e.g. '/admin/**' (repeatable)", collect, [])
+  .option('--methods <methods>', 'Only generate tools for these HTTP methods (comma-separated)', commaList)
+  .option('--operations <ids>', 'Only generate tools for these operationIds (comma-separated)', commaList)
+  .option('--dry-run', 'Only report how many endpoints each filter removes')
   .action(async (specPath, options) => {
     try {
       console.log(chalk.blue.bold('\n🔍 OpenAPI Specification Analysis\n'));
       
-      const spec = await loadOpenAPISpec(specPath);
+      const spec = await loadOpenAPISpec(specPath, options.overlay);
       const { SpecAnalyzer } = await import('../core/spec-analyzer.js');
       
-      const analyzer = new SpecAnalyzer(spec);
+      const analyzer = new SpecAnalyzer(spec, {
+        toolNames: readToolNameMapping(options.toolNames),
+        filters: filtersFromOptions(options)
+      });
       const analysis = analyzer.analyze();
       
+      if (options.dryRun) {
+        displayFilterReport(analysis.filtered, analysis.endpoints.length);
+        return;
+      }
+      
       displayDetailedAnalysis(spec, analysis, options.detailed);
+      displayFilterReport(analysis.filtered);
       
     } catch (error) {
       console.error(chalk.red.bold('\n❌ Error:'), error.message);
@@ -106,6 +164,148 @@ program
     }
   });
 
+program
+  .command('validate <spec>')
+  .description('Check an OpenAPI spec for structural problems (a partial check, not full schema validation)')
+  .option('-f, --format <format>', 'Output format (text or json)', 'text')
+  .option('--overlay <path>', 'Apply an OpenAPI Overlay before validating (repeatable)', collect, [])
+  .action(async (specPath: string, options: { format: string; overlay: string[] }) => {
+    try {
+      const { document, original, baseUri, readDocument } = await loadSpecDocument(specPath, {
+        overlays: options.overlay,
+        onWarning: message => logger.warn(message)
+      });
+      const { SpecValidator } = await import('../core/spec-validator.js');
+      
+      const validator = new SpecValidator(document, { baseUri, readDocument, original });
+      const result = await validator.validate();
+      
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        displayValidationResult(specPath, result);
+      }
+      
+      process.exit(result.valid ? 0 : 1);
+      
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ valid: false, error: message }, null, 2));
+      } else {
+        console.error(chalk.red.bold('\n❌ Error:'), message);
+      }
+      process.exit(2);
+    }
+  });
+
+program
+  .command('diff <old> <new>')
+  .description('Compare two versions of an OpenAPI spec and the MCP tools they generate')
+  .option('-f, --format <format>', 'Output format (text, json or markdown)', 'text')
+  .option('--fail-on-breaking', 'Exit with code 1 when breaking changes are found')
+  .option('--overlay <path>', 'Apply an OpenAPI Overlay to both specs (repeatable)', collect, [])
+  .option('--tool-names <path>', 'Tool name mapping file to apply to both specs')
+  .action(async (oldPath: string, newPath: string, options: {
+    format: string;
+    failOnBreaking?: boolean;
+    overlay: string[];
+    toolNames?: string;
+  }) => {
+    try {
+      const [oldSpec, newSpec] = await Promise.all([
+        loadOpenAPISpec(oldPath, options.overlay),
+        loadOpenAPISpec(newPath, options.overlay)
+      ]);
+      const { SpecDiffer } = await import('../core/spec-differ.js');
+      
+      const diff = new SpecDiffer(oldSpec, newSpec, {
+        toolNames: readToolNameMapping(options.toolNames)
+      }).diff();
+      
+      if (options.format === 'json') {
+        console.log(JSON.stringify(diff, null, 2));
+      } else if (options.format === 'markdown') {
+        console.log(formatSpecDiffMarkdown(diff));
+      } else {
+        displaySpecDiff(oldPath, newPath, diff);
+      }
+      
+      process.exit(options.failOnBreaking && diff.breaking ? 1 : 0);
+      
+    } catch (error) {
+      console.error(chalk.red.bold('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(2);
+    }
+  });
+
+program
+  .command('import <source>')
+  .description('Infer an OpenAPI spec from a Postman v2.1 collection or HAR capture')
+  .option('-o, --output <path>', 'Write the inferred spec to a file (.json or .yaml)')
+  .option('--overlay <path>', 'Apply an OpenAPI Overlay to the inferred spec (repeatable)', collect, [])
+  .action(async (source: string, options: { output?: string; overlay: string[] }) => {
+    try {
+      const { document } = await loadSpecDocument(source, {
+        overlays: options.overlay,
+        onWarning: message => logger.warn(message)
+      });
+      
+      const serialized = options.output?.endsWith('.json')
+        ? JSON.stringify(document, null, 2)
+        : dump(document, { noRefs: true, lineWidth: 120 });
+      
+      if (!options.output) {
+        console.log(serialized);
+        return;
+      }
+      
+      await writeFile(options.output, serialized);
+      
+      const operations = Object.values<any>(document.paths || {})
+        .reduce((count, pathItem) => count + Object.keys(pathItem).length, 0);
+      console.log(chalk.green(`✓ Inferred ${Object.keys(document.paths || {}).length} paths, ${operations} operations`));
+      console.log(chalk.green(`✓ Spec written to: ${options.output}`));
+      console.log(chalk.gray('\nReview it, then serve it with:'));
+      console.log(chalk.white(`  openapi-mcp ${options.output}`));
+      
+    } catch (error) {
+      console.error(chalk.red.bold('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('names <spec>')
+  .description('Print the generated tool names, or pin them in a mapping file')
+  .option('-o, --output <path>', 'Mapping file to create or update')
+  .option('--overlay <path>', 'Apply an OpenAPI Overlay before naming (repeatable)', collect, [])
+  .action(async (specPath: string, options: { output?: string; overlay: string[] }) => {
+    try {
+      const spec = await loadOpenAPISpec(specPath, options.overlay);
+      const { SpecAnalyzer } = await import('../core/spec-analyzer.js');
+      
+      const previous = readToolNameMapping(options.output);
+      const analysis = new SpecAnalyzer(spec, { toolNames: previous }).analyze();
+      const names = new Map(analysis.endpoints.map(e => [operationKey(e.method, e.path), e.toolName!]));
+      
+      if (!options.output) {
+        console.log(JSON.stringify(toolNameMapping(names), null, 2));
+        return;
+      }
+      
+      const added = [...names.keys()].filter(key => !(key in previous.tools));
+      writeToolNameMapping(options.output, names, previous);
+      
+      console.log(chalk.green(`✓ ${names.size} tool names, ${added.length} new`));
+      console.log(chalk.green(`✓ Mapping written to: ${options.output}`));
+      
+    } catch (error) {
+      console.error(chalk.red.bold('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 program
   .command('init')
   .description('Initialize a configuration file')
@@ -187,33 +387,135 @@ program
 
 // Helper functions
 
-async function loadOpenAPISpec(specPath: string): Promise<any> {
-  let content: string;
-  
-  if (specPath.startsWith('http://') || specPath.startsWith('https://')) {
-    // Load from URL
-    const response = await axios.get(specPath);
-    content = typeof response.data === 'string' 
-      ? response.data 
-      : JSON.stringify(response.data);
-  } else {
-    // Load from file
-    const fullPath = resolve(process.cwd(), specPath);
-    if (!existsSync(fullPath)) {
-      throw new Error(`File not found: ${fullPath}`);
+async function loadOpenAPISpec(specPath: string, overlays: string[] = []): Promise<any> {
+  // Shared with bin/simple-server.js: format sniffing, overlays, Swagger 2.0
+  // upconversion, $ref resolution and schema normalization
+  return loadSpec(specPath, {
+    overlays,
+    onWarning: message => logger.warn(message)
+  });
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function commaList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Endpoint filters given on the command line; unset ones are left out
+function filtersFromOptions(options: any): ToolFilters | undefined {
+  const filters: ToolFilters = {
+    includeTags: options.includeTag,
+    excludeTags: options.excludeTag,
+    includePaths: options.includePath,
+    excludePaths: options.excludePath,
+    methods: options.methods,
+    operations: options.operations
+  };
+  
+  const set = Object.entries(filters).filter(([, value]) => value?.length > 0);
+  return set.length > 0 ? Object.fromEntries(set) : undefined;
+}
+
+function parseSpecArgument(argument: string): { source: string; namespace?: string } {
+  // `billing=./billing.yaml` sets the namespace explicitly
+  const match = argument.match(/^([a-zA-Z][\w-]*)=(.+)$/);
+  return match
+    ? { namespace: match[1], source: match[2] }
+    : { source: argument };
+}
+
+async function loadNamespacedSpecs(
+  sources: Array<{ source: string; namespace?: string; overlays?: string[] }>
+): Promise<NamespacedSpec[]> {
+  const specs: NamespacedSpec[] = [];
+  const used = new Set<string>();
+  
+  for (const { source, namespace, overlays } of sources) {
+    const spec = await loadOpenAPISpec(source, overlays);
+    
+    // Default namespace: snake_case API title, deduplicated
+    const base = namespace || toNamespace(spec.info?.title || 'api');
+    let unique = base;
+    for (let i = 2; used.has(unique); i++) {
+      unique = `${base}_${i}`;
     }
-    content = await readFile(fullPath, 'utf-8');
+    used.add(unique);
+    
+    specs.push({ namespace: unique, spec });
   }
   
-  // Parse JSON or YAML
-  if (specPath.endsWith('.yaml') || specPath.endsWith('.yml')) {
-    return load(content);
-  } else {
-    return JSON.parse(content);
-  }
+  return specs;
+}
+
+function toNamespace(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/\bapi\b/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'api';
+}
+
+/**
+ * Watch every spec, overlay and the config file, and hot-reload the
+ * transformer when any of them change
+ */
+async function watchSources(
+  options: any,
+  initialConfig: TransformerConfig,
+  specSources: (config: TransformerConfig) => Array<{ source: string; namespace?: string; overlays?: string[] }>,
+  transformer: OpenAPIMCPTransformer
+): Promise<void> {
+  const { SpecWatcher } = await import('../core/spec-watcher.js');
+  let config = initialConfig;
+  let watcher: InstanceType<typeof SpecWatcher>;
+  
+  const sourcesOf = (current: TransformerConfig) => [
+    ...specSources(current).flatMap(({ source, overlays }) => [source, ...(overlays || [])]),
+    ...(options.config ? [options.config] : [])
+  ];
+  
+  const start = async () => {
+    watcher = new SpecWatcher(sourcesOf(config), async changed => {
+      // The config may add or remove specs, so it is re-read first
+      if (options.config && changed.includes(options.config)) {
+        config = await loadConfig(options, true);
+      }
+      
+      const specs = await loadNamespacedSpecs(specSources(config));
+      const summary = await transformer.reload(
+        specs.length === 1 ? specs[0].spec : specs,
+        config
+      );
+      
+      logger.info('Hot reload applied', {
+        tools: `+${summary.tools.added.length} -${summary.tools.removed.length} ~${summary.tools.changed.length}`,
+        resources: `+${summary.resources.added.length} -${summary.resources.removed.length} ~${summary.resources.changed.length}`,
+        prompts: `+${summary.prompts.added.length} -${summary.prompts.removed.length} ~${summary.prompts.changed.length}`
+      });
+      
+      // Follow newly configured specs and overlays
+      const sources = sourcesOf(config);
+      if (sources.join('\n') !== watcher.getSources().join('\n')) {
+        watcher.stop();
+        await start();
+      }
+    }, {
+      pollInterval: config.watch?.pollInterval,
+      debounce: config.watch?.debounce
+    });
+    
+    await watcher.start();
+  };
+  
+  await start();
+  // stdout carries the MCP protocol once the server has started
+  console.error(chalk.green('  • Hot reload: watching for spec and config changes'));
 }
 
-async function loadConfig(options: any): Promise<TransformerConfig> {
+async function loadConfig(options: any, fresh: boolean = false): Promise<TransformerConfig> {
   const baseConfig: TransformerConfig = {
     serverName: options.name,
     intelligence: {
@@ -226,26 +528,67 @@ async function loadConfig(options: any): Promise<TransformerConfig> {
       roots: {
         enabled: options.roots !== false
       }
+    },
+    watch: {
+      enabled: Boolean(options.watch),
+      pollInterval: options.pollInterval ? Number(options.pollInterval) : undefined
     }
   };
   
+  let config = baseConfig;
   if (options.config) {
     try {
       const configPath = resolve(process.cwd(), options.config);
-      const userConfig = await import(configPath);
-      return { ...baseConfig, ...userConfig.default || userConfig };
+      // Bust the module cache when the config is reloaded
+      const userConfig = await import(fresh ? `${pathToFileURL(configPath).href}?t=${Date.now()}` : configPath);
+      const loaded = userConfig.default || userConfig;
+      config = {
+        ...baseConfig,
+        ...loaded,
+        watch: { ...baseConfig.watch, ...loaded.watch, enabled: Boolean(options.watch || loaded.watch?.enabled) }
+      };
     } catch (error) {
       logger.warn(`Failed to load config file: ${error.message}`);
     }
   }
   
-  return baseConfig;
+  if (options.toolNames) {
+    const tools = config.generation?.tools;
+    config.generation = {
+      ...config.generation,
+      tools: { ...tools, naming: { ...tools?.naming, mappingFile: options.toolNames } }
+    };
+  }
+  
+  if (options.maxBytes) {
+    const performance = config.performance;
+    config.performance = {
+      ...performance,
+      responses: { ...performance?.responses, maxBytes: Number(options.maxBytes) }
+    };
+  }
+  
+  // Filters from the command line replace the config file's, one by one
+  const filters = filtersFromOptions(options);
+  if (filters) {
+    const tools = config.generation?.tools;
+    config.generation = {
+      ...config.generation,
+      tools: { ...tools, filters: { ...tools?.filters, ...filters } }
+    };
+  }
+  
+  return config;
 }
 
-function displayAnalysisResults(spec: any, config: any): void {
-  console.log(chalk.cyan('\n📊 Analysis Results:'));
+function displayAnalysisResults(spec: any, config: any, namespace?: string): void {
+  console.log(chalk.cyan(`\n📊 Analysis Results${namespace ? ` (${namespace})` : ''}:`));
   console.log(chalk.white(`  • API: ${spec.info.title} v${spec.info.version}`));
-  console.log(chalk.white(`  • Endpoints: ${Object.keys(spec.paths || {}).length}`));
+  if (spec.asyncapi) {
+    console.log(chalk.white(`  • Channels: ${Object.keys(spec.channels || {}).length}`));
+  } else {
+    console.log(chalk.white(`  • Endpoints: ${Object.keys(spec.paths || {}).length}`));
+  }
   console.log(chalk.white(`  • Schemas: ${Object.keys(spec.components?.schemas || {}).length}`));
   
   if (config.intelligence?.sampling?.enabled) {
@@ -275,6 +618,14 @@ function displayDetailedAnalysis(spec: any, analysis: any, detailed: boolean): v
     }
   }
   
+  if (analysis.channels?.length > 0) {
+    console.log(chalk.cyan('\nChannels:'));
+    for (const channel of analysis.channels) {
+      const kind = channel.direction === 'send' ? 'send tool' : 'subscribable resource';
+      console.log(`  • ${channel.address} → ${kind}${channel.id ? ` (${channel.id})` : ''}`);
+    }
+  }
+  
   if (analysis.workflows.length > 0) {
     console.log(chalk.cyan('\nDetected Workflows:'));
     for (const workflow of analysis.workflows) {
@@ -283,6 +634,14 @@ function displayDetailedAnalysis(spec: any, analysis: any, detailed: boolean): v
   }
   
   if (detailed) {
+    console.log(chalk.cyan('\nTool Names:'));
+    for (const endpoint of analysis.endpoints) {
+      console.log(`  • ${endpoint.toolName} → ${endpoint.method} ${endpoint.path}`);
+    }
+    
+    console.log(chalk.cyan('\nTool Annotations:'));
+    displayAnnotationTable(analysis.endpoints);
+    
     console.log(chalk.cyan('\nRelationships:'));
     for (const rel of analysis.relationships) {
       console.log(`  • ${rel.from} ${rel.type} ${rel.to}`);
@@ -301,5 +660,154 @@ function displayDetailedAnalysis(spec: any, analysis: any, detailed: boolean): v
   console.log(`  • Sampling Recommended: ${analysis.requiresSampling ? 'Yes' : 'No'}`);
 }
 
+function displayAnnotationTable(endpoints: AnalyzedEndpoint[]): void {
+  const columns = [
+    ['read-only', 'readOnlyHint'],
+    ['destructive', 'destructiveHint'],
+    ['idempotent', 'idempotentHint'],
+    ['open-world', 'openWorldHint']
+  ] as const;
+  const names = endpoints.map(e => e.toolName || `${e.method} ${e.path}`);
+  const width = Math.max('Tool'.length, ...names.map(name => name.length));
+  
+  console.log(chalk.gray(`  ${'Tool'.padEnd(width)}  ${columns.map(([label]) => label).join('  ')}`));
+  endpoints.forEach((endpoint, i) => {
+    const cells = columns.map(([label, hint]) => (endpoint.annotations?.[hint] ? '✓' : '·').padEnd(label.length));
+    const notes = [
+      endpoint.operation.deprecated ? chalk.yellow('deprecated') : '',
+      endpoint.mcp?.annotations ? chalk.gray('x-mcp-annotations') : ''
+    ].filter(Boolean).join(' ');
+    console.log(`  ${names[i].padEnd(width)}  ${cells.join('  ')}${notes ? `  ${notes}` : ''}`.trimEnd());
+  });
+}
+
+function displayFilterReport(filtered?: FilterReport, kept?: number): void {
+  if (!filtered) {
+    if (kept !== undefined) {
+      console.log(chalk.gray(`No filters set - all ${kept} endpoints would become tools`));
+    }
+    return;
+  }
+  
+  console.log(chalk.cyan('\nFilters:'));
+  for (const { filter, value, removed } of filtered.byFilter) {
+    console.log(`  • ${filter} ${value}: removed ${removed}`);
+  }
+  console.log(chalk.white(`  • Kept ${filtered.total - filtered.removed} of ${filtered.total} endpoints (${filtered.removed} removed)`));
+}
+
+function displayValidationResult(specPath: string, result: ValidationResult): void {
+  console.log(chalk.blue.bold(`\n🩺 Validating ${specPath}\n`));
+  
+  for (const diagnostic of result.diagnostics) {
+    const label = diagnostic.severity === 'error'
+      ? chalk.red('✗ error  ')
+      : chalk.yellow('⚠ warning');
+    console.log(`${label} ${chalk.gray(diagnostic.pointer || '/')}`);
+    console.log(`          ${diagnostic.message} ${chalk.gray(`(${diagnostic.code})`)}`);
+  }
+  
+  const summary = `${result.errorCount} error(s), ${result.warningCount} warning(s)`;
+  if (result.valid) {
+    console.log(chalk.green(`\n✓ Valid OpenAPI ${result.openapiVersion} document — ${summary}`));
+  } else {
+    console.log(chalk.red(`\n✗ Invalid document — ${summary}`));
+  }
+}
+
+function displaySpecDiff(oldPath: string, newPath: string, diff: SpecDiff): void {
+  console.log(chalk.blue.bold(`\n🔀 Comparing ${oldPath} → ${newPath}\n`));
+  console.log(`  ${diff.from.title} v${diff.from.version} → ${diff.to.title} v${diff.to.version}`);
+  
+  const byEndpoint = groupChangesByEndpoint(diff);
+  for (const [endpoint, changes] of byEndpoint) {
+    console.log(chalk.cyan(`\n${endpoint}`));
+    for (const change of changes) {
+      const label = change.severity === 'breaking'
+        ? chalk.red('✗ breaking    ')
+        : chalk.green('✓ non-breaking');
+      const location = change.location ? chalk.gray(` ${change.location}`) : '';
+      console.log(`  ${label} ${change.message}${location}`);
+    }
+  }
+  
+  if (diff.tools.length > 0) {
+    console.log(chalk.cyan('\nMCP Tools:'));
+    for (const tool of diff.tools) {
+      const color = tool.severity === 'breaking' ? chalk.red : chalk.green;
+      console.log(color(`  • ${describeToolChange(tool)}`));
+      for (const detail of tool.details || []) {
+        console.log(chalk.gray(`      - ${detail}`));
+      }
+    }
+  }
+  
+  const { summary } = diff;
+  const totals = `${summary.breaking} breaking, ${summary.nonBreaking} non-breaking change(s); ` +
+    `${summary.endpointsAdded} added, ${summary.endpointsRemoved} removed, ${summary.endpointsChanged} changed endpoint(s)`;
+  if (diff.breaking) {
+    console.log(chalk.red(`\n✗ Breaking — ${totals}`));
+  } else {
+    console.log(chalk.green(`\n✓ Compatible — ${totals}`));
+  }
+}
+
+function formatSpecDiffMarkdown(diff: SpecDiff): string {
+  const lines = [
+    `# API changes: ${diff.from.title} ${diff.from.version} → ${diff.to.version}`,
+    '',
+    diff.breaking ? '**⚠️ This release contains breaking changes.**' : 'No breaking changes.',
+    '',
+    `| Breaking | Non-breaking | Endpoints added | Endpoints removed | Endpoints changed | Tools affected |`,
+    `|---|---|---|---|---|---|`,
+    `| ${diff.summary.breaking} | ${diff.summary.nonBreaking} | ${diff.summary.endpointsAdded} | ` +
+      `${diff.summary.endpointsRemoved} | ${diff.summary.endpointsChanged} | ${diff.summary.toolsAffected} |`
+  ];
+  
+  for (const severity of ['breaking', 'non-breaking'] as const) {
+    const changes = diff.changes.filter(c => c.severity === severity);
+    if (changes.length === 0) continue;
+    
+    lines.push('', `## ${severity === 'breaking' ? 'Breaking changes' : 'Non-breaking changes'}`, '');
+    lines.push('| Endpoint | Location | Change |', '|---|---|---|');
+    for (const change of changes) {
+      lines.push(`| \`${change.endpoint || '-'}\` | ${change.location ? `\`${change.location}\`` : '-'} | ${change.message} |`);
+    }
+  }
+  
+  if (diff.tools.length > 0) {
+    lines.push('', '## MCP tools', '');
+    for (const tool of diff.tools) {
+      lines.push(`- ${tool.severity === 'breaking' ? '**breaking**' : 'non-breaking'}: ${describeToolChange(tool, '`')}`);
+      for (const detail of tool.details || []) {
+        lines.push(`  - ${detail}`);
+      }
+    }
+  }
+  
+  return lines.join('\n');
+}
+
+function groupChangesByEndpoint(diff: SpecDiff): Map<string, SpecChange[]> {
+  const groups = new Map<string, SpecChange[]>();
+  for (const change of diff.changes) {
+    const key = change.endpoint || 'Spec';
+    groups.set(key, [...(groups.get(key) || []), change]);
+  }
+  return groups;
+}
+
+function describeToolChange(tool: ToolChange, quote: string = ''): string {
+  const name = `${quote}${tool.name}${quote}`;
+  switch (tool.kind) {
+    case 'renamed':
+      return `${quote}${tool.previousName}${quote} renamed to ${name} (${tool.endpoint})`;
+    case 'signature-changed':
+      return `${name} arguments changed (${tool.endpoint})`;
+    default:
+      return `${name} ${tool.kind} (${tool.endpoint})`;
+  }
+}
+
 // Parse arguments
 program.parse();
@@ -8,6 +8,7 @@
  * - Dynamic capability adjustment
  */
 
+import { fileURLToPath } from 'url';
 import { TransformerConfig } from '../types/config.js';
 import { logger } from '../utils/logger.js';
 
@@ -55,6 +56,15 @@ export class ContextManager {
     return this.getCurrentContext().roots;
   }
 
+  /**
+   * Local paths of the file:// roots, the only places uploads may read from
+   */
+  getFileRoots(): string[] {
+    return this.getCurrentContext().roots
+      .filter(root => root.uri.startsWith('file://'))
+      .map(root => fileURLToPath(root.uri));
+  }
+
   /**
    * Update roots and adapt context
    */
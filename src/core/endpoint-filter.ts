@@ -0,0 +1,111 @@
+/**
+ * Endpoint filters - Narrow large specs down to the tools that matter
+ *
+ * Include filters keep only matching endpoints, exclude filters drop
+ * matching ones. Path filters take globs: `*` matches within one path
+ * segment, `**` across segments, so `/admin/**` covers everything below
+ * `/admin`.
+ */
+
+import { Operation } from '../types/openapi.js';
+import { ToolFilters } from '../types/config.js';
+import { MCPExtensions } from '../../bin/lib/mcp-extensions.js';
+
+export interface FilterCandidate {
+  path: string;
+  method: string;
+  operation: Operation;
+  mcp?: MCPExtensions;
+}
+
+/**
+ * Why a filter dropped an endpoint: the filter and the value (tag, glob,
+ * or list) that did it
+ */
+export interface FilterRejection {
+  filter: keyof ToolFilters;
+  value: string;
+}
+
+/**
+ * True when any filter is set
+ */
+export function hasFilters(filters?: ToolFilters): filters is ToolFilters {
+  return !!filters && Object.values(filters).some(value => Array.isArray(value) && value.length > 0);
+}
+
+/**
+ * Compile filters into a function listing every filter that rejects an
+ * endpoint (empty when it is kept)
+ */
+export function compileFilters(filters: ToolFilters): (candidate: FilterCandidate) => FilterRejection[] {
+  const lower = (values?: string[]) => (values || []).map(value => value.toLowerCase());
+  const includeTags = lower(filters.includeTags);
+  const excludeTags = lower(filters.excludeTags);
+  const methods = lower(filters.methods);
+  const operations = new Set(filters.operations || []);
+  const includePaths = (filters.includePaths || []).map(glob => ({ glob, pattern: globToRegExp(glob) }));
+  const excludePaths = (filters.excludePaths || []).map(glob => ({ glob, pattern: globToRegExp(glob) }));
+
+  return ({ path, method, operation, mcp }) => {
+    const rejections: FilterRejection[] = [];
+    const tags = lower(operation.tags);
+
+    if (includeTags.length > 0 && !tags.some(tag => includeTags.includes(tag))) {
+      rejections.push({ filter: 'includeTags', value: filters.includeTags!.join(', ') });
+    }
+    for (const tag of excludeTags.filter(tag => tags.includes(tag))) {
+      rejections.push({ filter: 'excludeTags', value: tag });
+    }
+
+    if (includePaths.length > 0 && !includePaths.some(({ pattern }) => pattern.test(path))) {
+      rejections.push({ filter: 'includePaths', value: filters.includePaths!.join(', ') });
+    }
+    for (const { glob } of excludePaths.filter(({ pattern }) => pattern.test(path))) {
+      rejections.push({ filter: 'excludePaths', value: glob });
+    }
+
+    if (methods.length > 0 && !methods.includes(method.toLowerCase())) {
+      rejections.push({ filter: 'methods', value: filters.methods!.join(', ') });
+    }
+
+    // Operations are picked by operationId or x-mcp-name
+    if (operations.size > 0 &&
+        !(operation.operationId && operations.has(operation.operationId)) &&
+        !(mcp?.name && operations.has(mcp.name))) {
+      rejections.push({ filter: 'operations', value: filters.operations!.join(', ') });
+    }
+
+    return rejections;
+  };
+}
+
+/**
+ * Path glob to an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      // `/**` also matches the parent itself: /admin/** covers /admin
+      if (pattern.endsWith('/') && (i + 2 === glob.length || glob[i + 2] === '/')) {
+        pattern = `${pattern.slice(0, -1)}(?:/.*)?`;
+        i += glob[i + 2] === '/' ? 1 : 0;
+      } else {
+        pattern += '.*';
+      }
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
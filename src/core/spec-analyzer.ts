@@ -9,11 +9,47 @@
  */
 
 import { OpenAPISpec, Operation, PathItem } from '../types/openapi.js';
-import { SpecAnalysis, WorkflowPattern, ResourceRelationship } from '../types/analysis.js';
+import {
+  SpecAnalysis,
+  AnalyzedEndpoint,
+  WorkflowPattern,
+  WorkflowStep,
+  ResourceRelationship,
+  APICapabilities
+} from '../types/analysis.js';
 import { logger } from '../utils/logger.js';
+import { schemaTypes } from '../../bin/lib/schema-normalizer.js';
+import { readMCPExtensions, MCPExtensions } from '../../bin/lib/mcp-extensions.js';
+import { assignToolNames, operationKey, ToolNameMapping } from '../../bin/lib/tool-names.js';
+import { isAsyncAPI, readAsyncAPI } from '../../bin/lib/asyncapi.js';
+import { findCrudResources, CRUD_ACTIONS } from '../../bin/lib/composite-tools.js';
+import { detectPagination } from '../../bin/lib/pagination.js';
+import { isLongRunning } from '../../bin/lib/long-running.js';
+import { toolAnnotations, hasSideEffects } from '../../bin/lib/tool-annotations.js';
+import { responseOutput } from '../../bin/lib/output-schema.js';
+import { detectUpload, fileSizeLimits, UploadField } from '../../bin/lib/file-upload.js';
+import { ToolFilters } from '../types/config.js';
+import { compileFilters, hasFilters } from './endpoint-filter.js';
+
+export interface SpecAnalyzerOptions {
+  // Previously emitted tool names to keep (see bin/lib/tool-names.js)
+  toolNames?: ToolNameMapping;
+  // Namespace of the API, for tool name mapping keys
+  namespace?: string;
+  // Endpoints to keep (see endpoint-filter.ts)
+  filters?: ToolFilters;
+}
 
 export class SpecAnalyzer {
-  constructor(private spec: OpenAPISpec) {}
+  // Dereferenced specs share schema objects with components.schemas, so
+  // identity is how we recover the name of an inlined schema
+  private schemaNames: Map<any, string>;
+
+  constructor(private spec: OpenAPISpec, private options: SpecAnalyzerOptions = {}) {
+    this.schemaNames = new Map(
+      Object.entries(spec.components?.schemas || {}).map(([name, schema]) => [schema, name])
+    );
+  }
 
   /**
    * Perform comprehensive analysis of the OpenAPI spec
@@ -43,6 +79,9 @@ export class SpecAnalyzer {
     // Analyze paths
     this.analyzePaths(analysis);
     
+    // Analyze AsyncAPI channels
+    this.analyzeChannels(analysis);
+    
     // Analyze schemas
     this.analyzeSchemas(analysis);
     
@@ -65,6 +104,112 @@ export class SpecAnalyzer {
     return analysis;
   }
 
+  /**
+   * Merge analyses of several APIs into one. Names are qualified with the
+   * API namespace, and foreign keys that point at a resource of another API
+   * (e.g. `customerId` → billing.Customer) are reported as cross-API
+   * relationships.
+   */
+  static merge(analyses: Array<{ namespace: string; analysis: SpecAnalysis }>): SpecAnalysis {
+    const qualify = (namespace: string, name: string) =>
+      namespace ? `${namespace}.${name}` : name;
+    
+    const merged: SpecAnalysis = {
+      hasTools: analyses.some(a => a.analysis.hasTools),
+      hasResources: analyses.some(a => a.analysis.hasResources),
+      hasPrompts: analyses.some(a => a.analysis.hasPrompts),
+      requiresSampling: analyses.some(a => a.analysis.requiresSampling),
+      requiresContextManagement: analyses.some(a => a.analysis.requiresContextManagement),
+      requiresErrorIntelligence: analyses.some(a => a.analysis.requiresErrorIntelligence),
+      endpoints: [],
+      resources: [],
+      workflows: [],
+      relationships: [],
+      errorPatterns: [],
+      capabilities: {} as APICapabilities,
+      namespaces: analyses.map(a => a.namespace)
+    };
+    
+    for (const { namespace, analysis } of analyses) {
+      merged.endpoints.push(...analysis.endpoints.map(e => ({ ...e, namespace })));
+      
+      if (analysis.channels) {
+        merged.channels = [
+          ...(merged.channels || []),
+          ...analysis.channels.map(c => ({ ...c, namespace }))
+        ];
+      }
+      
+      merged.resources.push(...analysis.resources.map(r => ({
+        ...r,
+        name: qualify(namespace, r.name),
+        relationships: r.relationships.map(name => qualify(namespace, name)),
+        namespace
+      })));
+      
+      merged.workflows.push(...analysis.workflows.map(w => ({
+        ...w,
+        name: namespace ? `${namespace}_${w.name}` : w.name
+      })));
+      
+      merged.relationships.push(...analysis.relationships.map(r => ({
+        ...r,
+        from: qualify(namespace, r.from),
+        to: qualify(namespace, r.to),
+        fromNamespace: namespace,
+        toNamespace: namespace
+      })));
+      
+      merged.errorPatterns.push(...analysis.errorPatterns.map(e => ({
+        ...e,
+        endpoint: namespace ? `${namespace}: ${e.endpoint}` : e.endpoint
+      })));
+      
+      if (analysis.filtered) {
+        const filtered = merged.filtered || (merged.filtered = { total: 0, removed: 0, byFilter: [] });
+        filtered.total += analysis.filtered.total;
+        filtered.removed += analysis.filtered.removed;
+        filtered.byFilter.push(...analysis.filtered.byFilter.map(f => ({
+          ...f,
+          value: namespace ? `${namespace}: ${f.value}` : f.value
+        })));
+      }
+      
+      const capabilities = Object.keys(analysis.capabilities) as Array<keyof APICapabilities>;
+      for (const capability of capabilities) {
+        merged.capabilities[capability] = Boolean(
+          merged.capabilities[capability] || analysis.capabilities[capability]
+        );
+      }
+    }
+    
+    // Cross-API relationships via foreign key naming
+    for (const resource of merged.resources) {
+      for (const propName of Object.keys(resource.schema?.properties || {})) {
+        const match = propName.match(/^(.+?)(Id|_id|Ids|_ids)$/);
+        if (!match) continue;
+        
+        const target = merged.resources.find(other =>
+          other.namespace !== resource.namespace &&
+          other.name.split('.').pop()!.toLowerCase() === match[1].toLowerCase()
+        );
+        
+        if (target) {
+          merged.relationships.push({
+            from: resource.name,
+            to: target.name,
+            type: match[2].endsWith('s') ? 'many_to_many' : 'belongs_to',
+            through: propName,
+            fromNamespace: resource.namespace,
+            toNamespace: target.namespace
+          });
+        }
+      }
+    }
+    
+    return merged;
+  }
+
   /**
    * Analyze with additional context
    */
@@ -87,16 +232,47 @@ export class SpecAnalyzer {
    * Analyze all paths in the specification
    */
   private analyzePaths(analysis: SpecAnalysis) {
+    const filters = this.options.filters;
+    const rejectionsOf = hasFilters(filters) ? compileFilters(filters) : undefined;
+    const removedBy = new Map<string, { filter: string; value: string; removed: number }>();
+    let total = 0;
+    
     for (const [path, pathItem] of Object.entries(this.spec.paths || {})) {
       for (const [method, operation] of Object.entries(pathItem)) {
         if (this.isOperation(operation)) {
+          // x-mcp-* extensions take precedence over the heuristics
+          const mcp = readMCPExtensions(operation, pathItem);
+          if (mcp.exclude) {
+            logger.debug(`Excluding ${method.toUpperCase()} ${path} (x-mcp-exclude)`);
+            continue;
+          }
+          total++;
+          
+          const rejections = rejectionsOf?.({ path, method, operation: operation as Operation, mcp }) || [];
+          if (rejections.length > 0) {
+            for (const { filter, value } of rejections) {
+              const key = `${filter}:${value}`;
+              const entry = removedBy.get(key) || { filter, value, removed: 0 };
+              entry.removed++;
+              removedBy.set(key, entry);
+            }
+            logger.debug(`Filtered out ${method.toUpperCase()} ${path} (${rejections.map(r => r.filter).join(', ')})`);
+            continue;
+          }
+          
           const endpoint = {
             path,
             method: method.toUpperCase(),
             operation: operation as Operation,
-            isAction: this.isActionEndpoint(method, operation as Operation),
-            isResource: this.isResourceEndpoint(method, operation as Operation),
-            complexity: this.calculateComplexity(operation as Operation)
+            isAction: this.isActionEndpoint(method, operation as Operation, mcp),
+            isResource: this.isResourceEndpoint(method, operation as Operation, mcp),
+            complexity: this.calculateComplexity(operation as Operation),
+            mcp,
+            pagination: method === 'get'
+              ? detectPagination(operation, (pathItem as PathItem).parameters)
+              : undefined,
+            annotations: toolAnnotations(method, operation, mcp),
+            output: responseOutput(operation, this.spec)
           };
           
           analysis.endpoints.push(endpoint);
@@ -108,6 +284,63 @@ export class SpecAnalyzer {
         }
       }
     }
+    
+    if (rejectionsOf) {
+      analysis.filtered = {
+        total,
+        removed: total - analysis.endpoints.length,
+        byFilter: [...removedBy.values()]
+      };
+    }
+    
+    this.assignToolNames(analysis);
+  }
+
+  /**
+   * Give every endpoint a unique tool name, keeping names from the mapping
+   */
+  private assignToolNames(analysis: SpecAnalysis) {
+    const namespace = this.options.namespace;
+    const names = assignToolNames(
+      analysis.endpoints.map(e => ({
+        method: e.method,
+        path: e.path,
+        operation: e.operation,
+        extensions: e.mcp,
+        namespace
+      })),
+      { mapping: this.options.toolNames }
+    );
+    
+    for (const endpoint of analysis.endpoints) {
+      endpoint.toolName = names.get(operationKey(endpoint.method, endpoint.path, namespace));
+    }
+  }
+
+  /**
+   * Analyze the channels of an AsyncAPI document. Channels clients send to
+   * become tools, channels they receive from become resources.
+   */
+  private analyzeChannels(analysis: SpecAnalysis) {
+    if (!isAsyncAPI(this.spec)) {
+      return;
+    }
+    
+    const model = readAsyncAPI(this.spec);
+    analysis.channels = model.operations;
+    
+    if (model.operations.some(op => op.direction === 'send')) {
+      analysis.hasTools = true;
+    }
+    const streams = model.operations.some(op => op.direction === 'subscribe');
+    if (streams) {
+      analysis.hasResources = true;
+    }
+    
+    analysis.capabilities.hasWebSockets = model.servers.some(server =>
+      server.protocol === 'ws' || server.protocol === 'wss'
+    );
+    analysis.capabilities.hasStreaming = streams;
   }
 
   /**
@@ -163,6 +396,22 @@ export class SpecAnalyzer {
       });
     }
     
+    // Long-running (202 Accepted) operations polled until done
+    const longRunning = analysis.endpoints.filter(e => isLongRunning(e.operation));
+    if (longRunning.length > 0) {
+      analysis.workflows.push({
+        name: 'longRunning',
+        type: 'async',
+        steps: longRunning.map(e => ({
+          action: 'poll',
+          endpoint: `${e.method} ${e.path}`,
+          description: e.mcp?.statusOperation
+            ? `Poll ${e.mcp.statusOperation.operationId || e.mcp.statusOperation.operationRef} until done`
+            : 'Poll the linked status operation or Location header until done'
+        }))
+      });
+    }
+    
     if (analysis.workflows.length > 0) {
       analysis.hasPrompts = true;
     }
@@ -209,7 +458,7 @@ export class SpecAnalyzer {
   private analyzeCapabilities(analysis: SpecAnalysis) {
     // Pagination detection
     analysis.capabilities.hasPagination = analysis.endpoints.some(e => 
-      this.hasPaginationParameters(e.operation)
+      e.pagination !== undefined
     );
     
     // Batch operations
@@ -264,22 +513,28 @@ export class SpecAnalyzer {
            ('summary' in obj || 'description' in obj || 'responses' in obj);
   }
 
-  private isActionEndpoint(method: string, operation: Operation): boolean {
+  private isActionEndpoint(method: string, operation: Operation, mcp: MCPExtensions = {}): boolean {
+    if (mcp.kind) {
+      return mcp.kind === 'tool';
+    }
+    
     return ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method.toUpperCase()) ||
            (operation.summary?.toLowerCase().includes('create') ||
             operation.summary?.toLowerCase().includes('update') ||
             operation.summary?.toLowerCase().includes('delete'));
   }
 
-  private isResourceEndpoint(method: string, operation: Operation): boolean {
+  private isResourceEndpoint(method: string, operation: Operation, mcp: MCPExtensions = {}): boolean {
+    if (mcp.kind) {
+      return mcp.kind === 'resource';
+    }
+    
     return method.toUpperCase() === 'GET' &&
            !this.hasSideEffects(operation);
   }
 
   private hasSideEffects(operation: Operation): boolean {
-    return operation.summary?.toLowerCase().includes('trigger') ||
-           operation.summary?.toLowerCase().includes('send') ||
-           operation.summary?.toLowerCase().includes('execute');
+    return hasSideEffects(operation);
   }
 
   private calculateComplexity(operation: Operation): number {
@@ -323,20 +578,12 @@ export class SpecAnalyzer {
   private findSchemaRelationships(name: string, schema: any): string[] {
     const relationships: string[] = [];
     
-    // Check properties for references
-    if (schema.properties) {
-      for (const [propName, propSchema] of Object.entries(schema.properties)) {
-        if (propSchema.$ref) {
-          const refName = this.extractRefName(propSchema.$ref);
-          if (refName && refName !== name) {
-            relationships.push(refName);
-          }
-        }
-        
-        // Array of references
-        if (propSchema.type === 'array' && propSchema.items?.$ref) {
-          const refName = this.extractRefName(propSchema.items.$ref);
-          if (refName && refName !== name) {
+    // Check properties (including those of local $defs) for references
+    const scopes = [schema, ...Object.values<any>(schema.$defs || {})];
+    for (const scope of scopes) {
+      for (const propSchema of Object.values<any>(scope?.properties || {})) {
+        for (const refName of this.getReferencedSchemaNames(propSchema)) {
+          if (refName !== name) {
             relationships.push(refName);
           }
         }
@@ -351,13 +598,34 @@ export class SpecAnalyzer {
     return match ? match[1] : null;
   }
 
+  private getSchemaName(schema: any): string | null {
+    if (!schema || typeof schema !== 'object') return null;
+    if (schema.$ref) return this.extractRefName(schema.$ref);
+    return this.schemaNames.get(schema) || null;
+  }
+
+  private getReferencedSchemaNames(schema: any): string[] {
+    const direct = this.getSchemaName(schema);
+    if (direct) return [direct];
+    if (!schema || typeof schema !== 'object') return [];
+    
+    // Arrays, tuples and nullable/union wrappers (anyOf [X, null])
+    const nested = [
+      ...(schemaTypes(schema).includes('array') && schema.items ? [schema.items] : []),
+      ...(schema.prefixItems || []),
+      ...(schema.anyOf || []),
+      ...(schema.oneOf || []),
+      ...(schema.allOf || [])
+    ];
+    return nested.flatMap(child => this.getReferencedSchemaNames(child));
+  }
+
   private determineRelationshipType(schema: any, relatedResource: string): string {
     // Simplified relationship type detection
-    const propName = Object.entries(schema.properties || {})
-      .find(([_, prop]: [string, any]) => 
-        prop.$ref?.includes(relatedResource) ||
-        prop.items?.$ref?.includes(relatedResource)
-      )?.[0];
+    const [propName, propSchema] = Object.entries<any>(schema.properties || {})
+      .find(([_, prop]) => 
+        this.getReferencedSchemaNames(prop).includes(relatedResource)
+      ) || [];
     
     if (!propName) return 'unknown';
     
@@ -365,49 +633,27 @@ export class SpecAnalyzer {
       return 'belongs_to';
     }
     
-    if (propName.endsWith('s') || propName.endsWith('List')) {
+    if (propName.endsWith('s') || propName.endsWith('List') ||
+        schemaTypes(propSchema).includes('array')) {
       return 'has_many';
     }
     
     return 'has_one';
   }
 
-  private detectCRUDPatterns(endpoints: any[]): WorkflowPattern[] {
-    const patterns: WorkflowPattern[] = [];
-    const resourcePaths = new Map<string, any[]>();
-    
-    // Group endpoints by resource
-    for (const endpoint of endpoints) {
-      const resourceMatch = endpoint.path.match(/^\/([^\/]+)/);
-      if (resourceMatch) {
-        const resource = resourceMatch[1];
-        if (!resourcePaths.has(resource)) {
-          resourcePaths.set(resource, []);
-        }
-        resourcePaths.get(resource)!.push(endpoint);
-      }
-    }
-    
-    // Check for CRUD patterns
-    for (const [resource, endpoints] of resourcePaths) {
-      const methods = endpoints.map(e => e.method);
-      if (methods.includes('GET') && methods.includes('POST') &&
-          methods.includes('PUT') && methods.includes('DELETE')) {
-        patterns.push({
-          name: `${resource}_crud`,
-          type: 'crud',
-          steps: [
-            { action: 'list', endpoint: `GET /${resource}` },
-            { action: 'create', endpoint: `POST /${resource}` },
-            { action: 'read', endpoint: `GET /${resource}/{id}` },
-            { action: 'update', endpoint: `PUT /${resource}/{id}` },
-            { action: 'delete', endpoint: `DELETE /${resource}/{id}` }
-          ]
-        });
-      }
-    }
-    
-    return patterns;
+  private detectCRUDPatterns(endpoints: AnalyzedEndpoint[]): WorkflowPattern[] {
+    // Collection and item paths of one resource (see composite-tools.js)
+    return findCrudResources(endpoints).map(({ resource, actions }) => ({
+      name: `${resource}_crud`,
+      type: 'crud' as const,
+      resource,
+      steps: CRUD_ACTIONS
+        .filter(action => actions[action])
+        .map(action => ({
+          action,
+          endpoint: `${actions[action]!.method} ${actions[action]!.path}`
+        }))
+    }));
   }
 
   private hasAuthenticationFlow(endpoints: any[]): boolean {
@@ -428,41 +674,53 @@ export class SpecAnalyzer {
     ];
   }
 
-  private hasPaginationPattern(endpoints: any[]): boolean {
-    return endpoints.some(e => 
-      this.hasPaginationParameters(e.operation)
-    );
+  private hasPaginationPattern(endpoints: AnalyzedEndpoint[]): boolean {
+    return endpoints.some(e => e.pagination);
   }
 
-  private hasPaginationParameters(operation: Operation): boolean {
-    const params = operation.parameters || [];
-    return params.some((p: any) => 
-      ['page', 'limit', 'offset', 'cursor'].includes(p.name.toLowerCase())
-    );
+  private buildPaginationWorkflow(endpoints: AnalyzedEndpoint[]): WorkflowStep[] {
+    // Each paginated list can fetch every page itself (see pagination.js)
+    return endpoints
+      .filter(e => e.pagination)
+      .map(e => ({
+        action: 'fetch_all',
+        endpoint: `${e.method} ${e.path}`,
+        description: e.pagination!.parameter
+          ? `${e.pagination!.style} pagination via "${e.pagination!.parameter}"`
+          : 'Link header pagination'
+      }));
   }
 
-  private buildPaginationWorkflow(endpoints: any[]): any[] {
-    return [
-      { action: 'initial_request', description: 'Fetch first page' },
-      { action: 'check_more', description: 'Check if more pages exist' },
-      { action: 'fetch_next', description: 'Fetch next page' },
-      { action: 'aggregate', description: 'Combine results' }
-    ];
+  private hasFileUploadPattern(endpoints: any[]): boolean {
+    return endpoints.some(e => detectUpload(e.operation));
   }
 
-  private hasFileUploadPattern(endpoints: any[]): boolean {
-    return endpoints.some(e => 
-      e.operation.requestBody?.content?.['multipart/form-data']
-    );
+  private buildFileUploadWorkflow(endpoints: AnalyzedEndpoint[]): WorkflowStep[] {
+    const steps: WorkflowStep[] = [];
+    for (const e of endpoints) {
+      const upload = detectUpload(e.operation);
+      if (!upload) continue;
+      
+      const endpoint = `${e.method} ${e.path}`;
+      const constraints = upload.fields.map(field => this.describeUploadField(field)).join('; ');
+      steps.push(
+        { action: 'prepare', endpoint, description: 'Reference the file by a path under a file:// root or as base64 data' },
+        { action: 'validate', endpoint, description: `Check ${constraints}` },
+        { action: 'upload', endpoint, description: `Stream the ${upload.mode === 'multipart' ? 'form' : 'file'} as ${upload.contentType}` },
+        { action: 'verify', endpoint, description: 'Verify upload success' }
+      );
+    }
+    return steps;
   }
 
-  private buildFileUploadWorkflow(endpoints: any[]): any[] {
-    return [
-      { action: 'prepare', description: 'Prepare file for upload' },
-      { action: 'validate', description: 'Validate file requirements' },
-      { action: 'upload', description: 'Upload file' },
-      { action: 'verify', description: 'Verify upload success' }
-    ];
+  private describeUploadField(field: UploadField): string {
+    const { minBytes, maxBytes } = fileSizeLimits(field);
+    const limits = [
+      field.contentTypes.length > 0 ? field.contentTypes.join(' or ') : 'any type',
+      maxBytes !== undefined ? `at most ${maxBytes} bytes` : undefined,
+      minBytes !== undefined ? `at least ${minBytes} bytes` : undefined
+    ].filter(Boolean);
+    return `${field.name ? `"${field.name}"${field.multiple ? ' (several files)' : ''}` : 'the body'}: ${limits.join(', ')}`;
   }
 
   private isRecoverableError(statusCode: string, response: any): boolean {
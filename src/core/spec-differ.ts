@@ -0,0 +1,511 @@
+/**
+ * SpecDiffer - Compares two versions of an API specification
+ *
+ * Built on SpecAnalyzer, so it sees the same endpoints the server exposes
+ * (x-mcp-exclude respected) and:
+ * - Classifies endpoint, parameter, request body and response schema
+ *   changes as breaking or non-breaking for API clients
+ * - Predicts which generated MCP tools get renamed or change signature,
+ *   since agents' saved prompts refer to tools by name
+ */
+
+import { OpenAPISpec } from '../types/openapi.js';
+import { AnalyzedEndpoint } from '../types/analysis.js';
+import { SpecDiff, SpecChange, ToolChange, ChangeSeverity } from '../types/diff.js';
+import { SpecAnalyzer } from './spec-analyzer.js';
+import { schemaTypes } from '../../bin/lib/schema-normalizer.js';
+import { ToolNameMapping } from '../../bin/lib/tool-names.js';
+import { buildToolInput } from '../../bin/lib/input-schema.js';
+import { logger } from '../utils/logger.js';
+
+type Direction = 'request' | 'response';
+
+interface IndexedEndpoint extends AnalyzedEndpoint {
+  label: string;
+  parameters: any[];
+}
+
+interface ToolArgument {
+  required: boolean;
+  types: string[];
+}
+
+export class SpecDiffer {
+  private changes: SpecChange[] = [];
+
+  constructor(
+    private oldSpec: OpenAPISpec,
+    private newSpec: OpenAPISpec,
+    private options: { toolNames?: ToolNameMapping } = {}
+  ) {}
+
+  /**
+   * Compare the specs and classify every change
+   */
+  diff(): SpecDiff {
+    logger.debug('Starting spec diff');
+    this.changes = [];
+
+    const oldEndpoints = this.indexEndpoints(this.oldSpec);
+    const newEndpoints = this.indexEndpoints(this.newSpec);
+
+    for (const [key, oldEndpoint] of oldEndpoints) {
+      const newEndpoint = newEndpoints.get(key);
+      if (!newEndpoint) {
+        this.report('breaking', 'endpoint-removed', 'Endpoint removed', oldEndpoint.label);
+        continue;
+      }
+      this.compareEndpoints(oldEndpoint, newEndpoint);
+    }
+
+    for (const [key, newEndpoint] of newEndpoints) {
+      if (!oldEndpoints.has(key)) {
+        this.report('non-breaking', 'endpoint-added', 'Endpoint added', newEndpoint.label);
+      }
+    }
+
+    const tools = this.diffTools(oldEndpoints, newEndpoints);
+    const breakingCount = this.changes.filter(c => c.severity === 'breaking').length;
+    const changedEndpoints = new Set(
+      this.changes
+        .filter(c => c.endpoint && c.code !== 'endpoint-added' && c.code !== 'endpoint-removed')
+        .map(c => c.endpoint)
+    );
+
+    return {
+      from: { title: this.oldSpec.info?.title, version: this.oldSpec.info?.version },
+      to: { title: this.newSpec.info?.title, version: this.newSpec.info?.version },
+      breaking: breakingCount > 0 || tools.some(t => t.severity === 'breaking'),
+      summary: {
+        breaking: breakingCount,
+        nonBreaking: this.changes.length - breakingCount,
+        endpointsAdded: this.changes.filter(c => c.code === 'endpoint-added').length,
+        endpointsRemoved: this.changes.filter(c => c.code === 'endpoint-removed').length,
+        endpointsChanged: changedEndpoints.size,
+        toolsAffected: tools.length
+      },
+      changes: this.changes,
+      tools
+    };
+  }
+
+  /**
+   * Index analyzed endpoints by method and path template. Path parameter
+   * names are ignored for matching, so `{id}` → `{petId}` is a change to
+   * the endpoint rather than a different endpoint.
+   */
+  private indexEndpoints(spec: OpenAPISpec): Map<string, IndexedEndpoint> {
+    const analysis = new SpecAnalyzer(spec, { toolNames: this.options.toolNames }).analyze();
+    const endpoints = new Map<string, IndexedEndpoint>();
+
+    for (const endpoint of analysis.endpoints) {
+      const key = `${endpoint.method} ${endpoint.path.replace(/\{[^}]+\}/g, '{}')}`;
+      endpoints.set(key, {
+        ...endpoint,
+        label: `${endpoint.method} ${endpoint.path}`,
+        parameters: this.getParameters(spec, endpoint)
+      });
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Path item parameters overridden by operation parameters
+   */
+  private getParameters(spec: OpenAPISpec, endpoint: AnalyzedEndpoint): any[] {
+    const pathParameters: any[] = (spec.paths?.[endpoint.path] as any)?.parameters || [];
+    const operationParameters: any[] = endpoint.operation.parameters || [];
+    const overridden = new Set(operationParameters.map(p => `${p.in}:${p.name}`));
+
+    return [
+      ...pathParameters.filter(p => !overridden.has(`${p.in}:${p.name}`)),
+      ...operationParameters
+    ].filter(p => p && p.name);
+  }
+
+  private compareEndpoints(oldEndpoint: IndexedEndpoint, newEndpoint: IndexedEndpoint) {
+    const endpoint = newEndpoint.label;
+
+    if (!oldEndpoint.operation.deprecated && newEndpoint.operation.deprecated) {
+      this.report('non-breaking', 'endpoint-deprecated', 'Endpoint deprecated', endpoint);
+    }
+
+    this.compareParameters(oldEndpoint, newEndpoint, endpoint);
+    this.compareRequestBodies(oldEndpoint.operation.requestBody, newEndpoint.operation.requestBody, endpoint);
+    this.compareResponses(oldEndpoint.operation.responses || {}, newEndpoint.operation.responses || {}, endpoint);
+  }
+
+  /**
+   * Match parameters by location and name, and path parameters by their
+   * position in the path template, so a renamed `{id}` is compared with
+   * the `{petId}` that replaced it
+   */
+  private compareParameters(oldEndpoint: IndexedEndpoint, newEndpoint: IndexedEndpoint, endpoint: string) {
+    const keyed = ({ path, parameters }: IndexedEndpoint) => {
+      const template = path.match(/\{[^}]+\}/g)?.map(name => name.slice(1, -1)) || [];
+      return new Map(parameters.map(p => {
+        const position = p.in === 'path' ? template.indexOf(p.name) : -1;
+        return [position === -1 ? `${p.in}.${p.name}` : `path.{${position}}`, p];
+      }));
+    };
+    const oldByKey = keyed(oldEndpoint);
+    const newByKey = keyed(newEndpoint);
+
+    for (const [key, oldParam] of oldByKey) {
+      const newParam = newByKey.get(key);
+      let location = `${oldParam.in}.${oldParam.name}`;
+
+      if (!newParam) {
+        this.report('breaking', 'parameter-removed', `Parameter "${oldParam.name}" removed`, endpoint, location);
+        continue;
+      }
+
+      // The URL is unchanged; tool arguments named after it are reported with the tools
+      if (newParam.name !== oldParam.name) {
+        location = `${newParam.in}.${newParam.name}`;
+        this.report(
+          'non-breaking',
+          'parameter-renamed',
+          `Path parameter "${oldParam.name}" renamed to "${newParam.name}"`,
+          endpoint,
+          location
+        );
+      }
+
+      if (!oldParam.required && newParam.required) {
+        this.report('breaking', 'parameter-required', `Parameter "${newParam.name}" became required`, endpoint, location);
+      } else if (oldParam.required && !newParam.required) {
+        this.report('non-breaking', 'parameter-optional', `Parameter "${newParam.name}" became optional`, endpoint, location);
+      }
+
+      this.compareSchemas(oldParam.schema, newParam.schema, 'request', endpoint, location);
+    }
+
+    for (const [key, newParam] of newByKey) {
+      if (oldByKey.has(key)) continue;
+
+      const location = `${newParam.in}.${newParam.name}`;
+      if (newParam.required) {
+        this.report('breaking', 'required-parameter-added', `Required parameter "${newParam.name}" added`, endpoint, location);
+      } else {
+        this.report('non-breaking', 'parameter-added', `Optional parameter "${newParam.name}" added`, endpoint, location);
+      }
+    }
+  }
+
+  private compareRequestBodies(oldBody: any, newBody: any, endpoint: string) {
+    if (!oldBody && !newBody) return;
+
+    if (!oldBody) {
+      this.report(
+        newBody.required ? 'breaking' : 'non-breaking',
+        'request-body-added',
+        `${newBody.required ? 'Required' : 'Optional'} request body added`,
+        endpoint,
+        'body'
+      );
+      return;
+    }
+
+    if (!newBody) {
+      this.report('breaking', 'request-body-removed', 'Request body removed', endpoint, 'body');
+      return;
+    }
+
+    if (!oldBody.required && newBody.required) {
+      this.report('breaking', 'request-body-required', 'Request body became required', endpoint, 'body');
+    }
+
+    for (const mediaType of Object.keys(oldBody.content || {})) {
+      if (!newBody.content?.[mediaType]) {
+        this.report('breaking', 'media-type-removed', `Request content type "${mediaType}" no longer accepted`, endpoint, 'body');
+      }
+    }
+
+    this.compareSchemas(
+      this.getMediaSchema(oldBody.content),
+      this.getMediaSchema(newBody.content),
+      'request',
+      endpoint,
+      'body'
+    );
+  }
+
+  private compareResponses(oldResponses: Record<string, any>, newResponses: Record<string, any>, endpoint: string) {
+    for (const [status, oldResponse] of Object.entries(oldResponses)) {
+      const newResponse = newResponses[status];
+      const location = `response ${status}`;
+
+      if (!newResponse) {
+        // Clients rely on success responses; dropping an error response is harmless
+        this.report(
+          status.startsWith('2') ? 'breaking' : 'non-breaking',
+          'response-removed',
+          `Response ${status} removed`,
+          endpoint,
+          location
+        );
+        continue;
+      }
+
+      this.compareSchemas(
+        this.getMediaSchema(oldResponse?.content),
+        this.getMediaSchema(newResponse?.content),
+        'response',
+        endpoint,
+        `${location} body`
+      );
+    }
+
+    for (const status of Object.keys(newResponses)) {
+      if (!oldResponses[status]) {
+        this.report('non-breaking', 'response-added', `Response ${status} added`, endpoint, `response ${status}`);
+      }
+    }
+  }
+
+  /**
+   * Compare two schemas. What counts as breaking depends on direction:
+   * requests may only get more permissive, responses only more specific.
+   */
+  private compareSchemas(
+    oldSchema: any,
+    newSchema: any,
+    direction: Direction,
+    endpoint: string,
+    location: string,
+    seen: Map<any, Set<any>> = new Map()
+  ) {
+    if (!oldSchema || !newSchema || typeof oldSchema !== 'object' || typeof newSchema !== 'object') return;
+
+    // Recursive schemas: each pair is compared once
+    if (seen.get(oldSchema)?.has(newSchema)) return;
+    if (!seen.has(oldSchema)) seen.set(oldSchema, new Set());
+    seen.get(oldSchema)!.add(newSchema);
+
+    if (oldSchema.$ref || newSchema.$ref) {
+      if (oldSchema.$ref !== newSchema.$ref) {
+        this.report('breaking', 'schema-changed', `Schema changed from ${oldSchema.$ref || 'inline'} to ${newSchema.$ref || 'inline'}`, endpoint, location);
+      }
+      return;
+    }
+
+    const narrowing = direction === 'request' ? 'breaking' : 'non-breaking';
+    const widening = direction === 'request' ? 'non-breaking' : 'breaking';
+
+    // Types
+    const oldTypes = schemaTypes(oldSchema);
+    const newTypes = schemaTypes(newSchema);
+    if (oldTypes.length > 0 && newTypes.length > 0) {
+      const covers = (types: string[], type: string) =>
+        types.includes(type) || (type === 'integer' && types.includes('number'));
+      const removed = oldTypes.filter(t => !covers(newTypes, t));
+      const added = newTypes.filter(t => !covers(oldTypes, t));
+
+      if (removed.length > 0 || added.length > 0) {
+        const severity: ChangeSeverity = removed.length > 0 && added.length > 0
+          ? 'breaking'
+          : removed.length > 0 ? narrowing : widening;
+        this.report(
+          severity,
+          'type-changed',
+          `Type changed from ${oldTypes.join(' | ')} to ${newTypes.join(' | ')}`,
+          endpoint,
+          location
+        );
+      }
+    }
+
+    // Enums
+    if (Array.isArray(oldSchema.enum) || Array.isArray(newSchema.enum)) {
+      if (!Array.isArray(oldSchema.enum)) {
+        this.report(narrowing, 'enum-added', 'Value restricted to an enum', endpoint, location);
+      } else if (!Array.isArray(newSchema.enum)) {
+        this.report(widening, 'enum-removed', 'Enum restriction removed', endpoint, location);
+      } else {
+        const removed = oldSchema.enum.filter((v: any) => !newSchema.enum.some((n: any) => JSON.stringify(n) === JSON.stringify(v)));
+        const added = newSchema.enum.filter((v: any) => !oldSchema.enum.some((o: any) => JSON.stringify(o) === JSON.stringify(v)));
+        if (removed.length > 0) {
+          this.report(narrowing, 'enum-values-removed', `Enum values removed: ${removed.map(formatValue).join(', ')}`, endpoint, location);
+        }
+        if (added.length > 0) {
+          this.report(widening, 'enum-values-added', `Enum values added: ${added.map(formatValue).join(', ')}`, endpoint, location);
+        }
+      }
+    }
+
+    // Object properties
+    const oldProperties = oldSchema.properties || {};
+    const newProperties = newSchema.properties || {};
+    const oldRequired = new Set<string>(oldSchema.required || []);
+    const newRequired = new Set<string>(newSchema.required || []);
+
+    for (const [name, oldProperty] of Object.entries<any>(oldProperties)) {
+      const propertyLocation = `${location}.${name}`;
+      const newProperty = newProperties[name];
+
+      if (!newProperty) {
+        this.report('breaking', 'property-removed', `Property "${name}" removed`, endpoint, propertyLocation);
+        continue;
+      }
+
+      if (!oldRequired.has(name) && newRequired.has(name) && direction === 'request') {
+        this.report('breaking', 'property-required', `Property "${name}" became required`, endpoint, propertyLocation);
+      } else if (oldRequired.has(name) && !newRequired.has(name)) {
+        this.report(widening, 'property-optional', `Property "${name}" became optional`, endpoint, propertyLocation);
+      }
+
+      this.compareSchemas(oldProperty, newProperty, direction, endpoint, propertyLocation, seen);
+    }
+
+    for (const name of Object.keys(newProperties)) {
+      if (oldProperties[name]) continue;
+
+      const requiredInRequest = direction === 'request' && newRequired.has(name);
+      this.report(
+        requiredInRequest ? 'breaking' : 'non-breaking',
+        requiredInRequest ? 'required-property-added' : 'property-added',
+        `${requiredInRequest ? 'Required property' : 'Property'} "${name}" added`,
+        endpoint,
+        `${location}.${name}`
+      );
+    }
+
+    // Array items
+    if (oldSchema.items && newSchema.items) {
+      this.compareSchemas(oldSchema.items, newSchema.items, direction, endpoint, `${location}[]`, seen);
+    }
+  }
+
+  /**
+   * Compare the tools the two specs generate: renames, removals, additions
+   * and argument changes
+   */
+  private diffTools(
+    oldEndpoints: Map<string, IndexedEndpoint>,
+    newEndpoints: Map<string, IndexedEndpoint>
+  ): ToolChange[] {
+    const tools: ToolChange[] = [];
+    const isTool = (endpoint: IndexedEndpoint) => endpoint.mcp?.kind !== 'resource';
+    const nameOf = (endpoint: IndexedEndpoint) => endpoint.toolName!;
+
+    const oldTools = new Map([...oldEndpoints].filter(([, e]) => isTool(e)));
+    const newTools = new Map([...newEndpoints].filter(([, e]) => isTool(e)));
+    const newNames = new Set([...newTools.values()].map(nameOf));
+    const oldNames = new Set([...oldTools.values()].map(nameOf));
+
+    for (const [key, oldEndpoint] of oldTools) {
+      const oldName = nameOf(oldEndpoint);
+      const newEndpoint = newTools.get(key);
+
+      if (!newEndpoint) {
+        if (!newNames.has(oldName)) {
+          tools.push({ kind: 'removed', severity: 'breaking', name: oldName, endpoint: oldEndpoint.label });
+        }
+        continue;
+      }
+
+      const newName = nameOf(newEndpoint);
+      if (newName !== oldName) {
+        tools.push({
+          kind: 'renamed',
+          severity: 'breaking',
+          name: newName,
+          previousName: oldName,
+          endpoint: newEndpoint.label
+        });
+      }
+
+      const details = this.compareSignatures(this.getSignature(oldEndpoint), this.getSignature(newEndpoint));
+      if (details.length > 0) {
+        tools.push({
+          kind: 'signature-changed',
+          severity: details.some(d => d.severity === 'breaking') ? 'breaking' : 'non-breaking',
+          name: newName,
+          endpoint: newEndpoint.label,
+          details: details.map(d => d.message)
+        });
+      }
+    }
+
+    for (const [key, newEndpoint] of newTools) {
+      const name = nameOf(newEndpoint);
+      if (!oldTools.has(key) && !oldNames.has(name)) {
+        tools.push({ kind: 'added', severity: 'non-breaking', name, endpoint: newEndpoint.label });
+      }
+    }
+
+    return tools;
+  }
+
+  /**
+   * The arguments a tool takes, as in its generated input schema
+   */
+  private getSignature(endpoint: IndexedEndpoint): Map<string, ToolArgument> {
+    const { inputSchema } = buildToolInput(
+      { ...endpoint.operation, parameters: endpoint.parameters },
+      { extensions: endpoint.mcp }
+    );
+    const required = new Set(inputSchema.required || []);
+
+    return new Map(Object.entries(inputSchema.properties).map(([name, schema]) => [
+      name,
+      { required: required.has(name), types: schemaTypes(schema) }
+    ]));
+  }
+
+  private compareSignatures(
+    oldArgs: Map<string, ToolArgument>,
+    newArgs: Map<string, ToolArgument>
+  ): Array<{ severity: ChangeSeverity; message: string }> {
+    const details: Array<{ severity: ChangeSeverity; message: string }> = [];
+
+    for (const [name, oldArg] of oldArgs) {
+      const newArg = newArgs.get(name);
+
+      if (!newArg) {
+        details.push({ severity: 'breaking', message: `argument "${name}" removed` });
+        continue;
+      }
+
+      if (!oldArg.required && newArg.required) {
+        details.push({ severity: 'breaking', message: `argument "${name}" became required` });
+      } else if (oldArg.required && !newArg.required) {
+        details.push({ severity: 'non-breaking', message: `argument "${name}" became optional` });
+      }
+
+      if (oldArg.types.join('|') !== newArg.types.join('|')) {
+        details.push({
+          severity: 'breaking',
+          message: `argument "${name}" type ${oldArg.types.join(' | ') || 'any'} → ${newArg.types.join(' | ') || 'any'}`
+        });
+      }
+    }
+
+    for (const [name, newArg] of newArgs) {
+      if (!oldArgs.has(name)) {
+        details.push({
+          severity: newArg.required ? 'breaking' : 'non-breaking',
+          message: `${newArg.required ? 'required' : 'optional'} argument "${name}" added`
+        });
+      }
+    }
+
+    return details;
+  }
+
+  private getMediaSchema(content: Record<string, any> | undefined): any {
+    if (!content) return undefined;
+    const mediaType = Object.keys(content).find(type => type.includes('json')) || Object.keys(content)[0];
+    return mediaType ? content[mediaType]?.schema : undefined;
+  }
+
+  private report(severity: ChangeSeverity, code: string, message: string, endpoint?: string, location?: string) {
+    this.changes.push({ severity, code, message, endpoint, location });
+  }
+}
+
+function formatValue(value: any): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
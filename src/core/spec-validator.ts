@@ -0,0 +1,515 @@
+/**
+ * SpecValidator - Structural diagnostics for OpenAPI documents
+ *
+ * Explains why a spec produces zero tools or trips up the analyzer. This is
+ * a partial check, not validation against the OpenAPI meta-schemas; it
+ * covers the rules the transformer depends on:
+ * - Required fields and container types of the OpenAPI 3.0/3.1 structure
+ * - Unresolved $refs (local and external)
+ * - Duplicate operationIds
+ * - Path template / path parameter mismatches
+ * - Operations without responses
+ * - Malformed `x-mcp-*` extensions
+ *
+ * Works on the unresolved document so every diagnostic can point at the
+ * exact location the author needs to fix. Swagger 2.0 documents are checked
+ * after upconversion, with pointers mapped back to the 2.0 source.
+ */
+
+import { ValidationDiagnostic, ValidationResult, DiagnosticSeverity } from '../types/validation.js';
+import { findUnresolvedRefs, getPointer, toPointer } from '../../bin/lib/ref-resolver.js';
+import { MCP_KINDS, ANNOTATION_HINTS } from '../../bin/lib/mcp-extensions.js';
+import { isSwagger2, swagger2Pointer } from '../../bin/lib/swagger2-converter.js';
+import { logger } from '../utils/logger.js';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const PARAMETER_LOCATIONS = ['query', 'header', 'path', 'cookie'];
+const COMPONENT_SECTIONS = [
+  'schemas', 'responses', 'parameters', 'examples', 'requestBodies',
+  'headers', 'securitySchemes', 'links', 'callbacks', 'pathItems'
+];
+const COMPONENT_KEY_PATTERN = /^[a-zA-Z0-9.\-_]+$/;
+const MCP_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export class SpecValidator {
+  private diagnostics: ValidationDiagnostic[] = [];
+
+  constructor(
+    private document: any,
+    private options: {
+      baseUri?: string;
+      readDocument?: (uri: string) => Promise<any>;
+      // Swagger 2.0 document `document` was converted from
+      original?: any;
+    } = {}
+  ) {}
+
+  /**
+   * Run all checks and collect diagnostics
+   */
+  async validate(): Promise<ValidationResult> {
+    logger.debug('Starting spec validation');
+    this.diagnostics = [];
+
+    if (!this.isObject(this.document)) {
+      this.report('error', 'invalid-document', 'Document is not an object', '');
+      return this.buildResult();
+    }
+
+    this.validateRoot();
+    this.validateServers(this.document.servers, '/servers');
+    this.validatePaths();
+    this.validateComponents();
+    this.validateTags();
+    this.checkDuplicateOperationIds();
+    await this.checkReferences();
+
+    const result = this.buildResult();
+    logger.debug('Spec validation complete', {
+      errors: result.errorCount,
+      warnings: result.warningCount
+    });
+    return result;
+  }
+
+  /**
+   * Root object: openapi version, info and top-level containers
+   */
+  private validateRoot() {
+    const { openapi, info } = this.document;
+
+    if (typeof openapi !== 'string') {
+      this.report('error', 'missing-openapi', 'Missing required "openapi" version string', '/openapi');
+    } else if (!/^3\.[01]\.\d+(-.+)?$/.test(openapi)) {
+      this.report('error', 'unsupported-version', `Unsupported OpenAPI version "${openapi}" (expected 3.0.x or 3.1.x)`, '/openapi');
+    }
+
+    if (!this.isObject(info)) {
+      this.report('error', 'missing-info', 'Missing required "info" object', '/info');
+    } else {
+      this.requireString(info, 'title', '/info');
+      this.requireString(info, 'version', '/info');
+      if (info.license !== undefined && typeof info.license?.name !== 'string') {
+        this.report('error', 'invalid-license', 'License object requires a "name"', '/info/license');
+      }
+    }
+
+    if (this.is31()) {
+      if (!this.document.paths && !this.document.components && !this.document.webhooks) {
+        this.report('error', 'empty-document', 'OpenAPI 3.1 requires at least one of "paths", "components" or "webhooks"', '');
+      }
+    } else if (this.document.paths === undefined) {
+      this.report('error', 'missing-paths', 'Missing required "paths" object', '/paths');
+    }
+
+    if (this.document.paths !== undefined && !this.isObject(this.document.paths)) {
+      this.report('error', 'invalid-type', '"paths" must be an object', '/paths');
+    }
+
+    if (this.document.security !== undefined && !Array.isArray(this.document.security)) {
+      this.report('error', 'invalid-type', '"security" must be an array', '/security');
+    }
+  }
+
+  private validateServers(servers: any, pointer: string) {
+    if (servers === undefined) return;
+
+    if (!Array.isArray(servers)) {
+      this.report('error', 'invalid-type', '"servers" must be an array', pointer);
+      return;
+    }
+
+    servers.forEach((server, index) => {
+      if (!this.isObject(server) || typeof server.url !== 'string') {
+        this.report('error', 'invalid-server', 'Server object requires a "url" string', `${pointer}/${index}`);
+      }
+    });
+  }
+
+  /**
+   * Path items, operations, parameters and responses
+   */
+  private validatePaths() {
+    const paths = this.document.paths;
+    if (!this.isObject(paths)) return;
+
+    if (Object.keys(paths).length === 0) {
+      this.report('warning', 'no-paths', 'Document defines no paths, so no tools will be generated', '/paths');
+    }
+
+    for (const [path, pathItem] of Object.entries<any>(paths)) {
+      const pathPointer = `/paths${toPointer([path])}`;
+
+      if (!path.startsWith('/')) {
+        this.report('error', 'invalid-path', `Path "${path}" must start with "/"`, pathPointer);
+      }
+
+      if (!this.isObject(pathItem)) {
+        this.report('error', 'invalid-path-item', 'Path item must be an object', pathPointer);
+        continue;
+      }
+
+      if (pathItem.$ref) continue;
+
+      this.validateServers(pathItem.servers, `${pathPointer}/servers`);
+      this.validateParameters(pathItem.parameters, `${pathPointer}/parameters`);
+
+      const templateNames = this.getTemplateNames(path);
+      const pathLevelParams = this.getPathParameterNames(pathItem.parameters);
+      let operationCount = 0;
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (operation === undefined) continue;
+
+        operationCount++;
+        const operationPointer = `${pathPointer}/${method}`;
+
+        if (!this.isObject(operation)) {
+          this.report('error', 'invalid-operation', 'Operation must be an object', operationPointer);
+          continue;
+        }
+
+        this.validateOperation(operation, operationPointer, pathItem.parameters);
+        this.checkPathParameters(
+          path,
+          templateNames,
+          new Set([...pathLevelParams, ...this.getPathParameterNames(operation.parameters)]),
+          operationPointer
+        );
+      }
+
+      if (operationCount === 0) {
+        this.report('warning', 'no-operations', `Path "${path}" has no operations`, pathPointer);
+      }
+    }
+  }
+
+  private validateOperation(operation: any, pointer: string, pathParameters: any[] = []) {
+    if (operation.operationId !== undefined && typeof operation.operationId !== 'string') {
+      this.report('error', 'invalid-type', '"operationId" must be a string', `${pointer}/operationId`);
+    }
+
+    if (operation.tags !== undefined && !Array.isArray(operation.tags)) {
+      this.report('error', 'invalid-type', '"tags" must be an array', `${pointer}/tags`);
+    }
+
+    this.validateParameters(operation.parameters, `${pointer}/parameters`);
+    this.validateServers(operation.servers, `${pointer}/servers`);
+    this.validateMCPExtensions(operation, pointer, pathParameters);
+
+    if (operation.requestBody !== undefined) {
+      const requestBody = this.derefLocal(operation.requestBody);
+      if (this.isObject(requestBody) && !operation.requestBody.$ref && !this.isObject(requestBody.content)) {
+        this.report('error', 'invalid-request-body', 'Request body requires a "content" map', `${pointer}/requestBody`);
+      }
+    }
+
+    const responses = operation.responses;
+    if (responses === undefined || (this.isObject(responses) && Object.keys(responses).length === 0)) {
+      this.report(
+        this.is31() ? 'warning' : 'error',
+        'no-responses',
+        'Operation declares no responses',
+        `${pointer}/responses`
+      );
+    } else if (!this.isObject(responses)) {
+      this.report('error', 'invalid-type', '"responses" must be an object', `${pointer}/responses`);
+    } else {
+      for (const [status, response] of Object.entries<any>(responses)) {
+        const responsePointer = `${pointer}/responses${toPointer([status])}`;
+
+        if (!/^([1-5](\d\d|XX)|default)$/.test(status) && !status.startsWith('x-')) {
+          this.report('error', 'invalid-status-code', `Invalid response status code "${status}"`, responsePointer);
+        }
+
+        if (this.isObject(response) && !response.$ref && typeof response.description !== 'string') {
+          this.report('error', 'missing-description', 'Response object requires a "description"', responsePointer);
+        }
+      }
+    }
+  }
+
+  private validateParameters(parameters: any, pointer: string) {
+    if (parameters === undefined) return;
+
+    if (!Array.isArray(parameters)) {
+      this.report('error', 'invalid-type', '"parameters" must be an array', pointer);
+      return;
+    }
+
+    const seen = new Set<string>();
+
+    parameters.forEach((raw, index) => {
+      const parameterPointer = `${pointer}/${index}`;
+      const parameter = this.validateParameter(raw, parameterPointer);
+      if (!parameter) return;
+
+      const key = `${parameter.in}:${parameter.name}`;
+      if (seen.has(key)) {
+        this.report('error', 'duplicate-parameter', `Duplicate ${parameter.in} parameter "${parameter.name}"`, parameterPointer);
+      }
+      seen.add(key);
+    });
+  }
+
+  private validateParameter(raw: any, pointer: string): any {
+    const parameter = this.derefLocal(raw);
+
+    if (!this.isObject(parameter)) {
+      if (!raw?.$ref) {
+        this.report('error', 'invalid-parameter', 'Parameter must be an object', pointer);
+      }
+      return null;
+    }
+
+    // Structural problems of referenced parameters are reported at the component
+    if (raw.$ref) return parameter;
+
+    if (typeof parameter.name !== 'string') {
+      this.report('error', 'invalid-parameter', 'Parameter requires a "name"', pointer);
+    }
+
+    if (!PARAMETER_LOCATIONS.includes(parameter.in)) {
+      this.report('error', 'invalid-parameter', `Parameter "in" must be one of ${PARAMETER_LOCATIONS.join(', ')}`, `${pointer}/in`);
+    }
+
+    if (parameter.in === 'path' && parameter.required !== true) {
+      this.report('error', 'path-parameter-not-required', `Path parameter "${parameter.name}" must be required`, pointer);
+    }
+
+    if (parameter.schema === undefined && parameter.content === undefined) {
+      this.report('warning', 'untyped-parameter', `Parameter "${parameter.name}" has neither "schema" nor "content"`, pointer);
+    }
+
+    return parameter;
+  }
+
+  private checkPathParameters(path: string, templateNames: string[], declared: Set<string>, pointer: string) {
+    for (const name of templateNames) {
+      if (!declared.has(name)) {
+        this.report('error', 'path-parameter-missing', `Path template variable "{${name}}" in "${path}" has no matching path parameter`, `${pointer}/parameters`);
+      }
+    }
+
+    for (const name of declared) {
+      if (!templateNames.includes(name)) {
+        this.report('error', 'path-parameter-unused', `Path parameter "${name}" does not appear in "${path}"`, `${pointer}/parameters`);
+      }
+    }
+  }
+
+  private validateComponents() {
+    const components = this.document.components;
+    if (components === undefined) return;
+
+    if (!this.isObject(components)) {
+      this.report('error', 'invalid-type', '"components" must be an object', '/components');
+      return;
+    }
+
+    for (const section of COMPONENT_SECTIONS) {
+      const entries = components[section];
+      if (entries === undefined) continue;
+
+      const sectionPointer = `/components/${section}`;
+      if (!this.isObject(entries)) {
+        this.report('error', 'invalid-type', `"components.${section}" must be an object`, sectionPointer);
+        continue;
+      }
+
+      for (const name of Object.keys(entries)) {
+        if (!COMPONENT_KEY_PATTERN.test(name)) {
+          this.report('error', 'invalid-component-name', `Component name "${name}" must match ${COMPONENT_KEY_PATTERN}`, `${sectionPointer}${toPointer([name])}`);
+        }
+      }
+    }
+
+    if (this.isObject(components.parameters)) {
+      for (const [name, parameter] of Object.entries(components.parameters)) {
+        this.validateParameter(parameter, `/components/parameters${toPointer([name])}`);
+      }
+    }
+  }
+
+  private validateTags() {
+    const tags = this.document.tags;
+    if (tags === undefined) return;
+
+    if (!Array.isArray(tags)) {
+      this.report('error', 'invalid-type', '"tags" must be an array', '/tags');
+      return;
+    }
+
+    tags.forEach((tag, index) => {
+      if (!this.isObject(tag) || typeof tag.name !== 'string') {
+        this.report('error', 'invalid-tag', 'Tag object requires a "name"', `/tags/${index}`);
+      }
+    });
+  }
+
+  private checkDuplicateOperationIds() {
+    const seen = new Map<string, string>();
+
+    for (const [path, pathItem] of Object.entries<any>(this.document.paths || {})) {
+      if (!this.isObject(pathItem)) continue;
+
+      for (const method of HTTP_METHODS) {
+        const operationId = pathItem[method]?.operationId;
+        if (typeof operationId !== 'string') continue;
+
+        const pointer = `/paths${toPointer([path])}/${method}/operationId`;
+        const first = seen.get(operationId);
+        if (first) {
+          this.report('error', 'duplicate-operation-id', `Duplicate operationId "${operationId}" (first defined at ${first})`, pointer);
+        } else {
+          seen.set(operationId, pointer);
+        }
+      }
+    }
+  }
+
+  private async checkReferences() {
+    const unresolved = await findUnresolvedRefs(this.document, this.options);
+
+    for (const { ref, pointer, reason } of unresolved) {
+      this.report('error', 'unresolved-ref', `Unresolved $ref "${ref}": ${reason}`, pointer);
+    }
+  }
+
+  // Helper methods
+
+  private buildResult(): ValidationResult {
+    const errorCount = this.diagnostics.filter(d => d.severity === 'error').length;
+    return {
+      valid: errorCount === 0,
+      openapiVersion: this.document?.openapi,
+      errorCount,
+      warningCount: this.diagnostics.length - errorCount,
+      diagnostics: this.diagnostics
+    };
+  }
+
+  private validateMCPExtensions(operation: any, pointer: string, pathParameters: any[]) {
+    const name = operation['x-mcp-name'];
+    if (name !== undefined && (typeof name !== 'string' || !MCP_NAME_PATTERN.test(name))) {
+      this.report(
+        'warning',
+        'invalid-extension',
+        '"x-mcp-name" must be 1-64 letters, digits, "_" or "-"',
+        `${pointer}/x-mcp-name`
+      );
+    }
+
+    const kind = operation['x-mcp-kind'];
+    if (kind !== undefined && !MCP_KINDS.includes(kind)) {
+      this.report(
+        'warning',
+        'invalid-extension',
+        `"x-mcp-kind" must be ${MCP_KINDS.map(k => `"${k}"`).join(' or ')}`,
+        `${pointer}/x-mcp-kind`
+      );
+    }
+
+    const statusOperation = operation['x-mcp-status-operation'];
+    if (statusOperation !== undefined &&
+        !(typeof statusOperation === 'string' && statusOperation.trim()) &&
+        !(this.isObject(statusOperation) && (statusOperation.operationId || statusOperation.operationRef))) {
+      this.report(
+        'warning',
+        'invalid-extension',
+        '"x-mcp-status-operation" must be an operationId or a Link object with operationId or operationRef',
+        `${pointer}/x-mcp-status-operation`
+      );
+    }
+
+    const annotations = operation['x-mcp-annotations'];
+    if (annotations !== undefined) {
+      const invalid = this.isObject(annotations)
+        ? Object.entries(annotations).filter(([key, value]) => key === 'title'
+            ? typeof value !== 'string'
+            : !(ANNOTATION_HINTS as string[]).includes(key) || typeof value !== 'boolean')
+        : [];
+      if (!this.isObject(annotations) || invalid.length > 0) {
+        this.report(
+          'warning',
+          'invalid-extension',
+          `"x-mcp-annotations" must map ${ANNOTATION_HINTS.join(', ')} to booleans and title to a string` +
+            (invalid.length > 0 ? ` (invalid: ${invalid.map(([key]) => key).join(', ')})` : ''),
+          `${pointer}/x-mcp-annotations`
+        );
+      }
+    }
+
+    const hidden = operation['x-mcp-hidden-params'];
+    if (hidden === undefined) return;
+
+    if (!Array.isArray(hidden) && !this.isObject(hidden)) {
+      this.report(
+        'warning',
+        'invalid-extension',
+        '"x-mcp-hidden-params" must be a list of parameter names or a map of fixed values',
+        `${pointer}/x-mcp-hidden-params`
+      );
+      return;
+    }
+
+    const known = new Set(
+      [...(Array.isArray(pathParameters) ? pathParameters : []), ...(Array.isArray(operation.parameters) ? operation.parameters : [])]
+        .map((param: any) => this.derefLocal(param)?.name)
+    );
+    for (const paramName of Array.isArray(hidden) ? hidden : Object.keys(hidden)) {
+      if (!known.has(paramName)) {
+        this.report(
+          'warning',
+          'unknown-hidden-param',
+          `Hidden parameter "${paramName}" is not a parameter of this operation`,
+          `${pointer}/x-mcp-hidden-params`
+        );
+      }
+    }
+  }
+
+  private report(severity: DiagnosticSeverity, code: string, message: string, pointer: string) {
+    const { original } = this.options;
+    if (isSwagger2(original)) {
+      pointer = swagger2Pointer(pointer, original, this.document);
+    }
+    this.diagnostics.push({ severity, code, message, pointer });
+  }
+
+  private requireString(object: any, key: string, pointer: string) {
+    if (typeof object[key] !== 'string') {
+      this.report('error', `missing-${key}`, `Missing required "${key}" string`, `${pointer}/${key}`);
+    }
+  }
+
+  private derefLocal(node: any): any {
+    const seen = new Set<string>();
+    while (typeof node?.$ref === 'string' && node.$ref.startsWith('#') && !seen.has(node.$ref)) {
+      seen.add(node.$ref);
+      node = getPointer(this.document, decodeURIComponent(node.$ref.slice(1)));
+    }
+    return node;
+  }
+
+  private getTemplateNames(path: string): string[] {
+    return [...path.matchAll(/\{([^}]+)\}/g)].map(match => match[1]);
+  }
+
+  private getPathParameterNames(parameters: any): string[] {
+    if (!Array.isArray(parameters)) return [];
+    return parameters
+      .map(parameter => this.derefLocal(parameter))
+      .filter(parameter => parameter?.in === 'path' && typeof parameter.name === 'string')
+      .map(parameter => parameter.name);
+  }
+
+  private is31(): boolean {
+    return String(this.document.openapi || '').startsWith('3.1');
+  }
+
+  private isObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * SpecWatcher - Detects changes to spec and config sources
+ *
+ * Drives hot reload:
+ * - Local files are watched through their directory, so editors that
+ *   save by replacing the file are still noticed
+ * - URLs are polled on an interval and compared by content hash
+ * - Bursts of changes are debounced into one reload, and reloads never overlap
+ */
+
+import { watch, FSWatcher } from 'fs';
+import { basename, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createHash } from 'crypto';
+import { fetchSource, toUri } from '../../bin/lib/document-reader.js';
+import { logger } from '../utils/logger.js';
+
+export interface SpecWatcherOptions {
+  pollInterval?: number;
+  debounce?: number;
+}
+
+export class SpecWatcher {
+  private sources: string[];
+  private onChange: (changed: string[]) => Promise<void>;
+  private pollInterval: number;
+  private debounce: number;
+  private watchers: FSWatcher[] = [];
+  private pollTimers: NodeJS.Timeout[] = [];
+  private hashes: Map<string, string> = new Map();
+  private pending: Set<string> = new Set();
+  private debounceTimer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    sources: string[],
+    onChange: (changed: string[]) => Promise<void>,
+    options: SpecWatcherOptions = {}
+  ) {
+    this.sources = [...new Set(sources)];
+    this.onChange = onChange;
+    this.pollInterval = options.pollInterval ?? 30000;
+    this.debounce = options.debounce ?? 300;
+  }
+
+  /**
+   * Start watching every source
+   */
+  async start(): Promise<void> {
+    for (const source of this.sources) {
+      const uri = toUri(source);
+
+      if (uri.startsWith('file://')) {
+        this.watchFile(source, fileURLToPath(uri));
+      } else {
+        await this.pollUrl(source, uri);
+      }
+    }
+
+    logger.info('Watching specs for changes', { sources: this.sources });
+  }
+
+  /**
+   * Sources being watched
+   */
+  getSources(): string[] {
+    return [...this.sources];
+  }
+
+  /**
+   * Stop watching and cancel any pending reload
+   */
+  stop(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.pollTimers.forEach(timer => clearInterval(timer));
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.watchers = [];
+    this.pollTimers = [];
+    this.pending.clear();
+  }
+
+  private watchFile(source: string, path: string) {
+    const name = basename(path);
+
+    const watcher = watch(dirname(path), (_event, filename) => {
+      if (filename?.toString() === name) {
+        this.schedule(source);
+      }
+    });
+
+    watcher.on('error', error => {
+      logger.warn(`Stopped watching ${source}: ${error.message}`);
+    });
+
+    this.watchers.push(watcher);
+  }
+
+  private async pollUrl(source: string, uri: string) {
+    const fingerprint = async () => {
+      const { data } = await fetchSource(uri);
+      return createHash('sha256').update(data).digest('hex');
+    };
+
+    try {
+      this.hashes.set(source, await fingerprint());
+    } catch (error) {
+      logger.warn(`Initial fetch of ${source} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const timer = setInterval(async () => {
+      try {
+        const hash = await fingerprint();
+        if (hash !== this.hashes.get(source)) {
+          this.hashes.set(source, hash);
+          this.schedule(source);
+        }
+      } catch (error) {
+        // Keep serving the last good version while the URL is unavailable
+        logger.warn(`Polling ${source} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }, this.pollInterval);
+
+    this.pollTimers.push(timer);
+  }
+
+  private schedule(source: string) {
+    this.pending.add(source);
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => this.flush(), this.debounce);
+  }
+
+  private async flush() {
+    // A reload already in progress picks the pending changes up when it ends
+    if (this.running || this.pending.size === 0) {
+      return;
+    }
+
+    const changed = [...this.pending];
+    this.pending.clear();
+    this.running = true;
+
+    try {
+      logger.info('Spec sources changed', { changed });
+      await this.onChange(changed);
+    } catch (error) {
+      logger.error(`Reload failed, keeping the current version: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.running = false;
+      if (this.pending.size > 0) {
+        await this.flush();
+      }
+    }
+  }
+}
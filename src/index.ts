@@ -7,7 +7,16 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { OpenAPISpec } from './types/openapi.js';
+import {
+  CallToolRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { OpenAPISpec, NamespacedSpec } from './types/openapi.js';
+import { SpecAnalysis } from './types/analysis.js';
 import { SpecAnalyzer } from './core/spec-analyzer.js';
 import { ContextManager } from './core/context-manager.js';
 import { IntelligenceEngine } from './core/intelligence-engine.js';
@@ -17,48 +26,132 @@ import { PromptGenerator } from './generators/prompt-generator.js';
 import { ExecutionEngine } from './core/execution-engine.js';
 import { logger } from './utils/logger.js';
 import { TransformerConfig } from './types/config.js';
+import { isAsyncAPI, readAsyncAPI } from '../bin/lib/asyncapi.js';
+import { createBroker, MessageChannelHub } from '../bin/lib/message-channels.js';
+import {
+  readToolNameMapping,
+  writeToolNameMapping,
+  operationKey,
+  sanitizeToolName
+} from '../bin/lib/tool-names.js';
+import { composeCrudTools, routeCompositeCall } from '../bin/lib/composite-tools.js';
+import { SHAPING_ARGUMENTS, returnsJson, shapingProperties } from '../bin/lib/response-shaping.js';
+import { CatalogEntry, EndpointCatalog, metaTools } from '../bin/lib/meta-tools.js';
+
+/**
+ * Added, removed and changed items of one component kind after a reload
+ */
+export interface ComponentDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface ReloadSummary {
+  tools: ComponentDiff;
+  resources: ComponentDiff;
+  prompts: ComponentDiff;
+}
+
+interface GeneratedComponents {
+  tools: any[];
+  resources: any[];
+  prompts: any[];
+}
+
+/**
+ * One API served by the transformer. Each keeps its own spec (and with it
+ * its own servers and security schemes) and execution engine. AsyncAPI
+ * documents are served through their message channels instead.
+ */
+interface APIBinding {
+  namespace: string;
+  spec: OpenAPISpec;
+  specAnalyzer: SpecAnalyzer;
+  executionEngine: ExecutionEngine;
+  channels?: MessageChannelHub;
+}
 
 export class OpenAPIMCPTransformer {
-  private spec: OpenAPISpec;
+  private apis: APIBinding[];
   private config: TransformerConfig;
   private server: Server;
-  private specAnalyzer: SpecAnalyzer;
   private contextManager: ContextManager;
   private intelligenceEngine: IntelligenceEngine;
-  private executionEngine: ExecutionEngine;
+  private components: GeneratedComponents = { tools: [], resources: [], prompts: [] };
 
-  constructor(spec: OpenAPISpec, config: TransformerConfig) {
-    this.spec = spec;
+  constructor(specs: OpenAPISpec | NamespacedSpec[], config: TransformerConfig) {
     this.config = config;
     
     // Initialize core components
-    this.specAnalyzer = new SpecAnalyzer(spec);
     this.contextManager = new ContextManager(config);
     this.intelligenceEngine = new IntelligenceEngine(config);
-    this.executionEngine = new ExecutionEngine(spec, this.contextManager, this.intelligenceEngine);
+    
+    this.apis = this.createBindings(specs);
     
     // Create MCP server with capabilities based on analysis
     const capabilities = this.determineCapabilities();
+    const primary = this.apis[0].spec;
     
     this.server = new Server({
-      name: config.serverName || `${spec.info.title} MCP Server`,
-      version: config.serverVersion || spec.info.version
+      name: config.serverName || `${this.apis.map(api => api.spec.info.title).join(' + ')} MCP Server`,
+      version: config.serverVersion || primary.info.version
     }, {
       capabilities
     });
     
     logger.info('OpenAPI MCP Transformer initialized', {
-      apiTitle: spec.info.title,
-      apiVersion: spec.info.version,
+      apis: this.apis.map(api => ({
+        namespace: api.namespace,
+        title: api.spec.info.title,
+        version: api.spec.info.version
+      })),
       capabilities
     });
   }
 
+  /**
+   * Analyze every spec and merge the results. Cross-API relationships are
+   * only reported when more than one API is served.
+   */
+  analyze(context?: any): SpecAnalysis {
+    const analyses = this.apis.map(api => ({
+      namespace: api.namespace,
+      analysis: context
+        ? api.specAnalyzer.analyzeWithContext(context)
+        : api.specAnalyzer.analyze()
+    }));
+    
+    return analyses.length === 1 && !analyses[0].namespace
+      ? analyses[0].analysis
+      : SpecAnalyzer.merge(analyses);
+  }
+
   /**
    * Analyze the spec and determine server capabilities
    */
   private determineCapabilities() {
-    const analysis = this.specAnalyzer.analyze();
+    const analysis = this.analyze();
+    
+    // With hot reload every list can change later, so all are declared
+    if (this.config.watch?.enabled) {
+      return {
+        tools: { listChanged: true },
+        resources: { listChanged: true },
+        prompts: { listChanged: true },
+        sampling: this.config.intelligence?.sampling?.enabled ? {} : undefined
+      };
+    }
+    
+    // Channel resources can be subscribed to
+    if (this.apis.some(api => api.channels)) {
+      return {
+        tools: analysis.hasTools ? {} : undefined,
+        resources: { subscribe: true },
+        prompts: analysis.hasPrompts ? {} : undefined,
+        sampling: this.config.intelligence?.sampling?.enabled ? {} : undefined
+      };
+    }
     
     return {
       tools: analysis.hasTools ? {} : undefined,
@@ -68,51 +161,83 @@ export class OpenAPIMCPTransformer {
     };
   }
 
+  /**
+   * Build an API binding per spec. A single spec is served without a
+   * namespace prefix.
+   */
+  private createBindings(specs: OpenAPISpec | NamespacedSpec[], config = this.config): APIBinding[] {
+    const namespaced = Array.isArray(specs) ? specs : [{ namespace: '', spec: specs }];
+    
+    if (namespaced.length === 0) {
+      throw new Error('At least one OpenAPI spec is required');
+    }
+    
+    const toolNames = readToolNameMapping(config.generation?.tools?.naming?.mappingFile);
+    
+    return namespaced.map(({ namespace, spec }) => ({
+      namespace,
+      spec,
+      specAnalyzer: new SpecAnalyzer(spec, {
+        toolNames,
+        namespace,
+        filters: config.generation?.tools?.filters
+      }),
+      executionEngine: new ExecutionEngine(spec, this.contextManager, this.intelligenceEngine),
+      channels: isAsyncAPI(spec) ? this.createChannelHub(namespace, spec) : undefined
+    }));
+  }
+
+  /**
+   * Message channels of an AsyncAPI document. Subscribed clients are told
+   * about every message that arrives.
+   */
+  private createChannelHub(namespace: string, spec: any): MessageChannelHub {
+    const model = readAsyncAPI(spec);
+    
+    return new MessageChannelHub(model, createBroker(model), {
+      onUpdate: uri => {
+        this.server.sendResourceUpdated({ uri: namespaceUri(namespace, uri) }).catch(error =>
+          logger.warn(`Failed to notify update of ${uri}: ${error.message}`)
+        );
+      },
+      onWarning: message => logger.warn(message)
+    });
+  }
+
   /**
    * Generate and register all MCP components
    */
   async generate(): Promise<Server> {
     logger.info('Starting OpenAPI to MCP transformation');
     
-    // Analyze the specification
-    const analysis = this.specAnalyzer.analyze();
+    // Analyze the specifications
+    const analysis = this.analyze();
     logger.info('Spec analysis complete', { analysis });
     
-    // Generate tools
-    if (analysis.hasTools) {
-      const toolGenerator = new ToolGenerator(
-        this.spec,
-        this.contextManager,
-        this.intelligenceEngine
-      );
-      const tools = await toolGenerator.generateTools(analysis);
-      this.registerTools(tools);
+    const { tools, resources, prompts } = await this.generateComponents(this.apis);
+    this.components = { tools, resources, prompts };
+    this.saveToolNames();
+    
+    // Register once so list handlers cover every API; calls are routed by
+    // name, so reloads only swap the tool list
+    this.registerTools();
+    if (tools.length > 0) {
       logger.info(`Generated ${tools.length} tools`);
     }
     
-    // Generate resources
-    if (analysis.hasResources) {
-      const resourceGenerator = new ResourceGenerator(
-        this.spec,
-        this.contextManager
-      );
-      const resources = await resourceGenerator.generateResources(analysis);
+    // Parameterized channels are readable without being listed
+    if (resources.length > 0 || this.apis.some(api => api.channels)) {
       this.registerResources(resources);
       logger.info(`Generated ${resources.length} resources`);
     }
     
-    // Generate prompts
-    if (analysis.hasPrompts) {
-      const promptGenerator = new PromptGenerator(
-        this.spec,
-        this.contextManager,
-        this.intelligenceEngine
-      );
-      const prompts = await promptGenerator.generatePrompts(analysis);
+    if (prompts.length > 0) {
       this.registerPrompts(prompts);
       logger.info(`Generated ${prompts.length} prompts`);
     }
     
+    await this.startChannels(this.apis);
+    
     // Set up root handling
     this.setupRootHandling();
     
@@ -126,26 +251,220 @@ export class OpenAPIMCPTransformer {
   }
 
   /**
-   * Register generated tools with the server
+   * Re-analyze changed specs and swap the registered tools, resources and
+   * prompts in one step. Generation runs against the new specs first, so a
+   * spec that fails to analyze leaves the current registrations untouched.
+   * Connected clients are told about every list that changed.
    */
-  private registerTools(tools: any[]) {
-    for (const tool of tools) {
-      this.server.setRequestHandler(
-        tool.schema,
-        async (request, extra) => {
-          logger.debug(`Tool invoked: ${tool.name}`, { request });
+  async reload(specs: OpenAPISpec | NamespacedSpec[], config?: TransformerConfig): Promise<ReloadSummary> {
+    logger.info('Reloading OpenAPI specifications');
+    
+    // Build with the new configuration, which is only kept on success
+    const nextConfig = config || this.config;
+    const apis = this.createBindings(specs, nextConfig);
+    const next = await this.generateComponents(apis, nextConfig);
+    const previous = this.components;
+    
+    const summary: ReloadSummary = {
+      tools: diffComponents(previous.tools, next.tools, tool => tool.name),
+      resources: diffComponents(previous.resources, next.resources, resource => resource.uri),
+      prompts: diffComponents(previous.prompts, next.prompts, prompt => prompt.name)
+    };
+    
+    // Swap: handlers read the current bindings and components
+    const retired = this.apis;
+    this.apis = apis;
+    this.components = next;
+    this.config = nextConfig;
+    
+    this.registerResources(next.resources);
+    this.registerPrompts(next.prompts);
+    this.saveToolNames();
+    
+    await Promise.all(retired.map(api => api.channels?.close()));
+    await this.startChannels(apis);
+    
+    if (hasChanges(summary.tools)) {
+      await this.server.sendToolListChanged();
+    }
+    if (hasChanges(summary.resources)) {
+      await this.server.sendResourceListChanged();
+    }
+    if (hasChanges(summary.prompts)) {
+      await this.server.sendPromptListChanged();
+    }
+    
+    logger.info('Reload complete', summary);
+    return summary;
+  }
+
+  /**
+   * Record the tool names of every API in the mapping file, if configured,
+   * so the next run (and the next spec version) keeps them
+   */
+  private saveToolNames() {
+    const file = this.config.generation?.tools?.naming?.mappingFile;
+    if (!file) {
+      return;
+    }
+    
+    const names = new Map<string, string>();
+    for (const api of this.apis) {
+      for (const endpoint of api.specAnalyzer.analyze().endpoints) {
+        if (endpoint.toolName) {
+          names.set(operationKey(endpoint.method, endpoint.path, api.namespace), endpoint.toolName);
+        }
+      }
+    }
+    
+    writeToolNameMapping(file, names);
+  }
+
+  /**
+   * Generate the tools, resources and prompts of a set of APIs
+   */
+  private async generateComponents(apis: APIBinding[], config = this.config): Promise<GeneratedComponents> {
+    const tools: any[] = [];
+    const resources: any[] = [];
+    const prompts: any[] = [];
+    const endpointTools: EndpointTool[] = [];
+    const meta = Boolean(config.generation?.tools?.meta);
+    
+    for (const api of apis) {
+      if (api.channels) {
+        tools.push(...api.channels.tools().map(tool =>
+          namespaceTool(api.namespace, tool)
+        ));
+        resources.push(...api.channels.resources().map(resource =>
+          namespaceResource(api.namespace, resource)
+        ));
+        continue;
+      }
+      
+      const apiAnalysis = api.specAnalyzer.analyze();
+      
+      // Generate tools
+      if (apiAnalysis.hasTools) {
+        const toolGenerator = new ToolGenerator(
+          api.spec,
+          this.contextManager,
+          this.intelligenceEngine
+        );
+        const generated = describeTools(
+          apiAnalysis,
+          await toolGenerator.generateTools(apiAnalysis),
+          config.performance?.responses?.maxBytes
+        );
+        if (meta) {
+          endpointTools.push(...catalogEntries(api.namespace, apiAnalysis, generated));
+        } else {
+          const composed = config.generation?.tools?.composite
+            ? composeWorkflowTools(apiAnalysis, generated)
+            : generated;
+          tools.push(...composed.map(tool => namespaceTool(api.namespace, tool)));
+        }
+      }
+      
+      // Generate resources
+      if (apiAnalysis.hasResources) {
+        const resourceGenerator = new ResourceGenerator(
+          api.spec,
+          this.contextManager
+        );
+        const generated = await resourceGenerator.generateResources(apiAnalysis);
+        resources.push(...generated.map((resource: any) => namespaceResource(api.namespace, resource)));
+      }
+      
+      // Generate prompts
+      if (apiAnalysis.hasPrompts) {
+        const promptGenerator = new PromptGenerator(
+          api.spec,
+          this.contextManager,
+          this.intelligenceEngine
+        );
+        const generated = await promptGenerator.generatePrompts(apiAnalysis);
+        prompts.push(...generated.map((prompt: any) => namespacePrompt(api.namespace, prompt)));
+      }
+    }
+    
+    // Meta mode lists three tools that reach every endpoint of every API
+    if (endpointTools.length > 0) {
+      tools.push(...buildMetaTools(endpointTools).map(tool => namespaceTool('', tool)));
+    }
+    
+    return { tools, resources, prompts };
+  }
+
+  /**
+   * List the current tools and route tool calls to them by name. One
+   * handler serves every tool, so a reload or context update only has to
+   * swap the tool list.
+   */
+  private registerTools() {
+    this.server.setRequestHandler(
+      ListToolsRequestSchema,
+      async () => ({
+        tools: this.components.tools.map(listedTool)
+      })
+    );
+    
+    this.server.setRequestHandler(
+      CallToolRequestSchema,
+      async (request, extra) => {
+        const { name } = request.params;
+        logger.debug(`Tool invoked: ${name}`, { request });
+        
+        const current = this.components.tools.find(t => t.name === name);
+        if (!current) {
+          throw new Error(`Tool not found: ${name}`);
+        }
+        
+        // Message channel tools publish through the API's broker
+        const channels = this.getChannels(current.namespace);
+        if (channels?.hasTool(current.original.name)) {
+          return channels.send(current.original.name, request.params.arguments);
+        }
+        
+        // Meta tools search and describe endpoints, or call one by id
+        if (current.original?.catalog) {
+          const { meta, catalog, targets } = current.original;
+          const args = request.params.arguments as Record<string, any> | undefined;
+          if (meta !== 'call') {
+            const result = meta === 'search'
+              ? catalog.search(args?.query, { tag: args?.tag, limit: args?.limit })
+              : catalog.describe(args?.endpoint);
+            return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+          }
           
-          // Use execution engine for intelligent execution
-          const result = await this.executionEngine.executeTool(
-            tool,
-            request,
+          const { toolName, arguments: endpointArgs } = catalog.prepareCall(args?.endpoint, args?.arguments);
+          const target = targets[toolName];
+          return this.getExecutionEngine(target.namespace).executeTool(
+            target.original,
+            { ...request, params: { ...request.params, name: target.original.name, arguments: endpointArgs } },
             extra
           );
-          
-          return result;
         }
-      );
-    }
+        
+        // Composite tools run the tool of the requested action
+        if (current.original?.targets) {
+          const { toolName, arguments: args } = routeCompositeCall(current.original, request.params.arguments);
+          return this.getExecutionEngine(current.namespace).executeTool(
+            current.original.targets[toolName],
+            { ...request, params: { ...request.params, name: toolName, arguments: args } },
+            extra
+          );
+        }
+        
+        // Use the owning API's execution engine for intelligent execution
+        const result = await this.getExecutionEngine(current.namespace).executeTool(
+          current.original || current,
+          request,
+          extra
+        );
+        
+        return result;
+      }
+    );
   }
 
   /**
@@ -165,15 +484,24 @@ export class OpenAPIMCPTransformer {
     );
     
     this.server.setRequestHandler(
-      'resources/read',
+      ReadResourceRequestSchema,
       async (request) => {
+        const channel = this.findChannelResource(request.params.uri);
+        if (channel) {
+          const result = await channel.hub.read(channel.uri);
+          return {
+            contents: result.contents.map(content => ({ ...content, uri: request.params.uri }))
+          };
+        }
+        
         const resource = resources.find(r => r.uri === request.params.uri);
         if (!resource) {
           throw new Error(`Resource not found: ${request.params.uri}`);
         }
         
         // Dynamic content generation for some resources
-        const content = await this.executionEngine.getResourceContent(resource);
+        const content = await this.getExecutionEngine(resource.namespace)
+          .getResourceContent(resource.original || resource);
         
         return {
           contents: [{
@@ -186,6 +514,53 @@ export class OpenAPIMCPTransformer {
     );
   }
 
+  /**
+   * Start buffering message channels and register the subscription and
+   * resource template handlers they need
+   */
+  private async startChannels(apis: APIBinding[]) {
+    const hubs = apis.filter(api => api.channels);
+    if (hubs.length === 0) {
+      return;
+    }
+    
+    await Promise.all(hubs.map(api => api.channels!.start()));
+    
+    this.server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async () => ({
+        resourceTemplates: this.apis.flatMap(api =>
+          (api.channels?.resourceTemplates() || []).map(template => ({
+            ...template,
+            uriTemplate: namespaceUri(api.namespace, template.uriTemplate),
+            name: namespaceName(api.namespace, template.name)
+          }))
+        )
+      })
+    );
+    
+    this.server.setRequestHandler(
+      SubscribeRequestSchema,
+      async (request) => {
+        const channel = this.findChannelResource(request.params.uri);
+        if (!channel) {
+          throw new Error(`Resource not found: ${request.params.uri}`);
+        }
+        await channel.hub.subscribe(channel.uri);
+        return {};
+      }
+    );
+    
+    this.server.setRequestHandler(
+      UnsubscribeRequestSchema,
+      async (request) => {
+        const channel = this.findChannelResource(request.params.uri);
+        await channel?.hub.unsubscribe(channel.uri);
+        return {};
+      }
+    );
+  }
+
   /**
    * Register generated prompts with the server
    */
@@ -210,8 +585,8 @@ export class OpenAPIMCPTransformer {
         }
         
         // Generate dynamic prompt based on context
-        const messages = await this.executionEngine.generatePromptMessages(
-          prompt,
+        const messages = await this.getExecutionEngine(prompt.namespace).generatePromptMessages(
+          prompt.original || prompt,
           request.params.arguments
         );
         
@@ -276,9 +651,7 @@ export class OpenAPIMCPTransformer {
     logger.info('Adapting to new root configuration');
     
     // Re-analyze with new context
-    const analysis = this.specAnalyzer.analyzeWithContext(
-      this.contextManager.getCurrentContext()
-    );
+    const analysis = this.analyze(this.contextManager.getCurrentContext());
     
     // Update available tools based on context
     if (this.config.adaptive?.contextAwareTools) {
@@ -295,20 +668,26 @@ export class OpenAPIMCPTransformer {
    * Update tools based on current context
    */
   private async updateContextAwareTools(analysis: any) {
-    const toolGenerator = new ToolGenerator(
-      this.spec,
-      this.contextManager,
-      this.intelligenceEngine
-    );
+    const contextTools: any[] = [];
     
-    // Generate context-specific tools
-    const contextTools = await toolGenerator.generateContextAwareTools(
-      analysis,
-      this.contextManager.getCurrentContext()
-    );
+    for (const api of this.apis) {
+      const toolGenerator = new ToolGenerator(
+        api.spec,
+        this.contextManager,
+        this.intelligenceEngine
+      );
+      
+      // Generate context-specific tools
+      const generated = await toolGenerator.generateContextAwareTools(
+        api.specAnalyzer.analyzeWithContext(this.contextManager.getCurrentContext()),
+        this.contextManager.getCurrentContext()
+      );
+      contextTools.push(...generated.map((tool: any) => namespaceTool(api.namespace, tool)));
+    }
     
-    // Register new tools
-    this.registerTools(contextTools);
+    // Add the new tools, replacing earlier ones of the same name
+    const names = new Set(contextTools.map(tool => tool.name));
+    this.components.tools = [...this.components.tools.filter(tool => !names.has(tool.name)), ...contextTools];
     
     logger.info(`Updated with ${contextTools.length} context-aware tools`);
   }
@@ -317,16 +696,21 @@ export class OpenAPIMCPTransformer {
    * Update resources based on current roots
    */
   private async updateDynamicResources(analysis: any) {
-    const resourceGenerator = new ResourceGenerator(
-      this.spec,
-      this.contextManager
-    );
+    const dynamicResources: any[] = [];
     
-    // Generate resources based on available roots
-    const dynamicResources = await resourceGenerator.generateDynamicResources(
-      analysis,
-      this.contextManager.getRoots()
-    );
+    for (const api of this.apis) {
+      const resourceGenerator = new ResourceGenerator(
+        api.spec,
+        this.contextManager
+      );
+      
+      // Generate resources based on available roots
+      const generated = await resourceGenerator.generateDynamicResources(
+        api.specAnalyzer.analyzeWithContext(this.contextManager.getCurrentContext()),
+        this.contextManager.getRoots()
+      );
+      dynamicResources.push(...generated.map((resource: any) => namespaceResource(api.namespace, resource)));
+    }
     
     // Register new resources
     this.registerResources(dynamicResources);
@@ -334,6 +718,36 @@ export class OpenAPIMCPTransformer {
     logger.info(`Updated with ${dynamicResources.length} dynamic resources`);
   }
 
+  /**
+   * Find the execution engine of the API a namespaced item belongs to
+   */
+  private getExecutionEngine(namespace: string = ''): ExecutionEngine {
+    const api = this.apis.find(a => a.namespace === namespace) || this.apis[0];
+    return api.executionEngine;
+  }
+
+  /**
+   * Find the message channels of the API a namespaced item belongs to
+   */
+  private getChannels(namespace: string = ''): MessageChannelHub | undefined {
+    return this.apis.find(a => a.namespace === namespace)?.channels;
+  }
+
+  /**
+   * Find the channel hub serving a (namespaced) channel:// URI
+   */
+  private findChannelResource(uri: string): { hub: MessageChannelHub; uri: string } | undefined {
+    for (const api of this.apis) {
+      if (!api.channels) continue;
+      
+      const local = stripNamespaceUri(api.namespace, uri);
+      if (local && api.channels.hasResource(local)) {
+        return { hub: api.channels, uri: local };
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Start the MCP server
    */
@@ -352,6 +766,186 @@ export class OpenAPIMCPTransformer {
   }
 }
 
+// Reload helpers: compare generated items by name (or URI)
+
+function diffComponents(previous: any[], next: any[], key: (item: any) => string): ComponentDiff {
+  const before = new Map(previous.map(item => [key(item), item]));
+  const after = new Map(next.map(item => [key(item), item]));
+  
+  return {
+    added: [...after.keys()].filter(k => !before.has(k)),
+    removed: [...before.keys()].filter(k => !after.has(k)),
+    changed: [...after.keys()].filter(k =>
+      before.has(k) && describe(before.get(k)) !== describe(after.get(k))
+    )
+  };
+}
+
+// What a client sees of an item, ignoring the generator's internals
+function describe(item: any): string {
+  const { original, namespace, schema, ...visible } = item;
+  return JSON.stringify(visible);
+}
+
+function hasChanges(diff: ComponentDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.changed.length > 0;
+}
+
+// Namespacing helpers: prefix names and URIs per API, keeping the
+// generator's original item for the execution engine
+
+function namespaceName(namespace: string, name: string): string {
+  return namespace ? sanitizeToolName(`${namespace}_${name}`) : name;
+}
+
+function namespaceUri(namespace: string, uri: string): string {
+  if (!namespace) return uri;
+  const match = uri.match(/^([a-z][a-z0-9+.-]*):\/\/(.*)$/i);
+  return match ? `${match[1]}://${namespace}/${match[2]}` : `${namespace}/${uri}`;
+}
+
+// Inverse of namespaceUri; undefined when the URI is not in the namespace
+function stripNamespaceUri(namespace: string, uri: string): string | undefined {
+  if (!namespace) return uri;
+  const match = uri.match(/^([a-z][a-z0-9+.-]*):\/\/(.*)$/i);
+  const prefix = `${namespace}/`;
+  if (match) {
+    return match[2].startsWith(prefix) ? `${match[1]}://${match[2].slice(prefix.length)}` : undefined;
+  }
+  return uri.startsWith(prefix) ? uri.slice(prefix.length) : undefined;
+}
+
+/**
+ * Give each generated tool the annotations and output schema of its
+ * endpoint, unless the generator set its own, and the response shaping
+ * arguments when the endpoint returns JSON
+ */
+function describeTools(analysis: SpecAnalysis, tools: any[], defaultMaxBytes?: number): any[] {
+  const endpoints = new Map(analysis.endpoints.map(e => [e.toolName, e]));
+  return tools.map(tool => {
+    const endpoint = endpoints.get(tool.name);
+    const properties = tool.inputSchema?.properties;
+    const shapeable = endpoint && properties && returnsJson(endpoint.operation) &&
+                      !SHAPING_ARGUMENTS.some(name => name in properties);
+    return {
+      ...tool,
+      ...(endpoint?.annotations && !tool.annotations && { annotations: endpoint.annotations }),
+      ...(endpoint?.output && !tool.outputSchema && { outputSchema: endpoint.output.schema }),
+      ...(shapeable && {
+        inputSchema: {
+          ...tool.inputSchema,
+          properties: { ...properties, ...shapingProperties(defaultMaxBytes) }
+        }
+      })
+    };
+  });
+}
+
+/**
+ * Replace the tools of each CRUD workflow with one composite tool
+ * (`manage_pets`), keeping the replaced tools as routing targets
+ */
+function composeWorkflowTools(analysis: SpecAnalysis, tools: any[]): any[] {
+  const byName = new Map(tools.map(tool => [tool.name, tool]));
+  const endpoints = new Map(analysis.endpoints.map(e => [`${e.method} ${e.path}`, e]));
+  
+  const crud = analysis.workflows
+    .filter(workflow => workflow.type === 'crud' && workflow.resource)
+    .map(workflow => ({
+      resource: workflow.resource!,
+      actions: Object.fromEntries(workflow.steps.map(step => [step.action, endpoints.get(step.endpoint!)]))
+    }));
+  
+  const { tools: composites, covered } = composeCrudTools(
+    crud,
+    endpoint => (endpoint.toolName ? byName.get(endpoint.toolName) : undefined),
+    byName.keys()
+  );
+  
+  return [
+    ...composites.map(composite => ({
+      ...composite,
+      targets: Object.fromEntries(Object.values(composite.actions).map(name => [name, byName.get(name!)]))
+    })),
+    ...tools.filter(tool => !covered.has(tool.name))
+  ];
+}
+
+/**
+ * An endpoint tool reachable through the meta tools, with its catalog entry
+ */
+interface EndpointTool {
+  entry: CatalogEntry;
+  tool: any;
+}
+
+/**
+ * Catalog entries of an API's generated tools, by namespaced tool name
+ */
+function catalogEntries(namespace: string, analysis: SpecAnalysis, tools: any[]): EndpointTool[] {
+  const endpoints = new Map(analysis.endpoints.map(e => [e.toolName, e]));
+  return tools.flatMap(tool => {
+    const endpoint = endpoints.get(tool.name);
+    if (!endpoint) return [];
+    
+    const namespaced = namespaceTool(namespace, tool);
+    const { operation } = endpoint;
+    return [{
+      entry: {
+        id: namespaced.name,
+        method: endpoint.method,
+        path: endpoint.path,
+        operationId: operation.operationId,
+        summary: operation.summary,
+        description: endpoint.mcp?.description || operation.description,
+        tags: endpoint.tags || operation.tags,
+        deprecated: operation.deprecated,
+        inputSchema: tool.inputSchema,
+        outputSchema: tool.outputSchema,
+        annotations: tool.annotations
+      },
+      tool: namespaced
+    }];
+  });
+}
+
+/**
+ * search_endpoints, describe_endpoint and call_endpoint over the endpoint
+ * tools, which calls are routed to
+ */
+function buildMetaTools(endpointTools: EndpointTool[]): any[] {
+  const catalog = new EndpointCatalog(endpointTools.map(({ entry }) => entry));
+  const targets = Object.fromEntries(endpointTools.map(({ entry, tool }) => [entry.id, tool]));
+  const tools = metaTools(catalog);
+  
+  return (['search', 'describe', 'call'] as const).map(meta => ({
+    ...tools[meta],
+    meta,
+    catalog,
+    targets
+  }));
+}
+
+/**
+ * A tool as clients see it, without the fields calls are routed by
+ */
+function listedTool(tool: any): any {
+  const { original, namespace, meta, catalog, targets, actions, ...listed } = tool;
+  return listed;
+}
+
+function namespaceTool(namespace: string, tool: any): any {
+  return { ...tool, name: namespaceName(namespace, tool.name), namespace, original: tool };
+}
+
+function namespaceResource(namespace: string, resource: any): any {
+  return { ...resource, uri: namespaceUri(namespace, resource.uri), namespace, original: resource };
+}
+
+function namespacePrompt(namespace: string, prompt: any): any {
+  return { ...prompt, name: namespaceName(namespace, prompt.name), namespace, original: prompt };
+}
+
 // Export for CLI usage
 export { createCLI } from './cli/index.js';
 
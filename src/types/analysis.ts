@@ -3,6 +3,10 @@
  */
 
 import { Operation } from './openapi.js';
+import { MCPExtensions, ToolAnnotations } from '../../bin/lib/mcp-extensions.js';
+import { ChannelOperation } from '../../bin/lib/asyncapi.js';
+import { PaginationScheme } from '../../bin/lib/pagination.js';
+import { ResponseOutput } from '../../bin/lib/output-schema.js';
 
 export interface SpecAnalysis {
   // MCP feature flags
@@ -20,8 +24,29 @@ export interface SpecAnalysis {
   relationships: ResourceRelationship[];
   errorPatterns: ErrorPattern[];
   
+  // Message channels of AsyncAPI documents
+  channels?: AnalyzedChannel[];
+  
   // API capabilities
   capabilities: APICapabilities;
+  
+  // Namespaces of the APIs a merged analysis covers
+  namespaces?: string[];
+  
+  // What the endpoint filters removed, when any are configured
+  filtered?: FilterReport;
+}
+
+export interface FilterReport {
+  // Endpoints before filtering and how many were removed
+  total: number;
+  removed: number;
+  // Endpoints each filter rejects; one endpoint can count for several
+  byFilter: Array<{ filter: string; value: string; removed: number }>;
+}
+
+export interface AnalyzedChannel extends ChannelOperation {
+  namespace?: string;
 }
 
 export interface AnalyzedEndpoint {
@@ -33,6 +58,17 @@ export interface AnalyzedEndpoint {
   complexity: number;
   category?: string;
   tags?: string[];
+  namespace?: string;
+  // x-mcp-* extensions declared on the operation
+  mcp?: MCPExtensions;
+  // Unique, MCP-safe name of the tool generated for the endpoint
+  toolName?: string;
+  // How the endpoint pages through results, for GET lists that do
+  pagination?: PaginationScheme;
+  // MCP annotations of the endpoint's tool (read-only, destructive, ...)
+  annotations?: ToolAnnotations;
+  // Output schema of the tool, from the success response
+  output?: ResponseOutput;
 }
 
 export interface AnalyzedResource {
@@ -41,6 +77,7 @@ export interface AnalyzedResource {
   isCore: boolean;
   relationships: string[];
   endpoints?: string[];
+  namespace?: string;
 }
 
 export interface WorkflowPattern {
@@ -49,10 +86,13 @@ export interface WorkflowPattern {
   steps: WorkflowStep[];
   description?: string;
   complexity?: number;
+  // Resource a CRUD workflow manages (`pets` for /pets and /pets/{petId})
+  resource?: string;
 }
 
 export interface WorkflowStep {
   action: string;
+  // `METHOD path` of the endpoint the step calls
   endpoint?: string;
   description?: string;
   required?: boolean;
@@ -64,6 +104,8 @@ export interface ResourceRelationship {
   to: string;
   type: 'has_one' | 'has_many' | 'belongs_to' | 'many_to_many' | 'unknown';
   through?: string;
+  fromNamespace?: string;
+  toNamespace?: string;
 }
 
 export interface ErrorPattern {
@@ -7,6 +7,23 @@ export interface TransformerConfig {
   serverName?: string;
   serverVersion?: string;
   
+  // Additional APIs to serve from the same server, each under its own namespace
+  specs?: Array<{
+    source: string;
+    namespace?: string;
+    overlays?: string[];
+  }>;
+  
+  // OpenAPI Overlay documents applied to the specs given on the command line
+  overlays?: string[];
+  
+  // Hot reload: watch spec and config files, poll spec URLs
+  watch?: {
+    enabled?: boolean;
+    pollInterval?: number;
+    debounce?: number;
+  };
+  
   // Intelligence configuration
   intelligence?: {
     sampling?: {
@@ -38,7 +55,15 @@ export interface TransformerConfig {
       composite?: boolean;
       workflows?: boolean;
       adaptive?: boolean;
+      // List only search_endpoints, describe_endpoint and call_endpoint,
+      // which reach every endpoint (for APIs too large to list)
       meta?: boolean;
+      naming?: {
+        // JSON file pinning tool names by operation, written after generation
+        mappingFile?: string;
+      };
+      // Which endpoints become tools; applied before generation
+      filters?: ToolFilters;
     };
     resources?: {
       documentation?: boolean;
@@ -89,6 +114,12 @@ export interface TransformerConfig {
       enabled?: boolean;
       maxConcurrent?: number;
     };
+    // Response shaping. Tools of JSON endpoints also take `fields`, `select`
+    // and `maxBytes` per call
+    responses?: {
+      // Default byte budget of response bodies; larger ones are truncated
+      maxBytes?: number;
+    };
   };
   
   // Output configuration
@@ -98,3 +129,19 @@ export interface TransformerConfig {
     prettify?: boolean;
   };
 }
+
+/**
+ * Endpoint filters. Include filters keep only matching endpoints, exclude
+ * filters drop matching ones; an endpoint must pass all of them.
+ */
+export interface ToolFilters {
+  includeTags?: string[];
+  excludeTags?: string[];
+  // Path globs: `*` within a segment, `**` across segments
+  includePaths?: string[];
+  excludePaths?: string[];
+  // HTTP methods to keep
+  methods?: string[];
+  // operationIds (or x-mcp-name) to keep
+  operations?: string[];
+}
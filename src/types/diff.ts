@@ -0,0 +1,41 @@
+/**
+ * Spec diff type definitions
+ */
+
+export type ChangeSeverity = 'breaking' | 'non-breaking';
+
+export interface SpecChange {
+  severity: ChangeSeverity;
+  code: string;
+  message: string;
+  // "GET /pets/{id}", absent for spec-wide changes
+  endpoint?: string;
+  // Where in the endpoint the change is, e.g. "query.limit" or "response 200 body.items[].name"
+  location?: string;
+}
+
+export interface ToolChange {
+  kind: 'added' | 'removed' | 'renamed' | 'signature-changed';
+  severity: ChangeSeverity;
+  name: string;
+  // Previous name for renamed tools
+  previousName?: string;
+  endpoint: string;
+  details?: string[];
+}
+
+export interface SpecDiff {
+  from: { title: string; version: string };
+  to: { title: string; version: string };
+  breaking: boolean;
+  summary: {
+    breaking: number;
+    nonBreaking: number;
+    endpointsAdded: number;
+    endpointsRemoved: number;
+    endpointsChanged: number;
+    toolsAffected: number;
+  };
+  changes: SpecChange[];
+  tools: ToolChange[];
+}
@@ -6,4 +6,6 @@
 export * from './openapi.js';
 export * from './config.js';
 export * from './analysis.js';
+export * from './validation.js';
+export * from './diff.js';
 export * from './mcp.js';
@@ -54,6 +54,13 @@ export interface OpenAPISpec {
     url: string;
   };
   webhooks?: Record<string, PathItem>;
+  jsonSchemaDialect?: string;
+}
+
+export interface NamespacedSpec {
+  // Prefix for tool names, resource URIs and prompt names ('' for none)
+  namespace: string;
+  spec: OpenAPISpec;
 }
 
 export interface PathItem {
@@ -0,0 +1,21 @@
+/**
+ * Validation type definitions
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ValidationDiagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  // JSON pointer into the (unresolved) document
+  pointer: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  openapiVersion?: string;
+  errorCount: number;
+  warningCount: number;
+  diagnostics: ValidationDiagnostic[];
+}
@@ -0,0 +1,126 @@
+/**
+ * Tests for bin/lib/composite-tools.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildCompositeTool,
+  composeCrudTools,
+  compositeToolName,
+  findCrudResources,
+  routeCompositeCall
+} from '../bin/lib/composite-tools.js';
+
+const endpoints = [
+  { method: 'get', path: '/pets', name: 'listPets' },
+  { method: 'post', path: '/pets', name: 'createPet' },
+  { method: 'get', path: '/pets/{petId}', name: 'getPet' },
+  { method: 'patch', path: '/pets/{petId}', name: 'patchPet' },
+  { method: 'delete', path: '/pets/{petId}', name: 'deletePet' },
+  { method: 'get', path: '/stores/{storeId}/orders', name: 'listOrders' },
+  { method: 'get', path: '/stores/{storeId}/orders/{orderId}', name: 'getOrder' },
+  { method: 'get', path: '/users/{id}', name: 'getUser' },
+  { method: 'delete', path: '/users/{id}', name: 'deleteUser' }
+];
+
+const readOnly = { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true };
+const destructive = { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true };
+
+const tools = {
+  listPets: {
+    name: 'listPets',
+    description: 'List pets',
+    inputSchema: { type: 'object', properties: { limit: { type: 'integer' } } },
+    annotations: readOnly
+  },
+  createPet: {
+    name: 'createPet',
+    inputSchema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+  },
+  getPet: {
+    name: 'getPet',
+    description: 'Get a pet',
+    inputSchema: { type: 'object', properties: { petId: { type: 'integer' } }, required: ['petId'] },
+    annotations: readOnly
+  },
+  patchPet: { name: 'patchPet', inputSchema: { type: 'object', properties: { petId: { type: 'integer' } } } },
+  deletePet: {
+    name: 'deletePet',
+    inputSchema: { type: 'object', properties: { petId: { type: 'integer' } }, required: ['petId'] },
+    annotations: destructive
+  }
+};
+
+test('CRUD resources are found from collection and item paths', () => {
+  const resources = findCrudResources(endpoints);
+  assert.deepEqual(resources.map(({ resource, collectionPath, itemPath, actions }) => ({
+    resource, collectionPath, itemPath, actions: Object.fromEntries(Object.entries(actions).map(([a, e]) => [a, e.name]))
+  })), [{
+    resource: 'pets',
+    collectionPath: '/pets',
+    itemPath: '/pets/{petId}',
+    actions: { list: 'listPets', create: 'createPet', get: 'getPet', update: 'patchPet', delete: 'deletePet' }
+  }]);
+
+  // Nested resources count too once they have enough actions
+  assert.deepEqual(findCrudResources(endpoints, { minActions: 2 }).map(resource => resource.itemPath),
+                   ['/pets/{petId}', '/stores/{storeId}/orders/{orderId}', '/users/{id}']);
+  assert.equal(compositeToolName('petOwners'), 'manage_pet_owners');
+});
+
+test('composite tools have one input branch per action and combined annotations', () => {
+  const tool = buildCompositeTool('pets', {
+    list: tools.listPets,
+    get: tools.getPet,
+    delete: tools.deletePet
+  });
+
+  assert.equal(tool.name, 'manage_pets');
+  assert.equal(tool.description, 'Manage pets: list, get, delete. Set "action" and the arguments that action takes.');
+  assert.deepEqual(tool.actions, { list: 'listPets', get: 'getPet', delete: 'deletePet' });
+  assert.deepEqual(tool.inputSchema.properties.action, {
+    type: 'string',
+    enum: ['list', 'get', 'delete'],
+    description: 'list: List pets; get: Get a pet; delete: deletePet'
+  });
+  assert.deepEqual(tool.inputSchema.oneOf[1], {
+    type: 'object',
+    title: 'get',
+    description: 'Get a pet',
+    properties: { action: { const: 'get' }, petId: { type: 'integer' } },
+    required: ['action', 'petId']
+  });
+  assert.deepEqual(tool.annotations, destructive);
+});
+
+test('composed tools replace the tools they cover; tools using "action" stay standalone', () => {
+  const resources = findCrudResources(endpoints);
+  const withAction = {
+    ...tools,
+    createPet: { name: 'createPet', inputSchema: { type: 'object', properties: { action: { type: 'string' } } } }
+  };
+
+  const { tools: composed, covered } = composeCrudTools(resources, endpoint => withAction[endpoint.name], ['manage_pets']);
+  assert.equal(composed.length, 1);
+  assert.equal(composed[0].name, 'manage_pets_2');
+  assert.deepEqual(Object.keys(composed[0].actions), ['list', 'get', 'update', 'delete']);
+  assert.deepEqual([...covered].sort(), ['deletePet', 'getPet', 'listPets', 'patchPet']);
+
+  // A resource left with a single tool is not composed
+  assert.deepEqual(composeCrudTools(resources, endpoint => endpoint.name === 'getPet' ? tools.getPet : undefined).tools, []);
+});
+
+test('calls are routed to the tool of their action', () => {
+  const tool = buildCompositeTool('pets', { get: tools.getPet, delete: tools.deletePet });
+
+  assert.deepEqual(routeCompositeCall(tool, { action: 'delete', petId: 7 }), {
+    action: 'delete',
+    toolName: 'deletePet',
+    arguments: { petId: 7 }
+  });
+  assert.throws(() => routeCompositeCall(tool, { petId: 7 }), /manage_pets needs "action": one of get, delete/);
+  assert.throws(() => routeCompositeCall(tool, undefined), /needs "action"/);
+  assert.throws(() => routeCompositeCall(tool, { action: 'create' }),
+                /manage_pets has no action "create" \(expected one of get, delete\)/);
+});
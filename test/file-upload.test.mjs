@@ -0,0 +1,31 @@
+/**
+ * Tests for bin/lib/file-upload.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectUpload, encodeUpload, fileReferenceSchema, fileSizeLimits } from '../bin/lib/file-upload.js';
+
+const binaryUpload = schema => detectUpload({
+  requestBody: { content: { 'application/octet-stream': { schema } } }
+});
+
+const data = bytes => ({ data: Buffer.alloc(bytes, 1).toString('base64') });
+
+test('size limits of binary fields are in bytes', () => {
+  const upload = binaryUpload({ type: 'string', format: 'binary', maxLength: 6 });
+  assert.equal(encodeUpload(upload, data(6)).contentLength, 6);
+  assert.throws(() => encodeUpload(upload, data(7)), /"body" is 7 bytes; at most 6 are allowed$/);
+});
+
+test('size limits of base64 fields are on the encoded length', () => {
+  // 6 bytes encode to 8 characters, 7 bytes to 12
+  const upload = binaryUpload({ type: 'string', format: 'byte', minLength: 5, maxLength: 8 });
+  assert.deepEqual(fileSizeLimits(upload.fields[0]), { minBytes: 4, maxBytes: 6 });
+  assert.match(fileReferenceSchema(upload.fields[0]).description, /at most 6 bytes; at least 4 bytes/);
+
+  assert.equal(encodeUpload(upload, data(6)).contentLength, 8);
+  assert.equal(encodeUpload(upload, data(4)).contentLength, 8);
+  assert.throws(() => encodeUpload(upload, data(7)), /is 7 bytes; at most 6 are allowed \(8 base64 characters\)/);
+  assert.throws(() => encodeUpload(upload, data(3)), /is 3 bytes; at least 4 are required \(5 base64 characters\)/);
+});
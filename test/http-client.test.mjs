@@ -0,0 +1,298 @@
+/**
+ * Tests for bin/lib/http-client.js against a local HTTP server
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import {
+  buildHttpRequest,
+  followUpRequest,
+  sendHttpRequest,
+  serverUrlFor,
+  toToolResult
+} from '../bin/lib/http-client.js';
+import { applyHiddenParams } from '../bin/lib/mcp-extensions.js';
+
+let server;
+let baseUrl;
+const received = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ method: req.method, url: req.url, headers: req.headers, body });
+
+      if (req.url.startsWith('/slow')) {
+        return;
+      }
+      if (req.url.startsWith('/missing')) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Pet not found' }));
+        return;
+      }
+      if (req.url.startsWith('/text')) {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('plain text');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Request-Id': 'abc' });
+      res.end(JSON.stringify({ ok: true }));
+    });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+const spec = { servers: [{ url: 'https://api.example.com/v1' }] };
+const noParts = { path: {}, query: {}, header: {}, cookie: {} };
+
+async function send(entry, parts, options = {}) {
+  received.length = 0;
+  const request = buildHttpRequest(spec, entry, { ...noParts, ...parts }, { baseUrl, ...options });
+  const response = await sendHttpRequest(request);
+  return { request, response, received: received[0] };
+}
+
+test('serverUrlFor picks the most specific server and fills in variables', () => {
+  const templated = {
+    servers: [{ url: 'https://{region}.example.com/v1/', variables: { region: { default: 'eu' } } }]
+  };
+  assert.equal(serverUrlFor(templated), 'https://eu.example.com/v1');
+  assert.equal(
+    serverUrlFor(templated, { servers: [{ url: 'https://op.example.com' }] }),
+    'https://op.example.com'
+  );
+  assert.equal(serverUrlFor({ servers: [{ url: '/api' }] }, {}, {}, { specUrl: 'https://host.example/spec.json' }),
+               'https://host.example/api');
+  assert.equal(serverUrlFor(templated, {}, {}, { baseUrl: 'http://localhost:8080/' }), 'http://localhost:8080');
+  assert.throws(() => serverUrlFor({}), /declares no servers/);
+  assert.throws(() => serverUrlFor({ servers: [{ url: '/api' }] }), /is relative/);
+});
+
+test('path parameters follow simple, label and matrix styles', async () => {
+  const entry = {
+    path: '/pets/{id}/{tags}/{color}',
+    method: 'get',
+    operation: {
+      parameters: [
+        { name: 'id', in: 'path' },
+        { name: 'tags', in: 'path', style: 'label', explode: true },
+        { name: 'color', in: 'path', style: 'matrix' }
+      ]
+    }
+  };
+  const { received } = await send(entry, { path: { id: 'a b', tags: ['x', 'y'], color: ['red', 'blue'] } });
+  assert.equal(received.url, '/pets/a%20b/.x.y/;color=red,blue');
+
+  assert.throws(() => buildHttpRequest(spec, entry, noParts), /Missing path parameter "id"/);
+});
+
+test('query parameters follow form, delimited and deepObject styles', async () => {
+  const entry = {
+    path: '/pets',
+    method: 'get',
+    operation: {
+      parameters: [
+        { name: 'tags', in: 'query' },
+        { name: 'ids', in: 'query', style: 'pipeDelimited', explode: false },
+        { name: 'words', in: 'query', style: 'spaceDelimited', explode: false },
+        { name: 'filter', in: 'query', style: 'deepObject', explode: true },
+        { name: 'point', in: 'query', explode: false }
+      ]
+    }
+  };
+  const { received } = await send(entry, {
+    query: {
+      tags: ['cat', 'dog'],
+      ids: [1, 2],
+      words: ['a', 'b'],
+      filter: { status: 'sold', age: 3 },
+      point: { x: 1, y: 2 },
+      q: 'a&b'
+    }
+  });
+  assert.equal(
+    received.url,
+    '/pets?tags=cat&tags=dog&ids=1%7C2&words=a%20b&filter%5Bstatus%5D=sold&filter%5Bage%5D=3&point=x%2C1%2Cy%2C2&q=a%26b'
+  );
+});
+
+test('header and cookie parameters are serialized', async () => {
+  const entry = {
+    path: '/pets',
+    method: 'get',
+    operation: {
+      parameters: [
+        { name: 'X-Tags', in: 'header' },
+        { name: 'X-Point', in: 'header', explode: true }
+      ]
+    }
+  };
+  const { received } = await send(entry, {
+    header: { 'X-Tags': ['a', 'b'], 'X-Point': { x: 1, y: 2 } },
+    cookie: { session: 'a b', ids: [1, 2] }
+  });
+  assert.equal(received.headers['x-tags'], 'a,b');
+  assert.equal(received.headers['x-point'], 'x=1,y=2');
+  assert.equal(received.headers.cookie, 'session=a%20b; ids=1%2C2');
+});
+
+test('hidden auth parameters are sent where they are declared', async () => {
+  const operation = {
+    parameters: [
+      { name: 'X-API-Key', in: 'header' },
+      { name: 'api_key', in: 'query', schema: { default: 'from-default' } }
+    ]
+  };
+  const hidden = applyHiddenParams(
+    { 'X-API-Key': 'from-model' },
+    { hiddenParams: { 'X-API-Key': 'secret', api_key: undefined } },
+    operation.parameters
+  );
+  const parts = { ...noParts, header: {}, query: {} };
+  for (const [name, value] of Object.entries(hidden)) {
+    parts[operation.parameters.find(param => param.name === name).in][name] = value;
+  }
+
+  const { received } = await send({ path: '/pets', method: 'get', operation }, parts);
+  assert.equal(received.headers['x-api-key'], 'secret');
+  assert.equal(received.url, '/pets?api_key=from-default');
+});
+
+test('bodies are encoded by content type', async () => {
+  const entry = { path: '/pets', method: 'post', operation: {} };
+
+  let { received } = await send(entry, { body: { name: 'Rex', tags: ['a'] } });
+  assert.equal(received.method, 'POST');
+  assert.equal(received.headers['content-type'], 'application/json');
+  assert.deepEqual(JSON.parse(received.body), { name: 'Rex', tags: ['a'] });
+
+  ({ received } = await send(entry, { body: { name: 'Rex', tags: ['a'] } }, {
+    contentType: 'application/x-www-form-urlencoded'
+  }));
+  assert.equal(received.body, 'name=Rex&tags=%5B%22a%22%5D');
+
+  ({ received } = await send(entry, { body: Buffer.from('raw') }, {
+    contentType: 'application/octet-stream',
+    contentLength: 3
+  }));
+  assert.equal(received.body, 'raw');
+  assert.equal(received.headers['content-length'], '3');
+});
+
+test('responses are decoded by content type whatever their status', async () => {
+  const { response } = await send({ path: '/pets', method: 'get', operation: {} }, {});
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body, { ok: true });
+  assert.equal(response.headers['x-request-id'], 'abc');
+
+  const text = await send({ path: '/text', method: 'get', operation: {} }, {});
+  assert.equal(text.response.body, 'plain text');
+
+  const missing = await send({ path: '/missing', method: 'get', operation: {} }, {});
+  assert.equal(missing.response.status, 404);
+  assert.deepEqual(missing.response.body, { message: 'Pet not found' });
+});
+
+test('toToolResult marks non-2xx responses as errors', async () => {
+  const { response } = await send({ path: '/missing', method: 'get', operation: {} }, {});
+  const result = toToolResult(response, { links: [] });
+  assert.equal(result.isError, true);
+
+  const payload = JSON.parse(result.content[0].text);
+  assert.equal(payload.status, 404);
+  assert.deepEqual(payload.body, { message: 'Pet not found' });
+  assert.deepEqual(payload.links, []);
+  assert.equal(result.structuredContent, undefined);
+
+  const ok = toToolResult({ status: 204, statusText: 'No Content', headers: {}, body: null });
+  assert.equal(ok.isError, false);
+});
+
+test('requests time out', async () => {
+  const request = buildHttpRequest(spec, { path: '/slow', method: 'get', operation: {} }, noParts, {
+    baseUrl,
+    timeout: 100
+  });
+  await assert.rejects(sendHttpRequest(request), /timeout/i);
+});
+
+test('network failures reject', async () => {
+  const closed = createServer();
+  await new Promise(resolve => closed.listen(0, '127.0.0.1', resolve));
+  const { port } = closed.address();
+  await new Promise(resolve => closed.close(resolve));
+
+  const request = buildHttpRequest(spec, { path: '/pets', method: 'get', operation: {} }, noParts, {
+    baseUrl: `http://127.0.0.1:${port}`
+  });
+  await assert.rejects(sendHttpRequest(request), /ECONNREFUSED/);
+});
+
+test('followUpRequest only sends headers to the API\'s origin', () => {
+  const request = {
+    url: 'https://api.example.com/v1/reports',
+    headers: { Authorization: 'Bearer secret', Cookie: 'session=1' },
+    timeout: 1000
+  };
+
+  const status = followUpRequest(request, '/v1/jobs/7');
+  assert.deepEqual(status, {
+    method: 'GET',
+    url: 'https://api.example.com/v1/jobs/7',
+    headers: { Authorization: 'Bearer secret', Cookie: 'session=1' },
+    timeout: 1000
+  });
+
+  assert.deepEqual(followUpRequest(request, 'https://storage.example.net/result?sig=x').headers, {});
+  assert.deepEqual(followUpRequest(request, 'http://api.example.com/v1/jobs/7').headers, {});
+
+  // Relative to a status URL elsewhere, checked against the API call's origin
+  const elsewhere = { ...request, url: 'https://status.example.net/jobs/7' };
+  assert.deepEqual(followUpRequest(elsewhere, '/result', request.url).headers, {});
+});
+
+test('toToolResult keeps the headers that say what to do next in compact results', () => {
+  const output = { status: '201', schema: { type: 'object', properties: { id: { type: 'integer' } } }, wrapped: false };
+  const response = {
+    status: 201,
+    statusText: 'Created',
+    headers: {
+      'content-type': 'application/json',
+      location: '/pets/1',
+      'x-ratelimit-remaining': '9',
+      'ratelimit-reset': '30',
+      'set-cookie': ['session=1']
+    },
+    body: { id: 1 }
+  };
+
+  const result = toToolResult(response, {}, { output });
+  const headers = { location: '/pets/1', 'x-ratelimit-remaining': '9', 'ratelimit-reset': '30' };
+  assert.deepEqual(JSON.parse(result.content[0].text), { status: 201, headers, body: { id: 1 } });
+  assert.deepEqual(result.structuredContent, { id: 1 });
+  assert.deepEqual(result._meta, { headers });
+
+  const plain = toToolResult({ ...response, headers: { 'content-type': 'application/json' } }, {}, { output });
+  assert.deepEqual(JSON.parse(plain.content[0].text), { status: 201, body: { id: 1 } });
+  assert.equal(plain._meta, undefined);
+});
+
+test('toToolResult keeps the pagination summary in compact results', () => {
+  const items = { type: 'array', items: { type: 'integer' } };
+  const output = { status: '200', schema: { type: 'object', properties: { result: items } }, wrapped: true };
+  const pagination = { style: 'link', pages: 2, items: 3, truncated: false };
+  const response = { status: 200, statusText: 'OK', headers: {}, body: [1, 2, 3], pagination };
+
+  const result = toToolResult(response, {}, { output });
+  assert.deepEqual(JSON.parse(result.content[0].text), { status: 200, pagination, body: [1, 2, 3] });
+  assert.deepEqual(result.structuredContent, { result: [1, 2, 3] });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for bin/lib/input-schema.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildToolInput, splitToolArguments } from '../bin/lib/input-schema.js';
+import { buildCompositeTool } from '../bin/lib/composite-tools.js';
+import { validateValue } from '../bin/lib/output-schema.js';
+
+// Recursive schemas keep their refs after resolution
+const spec = {
+  components: {
+    schemas: {
+      Owner: {
+        type: 'object',
+        properties: { name: { type: 'string' }, pets: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } }
+      },
+      Pet: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string' }, owner: { $ref: '#/components/schemas/Owner' } }
+      }
+    }
+  }
+};
+
+const createPet = {
+  parameters: [{ name: 'name', in: 'query', schema: { type: 'string' } }],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string' },
+            owner: { $ref: '#/components/schemas/Owner' }
+          }
+        }
+      }
+    }
+  }
+};
+
+test('parameters and small bodies become named arguments', () => {
+  const input = buildToolInput(createPet);
+  assert.deepEqual(Object.keys(input.inputSchema.properties), ['name', 'body_name', 'owner']);
+  assert.deepEqual(input.inputSchema.required, ['body_name']);
+
+  const parts = splitToolArguments({ name: 'q', body_name: 'Rex', owner: { name: 'Ann' } }, input);
+  assert.deepEqual(parts.query, { name: 'q' });
+  assert.deepEqual(parts.body, { name: 'Rex', owner: { name: 'Ann' } });
+});
+
+test('component refs are copied into the input schema\'s own $defs', () => {
+  const { inputSchema } = buildToolInput(createPet, { spec, reserved: ['action'] });
+
+  assert.deepEqual(inputSchema.properties.owner, { $ref: '#/$defs/Owner' });
+  assert.deepEqual(Object.keys(inputSchema.$defs).sort(), ['Owner', 'Pet']);
+  assert.deepEqual(inputSchema.$defs.Owner.properties.pets.items, { $ref: '#/$defs/Pet' });
+  assert.doesNotMatch(JSON.stringify(inputSchema), /#\/components\//);
+
+  const problems = validateValue(
+    { body_name: 'Rex', owner: { pets: [{ owner: { pets: [{}] } }] } },
+    inputSchema,
+    inputSchema,
+    'arguments'
+  );
+  assert.deepEqual(problems, [
+    'arguments.owner.pets[0].name: missing (required)',
+    'arguments.owner.pets[0].owner.pets[0].name: missing (required)'
+  ]);
+
+  // Composite tools keep the definitions at their root, where the refs point
+  const composite = buildCompositeTool('pets', { create: { name: 'createPet', inputSchema } });
+  assert.deepEqual(Object.keys(composite.inputSchema.$defs).sort(), ['Owner', 'Pet']);
+  assert.equal(composite.inputSchema.oneOf[0].$defs, undefined);
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for bin/lib/links.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LinkedResults,
+  evaluateRuntimeExpression,
+  followLinkTool,
+  hasLinks,
+  linkContext,
+  nextCalls,
+  responseLinks
+} from '../bin/lib/links.js';
+import { buildToolInput } from '../bin/lib/input-schema.js';
+
+const createPet = {
+  operationId: 'createPet',
+  responses: {
+    201: {
+      description: 'Created',
+      links: {
+        GetPet: { operationId: 'getPet', parameters: { petId: '$response.body#/id' }, description: 'The new pet' },
+        TagPet: {
+          operationRef: '#/paths/~1pets~1{petId}~1tags/post',
+          parameters: { 'path.petId': '$response.body#/id' },
+          requestBody: { tag: '$request.body#/kind', note: 'added by {$request.header.x-user}' }
+        },
+        Elsewhere: { operationRef: 'https://other.example.com/openapi.json#/paths/~1a/get' }
+      }
+    },
+    '4XX': { description: 'Invalid', links: { Retry: { operationId: 'createPet' } } }
+  }
+};
+
+const operation = (path, method, spec) => ({ path, method, operation: spec, input: buildToolInput(spec) });
+const operations = new Map([
+  ['createPet', operation('/pets', 'post', createPet)],
+  ['getPet', operation('/pets/{petId}', 'get', {
+    operationId: 'getPet',
+    parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }]
+  })],
+  ['tagPet', operation('/pets/{petId}/tags', 'post', {
+    parameters: [
+      { name: 'petId', in: 'path', required: true, schema: { type: 'integer' } },
+      { name: 'tag', in: 'query', schema: { type: 'string' } }
+    ],
+    requestBody: {
+      content: { 'application/json': { schema: { type: 'object', properties: { tag: { type: 'string' }, note: { type: 'string' } } } } }
+    }
+  })]
+]);
+
+// POST /pets {"kind": "dog"} answered with 201 {"id": 7}
+const context = linkContext(
+  { path: {}, query: {}, header: {}, cookie: {}, body: { kind: 'dog' } },
+  { url: 'https://api.example.com/pets', method: 'POST', headers: { 'X-User': 'ann' } },
+  { status: 201, headers: { location: '/pets/7' }, body: { id: 7, tags: ['a/b'] } }
+);
+
+test('runtime expressions read the request and response', () => {
+  assert.equal(evaluateRuntimeExpression('$url', context), 'https://api.example.com/pets');
+  assert.equal(evaluateRuntimeExpression('$method', context), 'POST');
+  assert.equal(evaluateRuntimeExpression('$statusCode', context), 201);
+  assert.equal(evaluateRuntimeExpression('$response.body#/id', context), 7);
+  assert.equal(evaluateRuntimeExpression('$response.body#/tags/0', context), 'a/b');
+  assert.deepEqual(evaluateRuntimeExpression('$request.body', context), { kind: 'dog' });
+  assert.equal(evaluateRuntimeExpression('$response.header.Location', context), '/pets/7');
+  assert.equal(evaluateRuntimeExpression('$request.header.x-user', context), 'ann');
+  assert.equal(evaluateRuntimeExpression('/pets/{$response.body#/id}/tags', context), '/pets/7/tags');
+  assert.equal(evaluateRuntimeExpression('$response.body#/missing', context), undefined);
+  assert.equal(evaluateRuntimeExpression('$nonsense', context), undefined);
+  assert.equal(evaluateRuntimeExpression(42, context), 42);
+});
+
+test('links are picked by exact status, then range, then default', () => {
+  assert.deepEqual(Object.keys(responseLinks(createPet, 201)), ['GetPet', 'TagPet', 'Elsewhere']);
+  assert.deepEqual(Object.keys(responseLinks(createPet, 422)), ['Retry']);
+  assert.deepEqual(responseLinks(createPet, 500), {});
+  assert.equal(hasLinks({ paths: { '/pets': { post: createPet } } }), true);
+  assert.equal(hasLinks({ paths: { '/pets': { get: { responses: { 200: {} } } } } }), false);
+});
+
+test('a response\'s links become ready-made calls of the target tools', () => {
+  assert.deepEqual(nextCalls(operations.get('createPet'), context, operations), [
+    { link: 'GetPet', tool: 'getPet', description: 'The new pet', arguments: { petId: 7 } },
+    // The body field "tag" becomes body_tag next to the "tag" query parameter
+    { link: 'TagPet', tool: 'tagPet', arguments: { petId: 7, body_tag: 'dog', note: 'added by ann' } }
+  ]);
+});
+
+test('follow_link makes a stored call, with overrides, until the result expires', () => {
+  const results = new LinkedResults({ maxResults: 2 });
+  const calls = nextCalls(operations.get('createPet'), context, operations);
+  const first = results.add(calls);
+
+  assert.deepEqual(results.follow(first, 'GetPet'), { toolName: 'getPet', arguments: { petId: 7 } });
+  assert.deepEqual(results.follow(first, 'TagPet', { note: 'by hand' }), {
+    toolName: 'tagPet',
+    arguments: { petId: 7, body_tag: 'dog', note: 'by hand' }
+  });
+  assert.throws(() => results.follow(first, 'Nope'), /Result r1 has no link "Nope" \(available: GetPet, TagPet\)/);
+
+  // Only the newest results are kept
+  results.add(calls);
+  const third = results.add(calls);
+  assert.throws(() => results.follow(first, 'GetPet'), /Unknown or expired result "r1"/);
+  assert.equal(results.follow(third, 'GetPet').toolName, 'getPet');
+
+  const tool = followLinkTool();
+  assert.equal(tool.name, 'follow_link');
+  assert.ok(tool.inputSchema.required.includes('resultId'));
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for bin/lib/long-running.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  JobStore,
+  firstPollDelay,
+  isLongRunning,
+  jobState,
+  jobStatusTool,
+  pollJob,
+  statusCheckFor
+} from '../bin/lib/long-running.js';
+import { linkContext } from '../bin/lib/links.js';
+import { buildToolInput } from '../bin/lib/input-schema.js';
+
+const startReport = {
+  operationId: 'startReport',
+  responses: {
+    202: {
+      description: 'Accepted',
+      links: { Status: { operationId: 'getJob', parameters: { jobId: '$response.body#/jobId' } } }
+    }
+  }
+};
+
+const operation = (path, method, spec) => ({ path, method, operation: spec, input: buildToolInput(spec) });
+const operations = new Map([
+  ['startReport', operation('/reports', 'post', startReport)],
+  ['getJob', operation('/jobs/{jobId}', 'get', {
+    operationId: 'getJob',
+    parameters: [{ name: 'jobId', in: 'path', required: true, schema: { type: 'string' } }]
+  })]
+]);
+
+// POST /reports answered with 202 {"jobId": "j7"}
+const accepted = (headers = {}) => linkContext(
+  { path: {}, query: {}, header: {}, cookie: {} },
+  { url: 'https://api.example.com/v1/reports', method: 'POST', headers: {} },
+  { status: 202, headers, body: { jobId: 'j7' } }
+);
+
+// Status responses in order; the last one repeats
+function statusApi(responses) {
+  let calls = 0;
+  return () => Promise.resolve(responses[Math.min(calls++, responses.length - 1)]);
+}
+
+const running = (headers = {}) => ({ status: 200, headers, body: { status: 'In Progress', progress: 0.5 } });
+
+test('operations that can answer 202 are long-running', () => {
+  assert.equal(isLongRunning(startReport), true);
+  assert.equal(isLongRunning({ responses: { 200: {} } }), false);
+  assert.equal(isLongRunning(undefined), false);
+});
+
+test('job states come from the status code, then the body\'s state field', () => {
+  assert.equal(jobState({ status: 202, body: { status: 'done' } }), 'running');
+  assert.equal(jobState({ status: 500, body: null }), 'failed');
+  assert.equal(jobState({ status: 200, body: { status: 'IN_PROGRESS' } }), 'running');
+  assert.equal(jobState({ status: 200, body: { provisioningState: 'Canceled' } }), 'failed');
+  assert.equal(jobState({ status: 200, body: { state: 'complete' } }), 'succeeded');
+  assert.equal(jobState({ status: 200, body: { id: 1, name: 'report' } }), 'succeeded');
+});
+
+test('the status check is the declared operation, then a 202 link, then Location', () => {
+  const declared = { ...operations.get('startReport'), mcp: { statusOperation: { operationId: 'getJob' } } };
+  assert.deepEqual(statusCheckFor(declared, accepted(), operations), { toolName: 'getJob', arguments: { jobId: 'j7' } });
+
+  assert.deepEqual(statusCheckFor(operations.get('startReport'), accepted(), operations), {
+    toolName: 'getJob',
+    arguments: { jobId: 'j7' }
+  });
+
+  const unlinked = { operation: { responses: { 202: { description: 'Accepted' } } } };
+  assert.deepEqual(statusCheckFor(unlinked, accepted({ Location: '/v1/jobs/j7' }), operations), {
+    url: 'https://api.example.com/v1/jobs/j7'
+  });
+  assert.deepEqual(statusCheckFor(unlinked, accepted({ 'operation-location': 'https://status.example.net/j7' }), operations), {
+    url: 'https://status.example.net/j7'
+  });
+  assert.equal(statusCheckFor(unlinked, accepted(), operations), undefined);
+});
+
+test('pollJob backs off until the job finishes and fetches its result', async () => {
+  const waits = [];
+  const progress = [];
+  const fetched = [];
+  const result = await pollJob({
+    check: statusApi([
+      running(),
+      running({ 'Retry-After': '5' }),
+      running(),
+      { status: 200, headers: {}, body: { status: 'succeeded', resourceLocation: 'https://files.example.net/r7' } }
+    ]),
+    fetch: async url => {
+      fetched.push(url);
+      return { status: 200, headers: {}, body: { rows: 3 } };
+    },
+    firstDelay: 0,
+    onProgress: update => { progress.push(update); },
+    sleep: async ms => { waits.push(ms); }
+  });
+
+  assert.equal(result.state, 'succeeded');
+  assert.equal(result.polls, 4);
+  assert.deepEqual(result.response.body, { rows: 3 });
+  assert.deepEqual(fetched, ['https://files.example.net/r7']);
+  // No wait before the first poll, then 1s, Retry-After's 5s, and 2.25s (the backoff went on)
+  assert.deepEqual(waits, [1000, 5000, 2250]);
+  assert.deepEqual(progress.map(({ polls, state, progress }) => [polls, state, progress]), [
+    [1, 'running', 50],
+    [2, 'running', 50],
+    [3, 'running', 50],
+    [4, 'succeeded', undefined]
+  ]);
+});
+
+test('pollJob returns a running job when the wait times out or is aborted', async () => {
+  const sleep = async () => {};
+  const timedOut = await pollJob({ check: statusApi([running({ 'Retry-After': '10' })]), timeout: 5, sleep });
+  assert.equal(timedOut.state, 'running');
+  assert.equal(timedOut.polls, 1);
+
+  const controller = new AbortController();
+  const aborted = await pollJob({
+    check: statusApi([running()]),
+    onProgress: ({ polls }) => { if (polls === 2) controller.abort(); },
+    signal: controller.signal,
+    sleep
+  });
+  assert.equal(aborted.state, 'running');
+  assert.equal(aborted.polls, 2);
+
+  const failed = await pollJob({ check: statusApi([{ status: 200, headers: {}, body: { status: 'error' } }]), sleep });
+  assert.deepEqual([failed.state, failed.polls], ['failed', 1]);
+});
+
+test('the first poll waits for the 202\'s Retry-After, up to fifteen seconds', () => {
+  assert.equal(firstPollDelay({ headers: {} }), 1000);
+  assert.equal(firstPollDelay({ headers: { 'retry-after': '3' } }), 3000);
+  assert.equal(firstPollDelay({ headers: { 'Retry-After': '120' } }), 15000);
+  assert.equal(firstPollDelay({ headers: { 'retry-after': new Date(0).toUTCString() } }), 0);
+});
+
+test('running jobs are kept by id until they are deleted', () => {
+  const jobs = new JobStore();
+  const id = jobs.add({ toolName: 'startReport', check: { url: 'https://api.example.com/v1/jobs/j7' } });
+  assert.equal(id, 'job-1');
+
+  const job = jobs.get(id);
+  assert.equal(job.id, id);
+  assert.equal(job.toolName, 'startReport');
+  assert.ok(!Number.isNaN(Date.parse(job.startedAt)));
+
+  jobs.delete(id);
+  assert.throws(() => jobs.get(id), /Unknown or expired job "job-1"/);
+
+  const tool = jobStatusTool();
+  assert.equal(tool.name, 'job_status');
+  assert.deepEqual(Object.keys(tool.inputSchema.properties), ['jobId', 'wait', 'waitTimeout']);
+  assert.deepEqual(tool.inputSchema.required, ['jobId']);
+});
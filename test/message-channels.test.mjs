@@ -0,0 +1,170 @@
+/**
+ * Tests for bin/lib/message-channels.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readAsyncAPI } from '../bin/lib/asyncapi.js';
+import {
+  InMemoryBroker,
+  MessageChannelHub,
+  WebSocketBroker,
+  createBroker
+} from '../bin/lib/message-channels.js';
+
+const chat = {
+  asyncapi: '2.6.0',
+  info: { title: 'Chat', version: '1.0.0' },
+  channels: {
+    'rooms/{roomId}': {
+      parameters: { roomId: { schema: { type: 'string' } } },
+      publish: {
+        operationId: 'postMessage',
+        message: { payload: { type: 'object', properties: { text: { type: 'string' } } } }
+      },
+      subscribe: { operationId: 'roomMessages', message: { payload: { type: 'object' } } }
+    },
+    lobby: {
+      subscribe: { operationId: 'lobbyMessages', message: { payload: { type: 'string' } } }
+    }
+  }
+};
+
+const wait = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+async function loadWebSocketServer() {
+  try {
+    return (await import('ws')).WebSocketServer;
+  } catch {
+    return undefined;
+  }
+}
+
+test('InMemoryBroker delivers to subscribers until they unsubscribe', async () => {
+  const broker = new InMemoryBroker();
+  const received = [];
+  const unsubscribe = await broker.subscribe('rooms/1', message => received.push(message));
+
+  await broker.publish('rooms/1', { text: 'hi' }, { headers: { from: 'ann' } });
+  await broker.publish('rooms/2', { text: 'elsewhere' });
+  await unsubscribe();
+  await broker.publish('rooms/1', { text: 'gone' });
+
+  assert.deepEqual(received, [{ payload: { text: 'hi' }, headers: { from: 'ann' } }]);
+  await broker.close();
+});
+
+test('createBroker uses the in-memory broker without servers', () => {
+  const model = readAsyncAPI(chat);
+  assert.ok(createBroker(model) instanceof InMemoryBroker);
+
+  const broker = new InMemoryBroker();
+  assert.equal(createBroker(model, { broker }), broker);
+
+  const servers = readAsyncAPI({ ...chat, servers: { mqtt: { url: 'mqtt://broker', protocol: 'mqtt' } } });
+  assert.throws(() => createBroker(servers), /protocol "mqtt".*not supported/);
+  assert.throws(() => createBroker(servers, { server: 'other' }), /server "other" is not defined/);
+});
+
+test('MessageChannelHub turns operations into tools, resources and templates', () => {
+  const hub = new MessageChannelHub(readAsyncAPI(chat), new InMemoryBroker());
+
+  const tools = hub.tools();
+  assert.deepEqual(tools.map(tool => tool.name), ['postMessage']);
+  assert.deepEqual(tools[0].inputSchema.required, ['roomId', 'message']);
+  assert.equal(tools[0].inputSchema.properties.message.type, 'object');
+
+  assert.deepEqual(hub.resources().map(resource => resource.uri), ['channel://lobby']);
+  assert.deepEqual(hub.resourceTemplates().map(template => template.uriTemplate), ['channel://rooms/{roomId}']);
+  assert.ok(hub.hasTool('postMessage'));
+  assert.ok(hub.hasResource('channel://rooms/42'));
+  assert.ok(!hub.hasResource('channel://kitchen'));
+});
+
+test('MessageChannelHub buffers sent messages and reports updates to subscribers', async () => {
+  const updates = [];
+  const hub = new MessageChannelHub(readAsyncAPI(chat), new InMemoryBroker(), {
+    bufferSize: 2,
+    onUpdate: uri => updates.push(uri)
+  });
+  await hub.start();
+  await hub.subscribe('channel://rooms/1');
+
+  for (const text of ['one', 'two', 'three']) {
+    const result = await hub.send('postMessage', { roomId: '1', message: { text } });
+    assert.equal(result.isError, undefined);
+    assert.equal(result.content[0].text, 'Sent message to rooms/1');
+  }
+
+  const { contents } = await hub.read('channel://rooms/1');
+  const read = JSON.parse(contents[0].text);
+  assert.equal(read.channel, 'rooms/1');
+  assert.deepEqual(read.messages.map(message => message.payload.text), ['two', 'three']);
+  assert.deepEqual(updates, ['channel://rooms/1', 'channel://rooms/1', 'channel://rooms/1']);
+
+  await hub.unsubscribe('channel://rooms/1');
+  await hub.send('postMessage', { roomId: '1', message: { text: 'four' } });
+  assert.equal(updates.length, 3);
+
+  await hub.close();
+});
+
+test('MessageChannelHub returns send problems as tool errors', async () => {
+  const broker = new InMemoryBroker();
+  broker.publish = async () => {
+    throw new Error('broker down');
+  };
+  const hub = new MessageChannelHub(readAsyncAPI(chat), broker);
+
+  assert.match((await hub.send('postMessage', { message: {} })).content[0].text, /Missing channel parameters: roomId/);
+  assert.match((await hub.send('postMessage', { roomId: '1' })).content[0].text, /"message" is required/);
+
+  const failed = await hub.send('postMessage', { roomId: '1', message: {} });
+  assert.equal(failed.isError, true);
+  assert.equal(failed.content[0].text, 'Sending to rooms/1 failed: broker down');
+
+  await assert.rejects(hub.send('nope', {}), /Tool not found: nope/);
+  await assert.rejects(hub.read('channel://kitchen'), /Resource not found/);
+});
+
+test('WebSocketBroker reopens closed sockets', async t => {
+  const WebSocketServer = await loadWebSocketServer();
+  if (!WebSocketServer) {
+    t.skip('the optional ws package is not installed');
+    return;
+  }
+
+  const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  await new Promise(resolve => server.on('listening', resolve));
+  const connections = [];
+  const sent = [];
+  server.on('connection', (socket, request) => {
+    connections.push({ socket, path: request.url });
+    socket.on('message', data => sent.push(`${request.url} ${data}`));
+  });
+
+  const { WebSocket } = await import('ws');
+  const broker = new WebSocketBroker(`ws://127.0.0.1:${server.address().port}/ws`, {
+    WebSocket,
+    reconnectDelay: 10
+  });
+  const received = [];
+  await broker.subscribe('rooms/1', message => received.push(message.payload));
+  await broker.publish('rooms/1', { text: 'one' });
+  await wait(50);
+
+  // The server drops every socket: the next send and the subscription reconnect
+  for (const { socket } of connections) socket.close();
+  await wait(100);
+  await broker.publish('rooms/1', { text: 'two' });
+  await wait(50);
+
+  assert.deepEqual(sent, ['/ws/rooms/1 {"text":"one"}', '/ws/rooms/1 {"text":"two"}']);
+  connections.at(-1).socket.send(JSON.stringify({ text: 'back' }));
+  await wait(50);
+  assert.deepEqual(received, [{ text: 'back' }]);
+
+  await broker.close();
+  await assert.rejects(broker.publish('rooms/1', {}), /broker is closed/);
+  await new Promise(resolve => server.close(resolve));
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for bin/lib/meta-tools.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EndpointCatalog, metaTools } from '../bin/lib/meta-tools.js';
+
+const readOnly = { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true };
+const petId = { type: 'object', properties: { petId: { type: 'integer' } }, required: ['petId'] };
+
+const entry = (id, method, path, summary, tags, extra = {}) => ({
+  id, method, path, operationId: id, summary, tags, inputSchema: { type: 'object', properties: {} }, ...extra
+});
+
+const petstore = [
+  entry('listPets', 'get', '/pets', 'List pets', ['pets'], { annotations: readOnly }),
+  entry('createPet', 'post', '/pets', 'Create a pet', ['pets'], {
+    inputSchema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+  }),
+  entry('getPetById', 'get', '/pets/{petId}', 'Find pet by ID', ['pets'], {
+    inputSchema: petId,
+    outputSchema: { type: 'object' },
+    annotations: readOnly
+  }),
+  entry('deletePet', 'delete', '/pets/{petId}', 'Deletes a pet', ['pets'], { inputSchema: petId }),
+  entry('placeOrder', 'post', '/store/orders', 'Place an order for a pet', ['store']),
+  entry('getUserByName', 'get', '/users/{username}', 'Get user by user name', ['user']),
+  entry('loginUser', 'get', '/users/login', 'Logs user into the system', ['user'], { deprecated: true })
+];
+const catalog = new EndpointCatalog(petstore);
+const ids = result => result.endpoints.map(match => match.endpoint);
+
+test('search ranks endpoints by the fields and path parameters a query matches', () => {
+  const { total, endpoints } = catalog.search('pet by id');
+  assert.equal(total, 6);
+  assert.deepEqual(endpoints.slice(0, 2).map(match => match.endpoint), ['getPetById', 'deletePet']);
+  assert.ok(endpoints[1].score > endpoints[2].score);
+
+  // A word found in the name, path and tags beats one found in a summary
+  const pets = ids(catalog.search('pet'));
+  assert.ok(pets.indexOf('placeOrder') > pets.indexOf('listPets'));
+
+  assert.deepEqual(ids(catalog.search('delete pets')).slice(0, 1), ['deletePet']);
+  assert.deepEqual(ids(catalog.search('user name')).slice(0, 1), ['getUserByName']);
+  assert.equal(catalog.search('refund').total, 0);
+});
+
+test('search filters by tag, limits results and ranks deprecated endpoints lower', () => {
+  assert.deepEqual(ids(catalog.search('', { tag: 'USER' })), ['getUserByName', 'loginUser']);
+  assert.equal(catalog.search('pet', { limit: 2 }).endpoints.length, 2);
+  assert.equal(catalog.search('pet', { limit: 500 }).total, 5);
+
+  const deprecated = new EndpointCatalog([
+    entry('oldSearch', 'get', '/search', 'Search', [], { deprecated: true }),
+    entry('newSearch', 'get', '/search', 'Search', [])
+  ]);
+  const { endpoints } = deprecated.search('search');
+  assert.deepEqual(endpoints.map(match => match.endpoint), ['newSearch', 'oldSearch']);
+  assert.equal(endpoints[1].deprecated, true);
+});
+
+test('describe gives the schemas and annotations of an endpoint', () => {
+  assert.deepEqual(catalog.describe('getPetById'), {
+    endpoint: 'getPetById',
+    method: 'GET',
+    path: '/pets/{petId}',
+    summary: 'Find pet by ID',
+    tags: ['pets'],
+    inputSchema: petId,
+    outputSchema: { type: 'object' },
+    annotations: readOnly
+  });
+  assert.throws(() => catalog.describe('getPet'), /Unknown endpoint "getPet" \(did you mean getPetById.*\?\)/);
+});
+
+test('prepareCall checks the arguments against the input schema', () => {
+  assert.deepEqual(catalog.prepareCall('getPetById', { petId: 3 }), { toolName: 'getPetById', arguments: { petId: 3 } });
+
+  assert.throws(() => catalog.prepareCall('getPetById', { id: 3 }), error => {
+    assert.match(error.message, /^Invalid arguments for getPetById:/);
+    assert.match(error.message, /- arguments\.id: not an argument of getPetById/);
+    assert.match(error.message, /- arguments\.petId: missing \(required\)/);
+    assert.match(error.message, /Call describe_endpoint for its input schema\.$/);
+    return true;
+  });
+  assert.throws(() => catalog.prepareCall('getPetById', [3]), /"arguments" must be an object/);
+});
+
+test('metaTools describes the catalog and combines the endpoints\' annotations', () => {
+  const tools = metaTools(catalog, { call: 'call_api_endpoint' });
+  assert.deepEqual([tools.search.name, tools.describe.name, tools.call.name],
+                   ['search_endpoints', 'describe_endpoint', 'call_api_endpoint']);
+  assert.match(tools.search.description, /Search the 7 endpoints .* Tags: pets, user, store\.$/);
+  assert.match(tools.describe.description, /before call_api_endpoint/);
+  assert.equal(tools.search.annotations.readOnlyHint, true);
+  assert.deepEqual(tools.call.annotations, readOnly);
+
+  const unannotated = metaTools(new EndpointCatalog([petstore[1]]));
+  assert.equal(unannotated.call.annotations.destructiveHint, true);
+});
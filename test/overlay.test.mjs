@@ -0,0 +1,117 @@
+/**
+ * Tests for bin/lib/overlay.js and the JSONPath queries behind it
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyOverlay, applyOverlays, isOverlay, loadOverlay } from '../bin/lib/overlay.js';
+import { queryJsonPath } from '../bin/lib/jsonpath.js';
+
+const spec = () => ({
+  openapi: '3.0.3',
+  info: { title: 'Vendor API', version: '1.0.0' },
+  paths: {
+    '/pets': {
+      get: { summary: 'List', tags: ['pets'], description: 'All pets' },
+      post: { tags: ['pets'], deprecated: true }
+    },
+    '/internal/health': {
+      get: { tags: ['internal'], 'x-internal': true, description: 'Health' }
+    }
+  }
+});
+
+const paths = nodes => nodes.map(node => node.path);
+
+test('JSONPath selects children, descendants, indices and slices', () => {
+  const document = spec();
+  assert.deepEqual(paths(queryJsonPath(document, "$.paths['/pets'].get")), [['paths', '/pets', 'get']]);
+  assert.deepEqual(queryJsonPath(document, '$..description').map(node => node.value), ['All pets', 'Health']);
+  assert.deepEqual(paths(queryJsonPath(document, "$.paths['/pets'][*]")), [
+    ['paths', '/pets', 'get'],
+    ['paths', '/pets', 'post']
+  ]);
+  assert.deepEqual(paths(queryJsonPath(document, "$.paths['/pets']['get','post'].tags[-1]")), [
+    ['paths', '/pets', 'get', 'tags', 0],
+    ['paths', '/pets', 'post', 'tags', 0]
+  ]);
+  assert.deepEqual(queryJsonPath({ list: [1, 2, 3, 4, 5] }, '$.list[1:4:2]').map(node => node.value), [2, 4]);
+  assert.deepEqual(queryJsonPath({ list: [1, 2, 3] }, '$.list[::-1]').map(node => node.value), [3, 2, 1]);
+});
+
+test('JSONPath filters compare, test existence and combine', () => {
+  const document = spec();
+  assert.deepEqual(paths(queryJsonPath(document, '$.paths.*[?@.deprecated == true]')), [['paths', '/pets', 'post']]);
+  assert.deepEqual(paths(queryJsonPath(document, '$.paths.*[?(@.tags && !@.summary)]')), [
+    ['paths', '/pets', 'post'],
+    ['paths', '/internal/health', 'get']
+  ]);
+  assert.deepEqual(paths(queryJsonPath(document, "$.paths[?@.get['x-internal']]")), [['paths', '/internal/health']]);
+  assert.deepEqual(
+    queryJsonPath({ items: [{ n: 1 }, { n: 5 }, { n: 9 }] }, '$.items[?@.n > 2 && @.n <= 9]').map(node => node.value.n),
+    [5, 9]
+  );
+
+  assert.throws(() => queryJsonPath(document, '$.paths[?length(@) > 1]'), /Invalid JSONPath/);
+  assert.throws(() => queryJsonPath(document, 'paths'), /Invalid JSONPath "paths": Expected '\$' at position 0/);
+});
+
+test('overlays merge updates, append to arrays and replace scalars, in order', () => {
+  const document = spec();
+  const result = applyOverlay(document, {
+    overlay: '1.0.0',
+    actions: [
+      { target: '$.info', update: { title: 'Pets API', contact: { name: 'Team' } } },
+      { target: "$.paths['/pets'].get", update: { operationId: 'listPets' } },
+      { target: "$.paths['/pets'].post.tags", update: 'create' },
+      { target: "$.paths['/pets'].get.summary", update: 'List pets' },
+      { target: '$.info.contact', update: { email: 'team@example.com' } }
+    ]
+  });
+
+  assert.equal(result, document);
+  assert.deepEqual(result.info, {
+    title: 'Pets API',
+    version: '1.0.0',
+    contact: { name: 'Team', email: 'team@example.com' }
+  });
+  assert.equal(result.paths['/pets'].get.operationId, 'listPets');
+  assert.equal(result.paths['/pets'].get.summary, 'List pets');
+  assert.deepEqual(result.paths['/pets'].post.tags, ['pets', 'create']);
+});
+
+test('overlays remove nodes and warn about targets that match nothing', () => {
+  const warnings = [];
+  const result = applyOverlays(spec(), [
+    {
+      overlay: '1.0.0',
+      info: { title: 'Cleanup' },
+      actions: [
+        { target: "$.paths[?@.get['x-internal'] == true]", remove: true },
+        { target: '$.paths.*.*.tags[?@ == "pets"]', remove: true }
+      ]
+    },
+    { overlay: '1.0.0', actions: [{ target: "$.paths['/orders']", update: { get: {} } }] }
+  ], { onWarning: message => warnings.push(message) });
+
+  assert.deepEqual(Object.keys(result.paths), ['/pets']);
+  assert.deepEqual(result.paths['/pets'].get.tags, []);
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], /^overlay: target .* matched nothing$/);
+
+  assert.throws(() => applyOverlay(spec(), { overlay: '1.0.0', actions: [{ target: '$', remove: true }] }),
+                /cannot remove the document root/);
+  assert.throws(() => applyOverlay(spec(), { overlay: '1.0.0', actions: [{ update: {} }] }), /action 0 has no target/);
+});
+
+test('overlay documents are recognized when loaded', async () => {
+  const documents = {
+    'https://example.com/fix.yaml': { overlay: '1.0.0', actions: [] },
+    'https://example.com/spec.yaml': spec()
+  };
+  const readDocument = async uri => documents[uri];
+
+  assert.equal(isOverlay(documents['https://example.com/fix.yaml']), true);
+  assert.deepEqual(await loadOverlay('https://example.com/fix.yaml', readDocument), { overlay: '1.0.0', actions: [] });
+  await assert.rejects(loadOverlay('https://example.com/spec.yaml', readDocument), /Not an OpenAPI Overlay document/);
+});
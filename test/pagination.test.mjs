@@ -0,0 +1,54 @@
+/**
+ * Tests for bin/lib/pagination.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchAllPages } from '../bin/lib/pagination.js';
+
+const apiRequest = {
+  method: 'GET',
+  url: 'https://api.example.com/v1/pets',
+  headers: { Authorization: 'Bearer secret' },
+  timeout: 1000
+};
+
+// Pages by URL, each linking to the next
+function pagedApi(pages) {
+  const sent = [];
+  const send = async request => {
+    sent.push(request);
+    const { items, next } = pages[request.url];
+    return {
+      status: 200,
+      statusText: 'OK',
+      headers: next ? { link: `<${next}>; rel="next"` } : {},
+      body: items
+    };
+  };
+  return { sent, send };
+}
+
+test('fetchAllPages follows Link headers and merges the items', async () => {
+  const { sent, send } = pagedApi({
+    'https://api.example.com/v1/pets': { items: [1, 2], next: '/v1/pets?page=2' },
+    'https://api.example.com/v1/pets?page=2': { items: [3], next: undefined }
+  });
+
+  const response = await fetchAllPages({ style: 'link' }, { query: {} }, { request: () => apiRequest, send });
+  assert.deepEqual(response.body, [1, 2, 3]);
+  assert.deepEqual(response.pagination, { style: 'link', pages: 2, items: 3, truncated: false });
+  assert.deepEqual(sent.map(request => request.headers), [apiRequest.headers, apiRequest.headers]);
+});
+
+test('fetchAllPages only sends the call\'s headers to the API\'s origin', async () => {
+  const { sent, send } = pagedApi({
+    'https://api.example.com/v1/pets': { items: [1], next: 'https://cdn.example.net/pets?page=2' },
+    'https://cdn.example.net/pets?page=2': { items: [2], next: 'https://api.example.com/v1/pets?page=3' },
+    'https://api.example.com/v1/pets?page=3': { items: [3], next: undefined }
+  });
+
+  const response = await fetchAllPages({ style: 'link' }, { query: {} }, { request: () => apiRequest, send });
+  assert.deepEqual(response.body, [1, 2, 3]);
+  assert.deepEqual(sent.map(request => request.headers), [apiRequest.headers, {}, apiRequest.headers]);
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for bin/lib/ref-resolver.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findUnresolvedRefs, getPointer, resolveRefs, splitRef, toPointer } from '../bin/lib/ref-resolver.js';
+
+const baseUri = 'https://api.example.com/specs/openapi.json';
+
+// External documents by URI; reads of any other URI fail
+function documents(byUri) {
+  const read = [];
+  const readDocument = async uri => {
+    read.push(uri);
+    if (!(uri in byUri)) {
+      throw new Error('404 Not Found');
+    }
+    return structuredClone(byUri[uri]);
+  };
+  return { read, readDocument };
+}
+
+test('pointers and refs are split and escaped', () => {
+  assert.deepEqual(splitRef('./common.yaml#/Error', baseUri), {
+    uri: 'https://api.example.com/specs/common.yaml',
+    pointer: '/Error'
+  });
+  assert.deepEqual(splitRef('#/paths/~1pets%7Bid%7D', baseUri), { uri: baseUri, pointer: '/paths/~1pets{id}' });
+  assert.equal(toPointer(['paths', '/pets', 'a~b']), '/paths/~1pets/a~0b');
+  assert.equal(getPointer({ paths: { '/pets': { 'a~b': 1 } } }, '/paths/~1pets/a~0b'), 1);
+  assert.equal(getPointer({ a: {} }, '/a/b'), undefined);
+});
+
+test('local refs are replaced by their targets, shared where repeated', async () => {
+  const spec = {
+    paths: {
+      '/pets': {
+        get: { responses: { 200: { $ref: '#/components/responses/Pets' } } },
+        post: { responses: { 201: { $ref: '#/components/responses/Pets', description: 'Created' } } }
+      }
+    },
+    components: {
+      responses: { Pets: { description: 'Pets', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } },
+      schemas: { Pet: { type: 'object', properties: { name: { type: 'string' } } } }
+    }
+  };
+
+  const resolved = await resolveRefs(spec, { baseUri });
+  const listed = resolved.paths['/pets'].get.responses[200];
+  assert.equal(listed.content['application/json'].schema, resolved.components.schemas.Pet);
+  assert.deepEqual(listed.content['application/json'].schema, spec.components.schemas.Pet);
+
+  // Siblings of a ref override its target
+  assert.equal(resolved.paths['/pets'].post.responses[201].description, 'Created');
+  assert.equal(listed.description, 'Pets');
+  assert.equal(spec.paths['/pets'].get.responses[200].$ref, '#/components/responses/Pets');
+});
+
+test('circular refs are kept as local refs', async () => {
+  const spec = {
+    components: {
+      schemas: {
+        Node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Node' } } } }
+      }
+    }
+  };
+
+  const resolved = await resolveRefs(spec, { baseUri });
+  assert.deepEqual(resolved.components.schemas.Node.properties.children.items, { $ref: '#/components/schemas/Node' });
+  assert.doesNotThrow(() => JSON.stringify(resolved));
+
+  const loop = { components: { schemas: { A: { $ref: '#/components/schemas/B' }, B: { $ref: '#/components/schemas/A' } } } };
+  await assert.rejects(resolveRefs(loop, { baseUri }), /Circular \$ref chain/);
+});
+
+test('external refs are loaded relative to the document that holds them', async () => {
+  const { read, readDocument } = documents({
+    'https://api.example.com/specs/common.yaml': {
+      Error: { type: 'object', properties: { code: { $ref: 'types/code.json' } } }
+    },
+    'https://api.example.com/specs/types/code.json': { type: 'integer' },
+    'https://schemas.example.org/tree.json': {
+      Tree: { type: 'object', properties: { branches: { type: 'array', items: { $ref: '#/Tree' } } } }
+    }
+  });
+  const spec = {
+    components: {
+      schemas: {
+        Error: { $ref: './common.yaml#/Error' },
+        Tree: { $ref: 'https://schemas.example.org/tree.json#/Tree' }
+      }
+    }
+  };
+
+  const resolved = await resolveRefs(spec, { baseUri, readDocument });
+  assert.deepEqual(resolved.components.schemas.Error, { type: 'object', properties: { code: { type: 'integer' } } });
+  assert.deepEqual(read.sort(), [
+    'https://api.example.com/specs/common.yaml',
+    'https://api.example.com/specs/types/code.json',
+    'https://schemas.example.org/tree.json'
+  ]);
+
+  // A circular external schema is hoisted into the spec's own components
+  const { schemas } = resolved.components;
+  assert.deepEqual(schemas.Tree.properties.branches.items, { $ref: '#/components/schemas/Tree2' });
+  assert.equal(schemas.Tree2, schemas.Tree);
+});
+
+test('unresolvable refs fail resolution and are all reported by findUnresolvedRefs', async () => {
+  const { readDocument } = documents({ 'https://api.example.com/specs/common.yaml': { Error: {} } });
+  const spec = {
+    paths: {
+      '/pets': {
+        get: {
+          responses: {
+            200: { $ref: '#/components/responses/Missing' },
+            400: { $ref: './common.yaml#/Problem' },
+            500: { $ref: './gone.yaml#/Error' }
+          }
+        }
+      }
+    }
+  };
+
+  await assert.rejects(resolveRefs(spec, { baseUri, readDocument }), /Failed to load external \$ref \.\/gone\.yaml#\/Error: 404/);
+  await assert.rejects(
+    resolveRefs({ a: { $ref: '#/missing' } }, { baseUri }),
+    /Unable to resolve \$ref: #\/missing/
+  );
+
+  const unresolved = await findUnresolvedRefs(spec, { baseUri, readDocument });
+  assert.deepEqual(unresolved.map(({ pointer, reason }) => [pointer, reason]), [
+    ['/paths/~1pets/get/responses/200', 'Target does not exist'],
+    ['/paths/~1pets/get/responses/400', 'Target does not exist'],
+    ['/paths/~1pets/get/responses/500', 'Failed to load https://api.example.com/specs/gone.yaml: 404 Not Found']
+  ]);
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for bin/lib/response-shaping.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResponseStash, shapeResponse, truncateToBudget } from '../bin/lib/response-shaping.js';
+
+const pets = Array.from({ length: 30 }, (_, i) => ({ id: i + 1, name: `pet ${i + 1}`, tags: ['a', 'b'] }));
+const response = { status: 200, statusText: 'OK', headers: {}, body: { data: pets, total: 30 } };
+const bytesOf = value => Buffer.byteLength(JSON.stringify(value));
+
+test('fields and select shape success bodies', () => {
+  const { response: shaped, shaped: changed } = shapeResponse(response, { select: '$.data[0:2]', fields: ['id'] });
+  assert.equal(changed, true);
+  assert.deepEqual(shaped.body, [{ id: 1 }, { id: 2 }]);
+});
+
+test('bodies are cut to the budget, keeping their shape', () => {
+  const { value, truncated } = truncateToBudget(response.body, 200);
+  assert.ok(bytesOf(value) <= 200);
+  assert.equal(truncated.returnedBytes, bytesOf(value));
+  assert.equal(value.total, 30);
+  assert.deepEqual(truncated.arrays.map(({ path, total, kept }) => ({ path, total, kept })), [
+    { path: '$.data', total: 30, kept: value.data.length }
+  ]);
+  assert.deepEqual(truncated.arrays[0].tail.id, { first: value.data.length + 1, last: 30 });
+  assert.equal(truncated.warning, undefined);
+});
+
+test('arrays are emptied when one item is over the budget', () => {
+  const { value, truncated } = truncateToBudget(response.body, 50);
+  assert.deepEqual(value, { data: [], total: 30 });
+  assert.deepEqual(truncated.arrays.map(({ path, kept, omitted }) => ({ path, kept, omitted })), [
+    { path: '$.data', kept: 0, omitted: 30 }
+  ]);
+  assert.equal(truncated.warning, undefined);
+});
+
+test('a body over budget even when bare says so', () => {
+  const { value, truncated } = truncateToBudget(response.body, 10);
+  assert.deepEqual(value, { data: [], total: 30 });
+  assert.equal(truncated.returnedBytes, 22);
+  assert.match(truncated.warning, /still 22 bytes .* 12 over the 10-byte budget/);
+});
+
+test('the full body is stashed in pages that fit the budget', () => {
+  const stash = new ResponseStash();
+  const { truncated } = shapeResponse(response, { maxBytes: 1000, stash, source: 'listPets' });
+  const { uri, pages } = truncated.fullBody;
+  assert.ok(pages > 1);
+
+  const text = Array.from({ length: pages }, (_, i) => stash.read(`${uri}?page=${i + 1}`).contents[0].text);
+  assert.ok(text.every(page => Buffer.byteLength(page) <= 1000));
+  assert.deepEqual(JSON.parse(text.join('')), response.body);
+  assert.throws(() => stash.read(`${uri}?page=${pages + 1}`), /has pages 1 to/);
+});
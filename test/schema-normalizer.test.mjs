@@ -0,0 +1,125 @@
+/**
+ * Tests for bin/lib/schema-normalizer.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isOpenAPI31, normalizeSchema, normalizeSpecSchemas, schemaTypes } from '../bin/lib/schema-normalizer.js';
+
+test('OpenAPI 3.0 nullable becomes a null type', () => {
+  assert.deepEqual(normalizeSchema({ type: 'string', nullable: true }), { type: ['string', 'null'] });
+  assert.deepEqual(normalizeSchema({ type: 'string', enum: ['a', 'b'], nullable: true }), {
+    type: ['string', 'null'],
+    enum: ['a', 'b', null]
+  });
+  assert.deepEqual(normalizeSchema({ allOf: [{ $ref: '#/components/schemas/Pet' }], nullable: true }), {
+    anyOf: [{ allOf: [{ $ref: '#/components/schemas/Pet' }] }, { type: 'null' }]
+  });
+  assert.deepEqual(normalizeSchema({ type: 'string', nullable: false }), { type: 'string' });
+
+  // 3.1 has no nullable keyword; it is left alone
+  assert.deepEqual(normalizeSchema({ type: 'string', nullable: true }, { openapi31: true }), {
+    type: 'string',
+    nullable: true
+  });
+});
+
+test('boolean exclusive bounds become numbers', () => {
+  assert.deepEqual(normalizeSchema({ type: 'integer', minimum: 0, exclusiveMinimum: true, maximum: 10 }), {
+    type: 'integer',
+    exclusiveMinimum: 0,
+    maximum: 10
+  });
+  assert.deepEqual(normalizeSchema({ type: 'integer', maximum: 10, exclusiveMaximum: false }), {
+    type: 'integer',
+    maximum: 10
+  });
+  assert.deepEqual(normalizeSchema({ type: 'number', exclusiveMinimum: 1 }, { openapi31: true }), {
+    type: 'number',
+    exclusiveMinimum: 1
+  });
+});
+
+test('examples, tuples and definitions take their 2020-12 form', () => {
+  assert.deepEqual(normalizeSchema({ type: 'string', example: 'Rex' }), { type: 'string', examples: ['Rex'] });
+  assert.deepEqual(normalizeSchema({ examples: { a: 1, b: 2 } }), { examples: [1, 2] });
+  assert.deepEqual(normalizeSchema({ example: 0, examples: [1] }), { examples: [1] });
+
+  assert.deepEqual(
+    normalizeSchema({ type: 'array', items: [{ type: 'string' }, { type: 'integer' }], additionalItems: false }),
+    { type: 'array', prefixItems: [{ type: 'string' }, { type: 'integer' }], items: false }
+  );
+  assert.deepEqual(normalizeSchema({ definitions: { Id: { type: 'string', nullable: true } } }), {
+    $defs: { Id: { type: ['string', 'null'] } }
+  });
+  assert.deepEqual(normalizeSchema({ type: ['string', 'string', 'null'] }, { openapi31: true }), {
+    type: ['string', 'null']
+  });
+});
+
+test('nested and shared schemas are normalized once', () => {
+  const shared = { type: 'integer', nullable: true };
+  const schema = {
+    type: 'object',
+    properties: { a: shared, b: shared, list: { type: 'array', items: { oneOf: [shared, { type: 'string' }] } } }
+  };
+
+  const normalized = normalizeSchema(schema);
+  assert.deepEqual(normalized.properties.a, { type: ['integer', 'null'] });
+  assert.equal(normalized.properties.a, normalized.properties.b);
+  assert.equal(normalized.properties.list.items.oneOf[0], normalized.properties.a);
+
+  // Recursive schemas stay recursive
+  const node = { type: 'object', properties: {} };
+  node.properties.next = node;
+  const recursive = normalizeSchema(node);
+  assert.equal(recursive.properties.next, recursive);
+});
+
+test('every schema location of a spec is normalized', () => {
+  const spec = normalizeSpecSchemas({
+    openapi: '3.0.3',
+    components: {
+      schemas: { Pet: { type: 'object', properties: { tag: { type: 'string', nullable: true } } } },
+      parameters: { limit: { name: 'limit', in: 'query', schema: { type: 'integer', example: 10 } } }
+    },
+    paths: {
+      '/pets': {
+        parameters: [{ name: 'q', in: 'query', schema: { type: 'string', nullable: true } }],
+        post: {
+          requestBody: { content: { 'application/json': { schema: { type: 'string', example: 'a' } } } },
+          responses: {
+            200: {
+              description: 'OK',
+              headers: { 'X-Next': { schema: { type: 'string', nullable: true } } },
+              content: { 'application/json': { schema: { type: 'integer', minimum: 0, exclusiveMinimum: true } } }
+            }
+          },
+          callbacks: {
+            done: { '{$request.body#/url}': { post: { requestBody: { content: { 'text/plain': { schema: { example: 'x' } } } } } } }
+          }
+        }
+      }
+    },
+    webhooks: {}
+  });
+
+  assert.deepEqual(spec.components.schemas.Pet.properties.tag.type, ['string', 'null']);
+  assert.deepEqual(spec.components.parameters.limit.schema, { type: 'integer', examples: [10] });
+  const path = spec.paths['/pets'];
+  assert.deepEqual(path.parameters[0].schema.type, ['string', 'null']);
+  assert.deepEqual(path.post.requestBody.content['application/json'].schema.examples, ['a']);
+  const response = path.post.responses[200];
+  assert.deepEqual(response.headers['X-Next'].schema.type, ['string', 'null']);
+  assert.deepEqual(response.content['application/json'].schema, { type: 'integer', exclusiveMinimum: 0 });
+  const callback = path.post.callbacks.done['{$request.body#/url}'].post;
+  assert.deepEqual(callback.requestBody.content['text/plain'].schema, { examples: ['x'] });
+});
+
+test('OpenAPI 3.1 is detected and types are listed', () => {
+  assert.equal(isOpenAPI31({ openapi: '3.1.0' }), true);
+  assert.equal(isOpenAPI31({ openapi: '3.0.3' }), false);
+  assert.deepEqual(schemaTypes({ type: ['string', 'null'] }), ['string', 'null']);
+  assert.deepEqual(schemaTypes({ type: 'object' }), ['object']);
+  assert.deepEqual(schemaTypes({}), []);
+});
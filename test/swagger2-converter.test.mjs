@@ -0,0 +1,179 @@
+/**
+ * Tests for bin/lib/swagger2-converter.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { convertSwagger2, isSwagger2, swagger2Pointer } from '../bin/lib/swagger2-converter.js';
+import { loadSpec } from '../bin/lib/spec-loader.js';
+
+const petstore = {
+  swagger: '2.0',
+  info: { title: 'Petstore', version: '1.0.0' },
+  host: 'petstore.example.com',
+  basePath: '/v1',
+  schemes: ['https', 'http'],
+  produces: ['application/json'],
+  definitions: {
+    Pet: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', 'x-nullable': true },
+        owner: { $ref: '#/definitions/Owner' },
+        vet: { $ref: './vets.yaml#/definitions/Vet' }
+      }
+    },
+    Owner: { type: 'object', properties: { name: { type: 'string' } } }
+  },
+  parameters: {
+    petId: { name: 'petId', in: 'path', required: true, type: 'integer' },
+    pet: { name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } }
+  },
+  responses: {
+    NotFound: { description: 'Not found' }
+  },
+  securityDefinitions: {
+    oauth: { type: 'oauth2', flow: 'accessCode', authorizationUrl: 'https://a.example/auth', tokenUrl: 'https://a.example/token' }
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        parameters: [{ name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'pipes' }],
+        responses: { 200: { description: 'Pets', schema: { type: 'array', items: { $ref: '#/definitions/Pet' } } } }
+      },
+      post: {
+        operationId: 'createPet',
+        parameters: [{ $ref: '#/parameters/pet' }],
+        responses: { 201: { description: 'Created' } }
+      }
+    },
+    '/pets/{petId}/photo': {
+      parameters: [{ $ref: '#/parameters/petId' }],
+      put: {
+        operationId: 'uploadPhoto',
+        consumes: ['multipart/form-data'],
+        parameters: [
+          { name: 'file', in: 'formData', type: 'file', required: true },
+          { name: 'caption', in: 'formData', type: 'string' }
+        ],
+        responses: { 404: { $ref: '#/responses/NotFound' } }
+      }
+    }
+  }
+};
+
+test('only Swagger 2.0 documents are converted', () => {
+  assert.equal(isSwagger2(petstore), true);
+  const openapi = { openapi: '3.0.3', info: {}, paths: {} };
+  assert.equal(convertSwagger2(openapi), openapi);
+});
+
+test('host, basePath and schemes become servers', () => {
+  assert.deepEqual(convertSwagger2(petstore).servers, [
+    { url: 'https://petstore.example.com/v1' },
+    { url: 'http://petstore.example.com/v1' }
+  ]);
+  assert.deepEqual(convertSwagger2({ swagger: '2.0', basePath: '/api', paths: {} }).servers, [{ url: '/api' }]);
+});
+
+test('definitions, parameters, responses and security move into components', () => {
+  const { components } = convertSwagger2(petstore);
+  assert.deepEqual(components.schemas.Pet.properties.name, { type: 'string', nullable: true });
+  assert.deepEqual(components.schemas.Pet.properties.owner, { $ref: '#/components/schemas/Owner' });
+  assert.deepEqual(components.parameters.petId, {
+    name: 'petId', in: 'path', required: true, schema: { type: 'integer' }
+  });
+  assert.deepEqual(components.requestBodies.pet, {
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+    required: true
+  });
+  assert.deepEqual(components.responses.NotFound, { description: 'Not found' });
+  assert.deepEqual(components.securitySchemes.oauth, {
+    type: 'oauth2',
+    flows: {
+      authorizationCode: { scopes: {}, authorizationUrl: 'https://a.example/auth', tokenUrl: 'https://a.example/token' }
+    }
+  });
+});
+
+test('operations get request bodies, styles and response content', () => {
+  const { paths } = convertSwagger2(petstore);
+
+  const list = paths['/pets'].get;
+  assert.deepEqual(list.parameters[0], {
+    name: 'tags', in: 'query', style: 'pipeDelimited', explode: false,
+    schema: { type: 'array', items: { type: 'string' } }
+  });
+  assert.deepEqual(list.responses[200].content['application/json'].schema.items, { $ref: '#/components/schemas/Pet' });
+
+  assert.deepEqual(paths['/pets'].post.requestBody, { $ref: '#/components/requestBodies/pet' });
+
+  const upload = paths['/pets/{petId}/photo'];
+  assert.deepEqual(upload.parameters, [{ $ref: '#/components/parameters/petId' }]);
+  assert.deepEqual(upload.put.requestBody, {
+    content: {
+      'multipart/form-data': {
+        schema: {
+          type: 'object',
+          properties: { file: { type: 'string', format: 'binary' }, caption: { type: 'string' } },
+          required: ['file']
+        }
+      }
+    },
+    required: true
+  });
+  assert.deepEqual(upload.put.responses[404], { $ref: '#/components/responses/NotFound' });
+});
+
+test('refs into other documents keep their pointers', () => {
+  const { components } = convertSwagger2(petstore);
+  assert.deepEqual(components.schemas.Pet.properties.vet, { $ref: './vets.yaml#/definitions/Vet' });
+
+  const remote = convertSwagger2({
+    swagger: '2.0',
+    paths: {},
+    responses: { Error: { description: 'Error', schema: { $ref: 'https://example.com/common.json#/responses/Error' } } }
+  });
+  assert.deepEqual(remote.components.responses.Error.content['application/json'].schema, {
+    $ref: 'https://example.com/common.json#/responses/Error'
+  });
+});
+
+test('loaded specs resolve refs into other 2.0 documents', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'swagger2-'));
+  try {
+    await writeFile(join(dir, 'petstore.json'), JSON.stringify(petstore));
+    await writeFile(join(dir, 'vets.yaml'), 'definitions:\n  Vet:\n    type: object\n    properties:\n      clinic:\n        type: string\n');
+
+    const spec = await loadSpec(join(dir, 'petstore.json'));
+    assert.deepEqual(spec.components.schemas.Pet.properties.vet, {
+      type: 'object',
+      properties: { clinic: { type: 'string' } }
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('pointers into the conversion map back to the 2.0 document', () => {
+  const converted = convertSwagger2(petstore);
+  const back = pointer => swagger2Pointer(pointer, petstore, converted);
+
+  assert.equal(back('/servers/0/url'), '/host');
+  assert.equal(back('/components/schemas/Pet/properties/owner'), '/definitions/Pet/properties/owner');
+  assert.equal(back('/components/parameters/petId/schema/type'), '/parameters/petId/type');
+  assert.equal(back('/components/requestBodies/pet/content/application~1json/schema'), '/parameters/pet/schema');
+  assert.equal(back('/paths/~1pets/get/parameters/0/style'), '/paths/~1pets/get/parameters/0/collectionFormat');
+  assert.equal(back('/paths/~1pets/get/responses/200/content/application~1json/schema/items'),
+               '/paths/~1pets/get/responses/200/schema/items');
+  assert.equal(back('/paths/~1pets/post/requestBody'), '/paths/~1pets/post/parameters/0');
+  assert.equal(back('/paths/~1pets~1{petId}~1photo/parameters/0'), '/paths/~1pets~1{petId}~1photo/parameters/0');
+  assert.equal(back('/paths/~1pets~1{petId}~1photo/put/requestBody/content/multipart~1form-data/schema/properties/caption/type'),
+               '/paths/~1pets~1{petId}~1photo/put/parameters/1/type');
+  assert.equal(back('/paths/~1pets/get/summary'), '/paths/~1pets/get/summary');
+  assert.equal(back('https://example.com/common.json#/Error'), 'https://example.com/common.json#/Error');
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for bin/lib/tool-annotations.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  deprecatedDescription,
+  hasSideEffects,
+  mergeAnnotations,
+  toolAnnotations
+} from '../bin/lib/tool-annotations.js';
+import { readMCPExtensions } from '../bin/lib/mcp-extensions.js';
+
+const hints = annotations => {
+  const { title, ...rest } = annotations;
+  return rest;
+};
+
+test('hints follow the method', () => {
+  assert.deepEqual(toolAnnotations('get', { summary: 'List pets' }), {
+    title: 'List pets',
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true
+  });
+  assert.deepEqual(hints(toolAnnotations('post')), {
+    readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true
+  });
+  assert.deepEqual(hints(toolAnnotations('put')), {
+    readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true
+  });
+  assert.deepEqual(hints(toolAnnotations('delete')), {
+    readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true
+  });
+});
+
+test('safe methods whose summary says they do something are not read-only', () => {
+  const trigger = { summary: 'Trigger a rebuild' };
+  assert.equal(hasSideEffects(trigger), true);
+  assert.equal(hasSideEffects({ summary: 'Get a pet' }), false);
+  assert.equal(hasSideEffects(undefined), false);
+
+  assert.deepEqual(hints(toolAnnotations('GET', trigger)), {
+    readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true
+  });
+});
+
+test('x-mcp extensions mark tools read-only or destructive, and replace hints', () => {
+  assert.equal(toolAnnotations('post', {}, { kind: 'resource' }).readOnlyHint, true);
+  assert.equal(toolAnnotations('post', {}, { confirm: true }).destructiveHint, true);
+
+  const operation = {
+    summary: 'Archive a pet',
+    'x-mcp-annotations': { idempotentHint: true, openWorldHint: 'no', title: 'Archive' }
+  };
+  const extensions = readMCPExtensions(operation);
+  assert.deepEqual(extensions.annotations, { idempotentHint: true, title: 'Archive' });
+  assert.deepEqual(toolAnnotations('post', operation, extensions), {
+    title: 'Archive',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true
+  });
+});
+
+test('deprecated operations are marked in the title and description', () => {
+  const operation = { summary: 'Find pets by tags', deprecated: true };
+  assert.equal(toolAnnotations('get', operation).title, 'Find pets by tags (deprecated)');
+  assert.equal(deprecatedDescription('Find pets.', operation), 'DEPRECATED: Find pets.');
+  assert.equal(deprecatedDescription('Find pets.', { summary: 'Find pets' }), 'Find pets.');
+});
+
+test('composite tools are read-only only if every action is, destructive if any is', () => {
+  const merged = mergeAnnotations([toolAnnotations('get'), toolAnnotations('delete'), undefined]);
+  assert.deepEqual(merged, {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  });
+  assert.equal(mergeAnnotations([toolAnnotations('get'), toolAnnotations('head')]).readOnlyHint, true);
+  assert.equal(mergeAnnotations([undefined]), undefined);
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for bin/lib/tool-names.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  MAX_TOOL_NAME_LENGTH,
+  assignToolNames,
+  operationKey,
+  readToolNameMapping,
+  sanitizeToolName,
+  toolNameFor,
+  writeToolNameMapping
+} from '../bin/lib/tool-names.js';
+
+const VALID_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+test('names come from x-mcp-name, operationId, summary, then method and path', () => {
+  const operation = { operationId: 'getPet', summary: 'Find a pet by its ID' };
+  assert.equal(toolNameFor('get', '/pets/{petId}', operation, { name: 'fetch pet' }), 'fetch_pet');
+  assert.equal(toolNameFor('get', '/pets/{petId}', operation), 'getPet');
+  assert.equal(toolNameFor('get', '/pets/{petId}', { summary: 'Find a pet by its ID, quickly please' }),
+               'find_a_pet_by_its_id');
+  assert.equal(toolNameFor('get', '/pets/{petId}/toys'), 'get_pets_by_pet_id_toys');
+  assert.equal(toolNameFor('delete', '/'), 'delete_root');
+});
+
+test('names are made valid, and long ones are cut and hashed', () => {
+  assert.equal(sanitizeToolName('pets.list (v2)'), 'pets_list_v2');
+  assert.equal(sanitizeToolName('///'), 'tool');
+
+  const long = `list_${'very_'.repeat(20)}long`;
+  const name = sanitizeToolName(long);
+  assert.equal(name.length, MAX_TOOL_NAME_LENGTH);
+  assert.match(name, VALID_NAME);
+  assert.match(name, /^list_very_.*_[0-9a-f]{6}$/);
+  assert.equal(sanitizeToolName(long), name);
+
+  // Names that only differ past the cut stay apart
+  assert.notEqual(sanitizeToolName(`${long}_a`), sanitizeToolName(`${long}_b`));
+});
+
+test('collisions go to the operation that sorts first; the others get suffixes', () => {
+  const operations = [
+    { method: 'post', path: '/pets', operation: { operationId: 'pets' } },
+    { method: 'get', path: '/pets', operation: { operationId: 'pets' } },
+    { method: 'get', path: '/animals', operation: { operationId: 'pets' } }
+  ];
+
+  const names = assignToolNames(operations);
+  assert.deepEqual(Object.fromEntries(names), {
+    'GET /animals': 'pets',
+    'GET /pets': 'pets_2',
+    'POST /pets': 'pets_3'
+  });
+
+  // The order of the spec doesn't matter
+  assert.deepEqual(assignToolNames([...operations].reverse()), names);
+
+  // Suffixes keep long names within the limit
+  const long = 'x'.repeat(64);
+  const suffixed = assignToolNames([
+    { method: 'get', path: '/a', operation: { operationId: long } },
+    { method: 'get', path: '/b', operation: { operationId: long } }
+  ]);
+  assert.equal(suffixed.get('GET /b'), `${'x'.repeat(62)}_2`);
+});
+
+test('x-mcp-name and pinned names win, and pinned names are never reused', () => {
+  const mapping = {
+    version: 1,
+    tools: {
+      'GET /pets': 'list_pets',
+      'GET /pets/{id}': 'get_pet',
+      'DELETE /pets/{id}': 'remove_pet'
+    }
+  };
+  const operations = [
+    { method: 'get', path: '/pets', operation: { operationId: 'listPetsV2' } },
+    { method: 'get', path: '/pets/{id}', operation: { operationId: 'getPet' }, extensions: { name: 'show_pet' } },
+    { method: 'post', path: '/pets', operation: { operationId: 'remove_pet' } },
+    { method: 'get', path: '/pets', operation: { operationId: 'listPets' }, namespace: 'zoo' }
+  ];
+
+  assert.deepEqual(Object.fromEntries(assignToolNames(operations, { mapping })), {
+    'GET /pets': 'list_pets',
+    'GET /pets/{id}': 'show_pet',
+    // DELETE /pets/{id} left the spec; its name stays reserved
+    'POST /pets': 'remove_pet_2',
+    'zoo:GET /pets': 'listPets'
+  });
+  assert.equal(operationKey('get', '/pets', 'zoo'), 'zoo:GET /pets');
+});
+
+test('mapping files keep the names of removed operations', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'tool-names-'));
+  const file = join(dir, 'tools.json');
+  try {
+    assert.deepEqual(readToolNameMapping(file), { version: 1, tools: {} });
+
+    writeToolNameMapping(file, new Map([['GET /pets', 'list_pets'], ['DELETE /pets/{id}', 'remove_pet']]));
+    writeToolNameMapping(file, new Map([['GET /pets', 'list_pets'], ['GET /owners', 'list_owners']]));
+
+    assert.deepEqual(JSON.parse(await readFile(file, 'utf8')), {
+      version: 1,
+      tools: { 'DELETE /pets/{id}': 'remove_pet', 'GET /owners': 'list_owners', 'GET /pets': 'list_pets' }
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for bin/lib/traffic-importer.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  importHar,
+  importPostmanCollection,
+  importTraffic,
+  inferSchema,
+  isHar,
+  isPostmanCollection,
+  mergeSchemas
+} from '../bin/lib/traffic-importer.js';
+
+const collection = {
+  info: { name: 'Pets', schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json' },
+  variable: [{ key: 'baseUrl', value: 'https://api.example.com/v1' }],
+  auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+  item: [{
+    name: 'pets',
+    item: [
+      {
+        name: 'Get pet',
+        request: {
+          method: 'GET',
+          url: {
+            raw: '{{baseUrl}}/pets/:petId?expand=owner',
+            host: ['{{baseUrl}}'],
+            path: ['pets', ':petId'],
+            query: [{ key: 'expand', value: 'owner' }],
+            variable: [{ key: 'petId', value: '42' }]
+          }
+        },
+        response: [{
+          code: 200,
+          status: 'OK',
+          header: [{ key: 'Content-Type', value: 'application/json' }],
+          body: '{"id":42,"name":"Rex","born":"2020-01-02"}'
+        }]
+      },
+      {
+        name: 'Create pet',
+        request: {
+          method: 'POST',
+          header: [{ key: 'Content-Type', value: 'application/json' }, { key: 'X-Trace', value: 'abc' }],
+          url: '{{baseUrl}}/pets',
+          body: { mode: 'raw', raw: '{"name":"Rex","tags":["a"]}' }
+        }
+      }
+    ]
+  }]
+};
+
+const exchange = (method, url, status, text, mimeType = 'application/json') => ({
+  request: {
+    method,
+    url,
+    headers: [],
+    queryString: [...new URL(url).searchParams].map(([name, value]) => ({ name, value }))
+  },
+  response: { status, headers: [], content: { mimeType, text } }
+});
+
+test('traffic documents are recognized; other documents pass through', () => {
+  assert.equal(isPostmanCollection(collection), true);
+  assert.equal(isHar({ log: { entries: [] } }), true);
+  const spec = { openapi: '3.1.0', paths: {} };
+  assert.equal(importTraffic(spec), spec);
+  assert.equal(importTraffic(collection).openapi, '3.1.0');
+});
+
+test('Postman requests become operations with variables, auth and examples', () => {
+  const spec = importPostmanCollection(collection);
+  assert.deepEqual(spec.info, { title: 'Pets', version: '1.0.0' });
+  assert.deepEqual(spec.servers, [{ url: 'https://api.example.com' }]);
+  assert.deepEqual(spec.components.securitySchemes, { bearerAuth: { type: 'http', scheme: 'bearer' } });
+
+  const get = spec.paths['/v1/pets/{petId}'].get;
+  assert.equal(get.operationId, 'getPet');
+  assert.deepEqual(get.tags, ['pets']);
+  assert.deepEqual(get.security, [{ bearerAuth: [] }]);
+  assert.deepEqual(get.parameters, [
+    { name: 'petId', in: 'path', required: true, schema: { type: 'integer' } },
+    { name: 'expand', in: 'query', required: false, schema: { type: 'string' }, example: 'owner' }
+  ]);
+  const ok = get.responses[200].content['application/json'];
+  assert.deepEqual(ok.schema.properties.born, { type: 'string', format: 'date' });
+  assert.deepEqual(ok.example, { id: 42, name: 'Rex', born: '2020-01-02' });
+
+  // Standard headers are dropped; the body schema comes from the raw JSON
+  const post = spec.paths['/v1/pets'].post;
+  assert.deepEqual(post.parameters.map(parameter => parameter.name), ['X-Trace']);
+  assert.deepEqual(post.requestBody.content['application/json'].schema.required, ['name', 'tags']);
+  assert.deepEqual(post.responses, { 200: { description: 'Successful response' } });
+});
+
+test('HAR entries are templated, merged and stripped of static assets', () => {
+  const spec = importHar({
+    log: {
+      pages: [{ title: 'Shop' }],
+      entries: [
+        exchange('GET', 'https://shop.example.com/api/orders/1001', 200, '{"id":1001,"total":9.5}'),
+        exchange('GET', 'https://shop.example.com/api/orders/1002', 200, '{"id":1002,"total":3}'),
+        exchange('GET', 'https://shop.example.com/app.js', 200, '', 'application/javascript'),
+        exchange('GET', 'https://shop.example.com/logo', 200, '', 'image/png'),
+        exchange('GET', 'https://shop.example.com/api/users/3f2b8c1e-1234-4abc-9def-0123456789ab?active=true', 404,
+                 '{"error":"nope"}')
+      ]
+    }
+  });
+
+  assert.equal(spec.info.title, 'Shop');
+  assert.deepEqual(spec.servers, [{ url: 'https://shop.example.com' }]);
+  assert.deepEqual(Object.keys(spec.paths), ['/api/orders/{orderId}', '/api/users/{userId}']);
+
+  const order = spec.paths['/api/orders/{orderId}'].get;
+  assert.deepEqual(order.tags, ['orders']);
+  assert.deepEqual(order.parameters[0].schema, { type: 'integer' });
+  assert.deepEqual(order.responses[200].content['application/json'].schema.properties.total, { type: 'number' });
+
+  const user = spec.paths['/api/users/{userId}'].get;
+  assert.deepEqual(user.parameters.map(({ name, in: location, schema }) => [name, location, schema]), [
+    ['userId', 'path', { type: 'string', format: 'uuid' }],
+    ['active', 'query', { type: 'boolean' }]
+  ]);
+  assert.deepEqual(Object.keys(user.responses), ['404']);
+});
+
+test('segments that vary between otherwise identical URLs become parameters', () => {
+  const spec = importHar({
+    log: {
+      entries: ['alpha', 'beta', 'gamma'].map(repo =>
+        exchange('GET', `https://git.example.com/repos/${repo}/issues`, 200, '[]')
+      )
+    }
+  });
+  assert.deepEqual(Object.keys(spec.paths), ['/repos/{repoId}/issues']);
+
+  // Two names without digits could just as well be two collections
+  const two = importHar({
+    log: {
+      entries: ['alpha', 'beta'].map(repo => exchange('GET', `https://git.example.com/repos/${repo}/issues`, 200, '[]'))
+    }
+  });
+  assert.deepEqual(Object.keys(two.paths), ['/repos/alpha/issues', '/repos/beta/issues']);
+});
+
+test('schemas are inferred from values and merged across samples', () => {
+  assert.deepEqual(inferSchema({ a: 1, b: 1.5, c: 'x@y.io', d: [1, 'a'], e: null }), {
+    type: 'object',
+    properties: {
+      a: { type: 'integer' },
+      b: { type: 'number' },
+      c: { type: 'string', format: 'email' },
+      d: { type: 'array', items: { type: ['integer', 'string'] } },
+      e: { type: 'null' }
+    },
+    required: ['a', 'b', 'c', 'd', 'e']
+  });
+
+  // Integers widen to numbers; fields missing from a sample are optional
+  assert.deepEqual(mergeSchemas(inferSchema({ a: 1 }), inferSchema({ a: 1.5, b: 'x' })), {
+    type: 'object',
+    properties: { a: { type: 'number' }, b: { type: 'string' } },
+    required: ['a']
+  });
+});